@@ -0,0 +1,65 @@
+import { RemoteRequestMethod } from "../remoteRequestMehtodType";
+import {
+  ApiClient,
+  EndpointDefinition,
+  EndpointMap,
+} from "../types/api-definition";
+import { RequestOptions } from "../types/request-options";
+import { buildPath } from "../utils/path-template";
+
+/**
+ * 타입을 지정한 엔드포인트 정의 생성
+ * - 응답 / 본문 / 쿼리 타입은 명시하고 경로 템플릿은 추론하기 위해 두 단계로 호출
+ * @example
+ *  endpoint<User, UpdateUserBody>()({ method: "put", path: "/users/:id" })
+ */
+export function endpoint<
+  TResponse = unknown,
+  TBody = undefined,
+  TQuery = undefined
+>() {
+  return <const TPath extends string>(
+    definition: EndpointDefinition<TResponse, TBody, TQuery, TPath>
+  ): EndpointDefinition<TResponse, TBody, TQuery, TPath> => definition;
+}
+
+/**
+ * 엔드포인트 정의로 타입 안전 API 클라이언트 생성
+ * - 경로 파라미터 치환 / 인코딩, 쿼리, 본문, 암호화 / 인증 여부를 요청 설정으로 변환
+ * - 각 함수는 응답 본문을 반환
+ * @param client - 요청에 사용할 클라이언트 (RemoteRequest)
+ * @param endpoints - 엔드포인트 정의 객체
+ */
+export function defineApi<const M extends EndpointMap>(
+  client: RemoteRequestMethod,
+  endpoints: M
+): ApiClient<M> {
+  const api: Record<string, unknown> = {};
+  Object.keys(endpoints).forEach((name) => {
+    const definition = endpoints[name];
+    api[name] = async (
+      args: {
+        params?: Record<string, string | number>;
+        query?: Record<string, unknown>;
+        body?: unknown;
+        options?: RequestOptions;
+      } = {}
+    ) => {
+      const response = await client.request({
+        ...definition.options,
+        ...args.options,
+        url: buildPath(definition.path, args.params),
+        method: definition.method,
+        params: args.query
+          ? { ...definition.options?.params, ...args.query }
+          : args.options?.params ?? definition.options?.params,
+        data: args.body,
+        encrypt: args.options?.encrypt ?? definition.encrypt,
+        withAuth: args.options?.withAuth ?? definition.auth,
+        schema: args.options?.schema ?? definition.schema,
+      });
+      return response.data;
+    };
+  });
+  return api as ApiClient<M>;
+}
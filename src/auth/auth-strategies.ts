@@ -0,0 +1,163 @@
+import { AuthStrategy } from "../types/auth-strategy";
+import { HttpMethod } from "../types/http";
+
+/**
+ * @type AuthValueSource
+ * @description 고정 값 또는 값을 반환하는 함수 (키 교체 / 지연 로딩용)
+ */
+export type AuthValueSource =
+  | string
+  | (() => string | null | undefined | Promise<string | null | undefined>);
+
+async function resolveAuthValue(
+  source: AuthValueSource
+): Promise<string | null | undefined> {
+  return typeof source === "function" ? source() : source;
+}
+
+/**
+ * @interface BearerTokenStrategyOptions
+ * @description accessToken 헤더 전략 설정
+ * @property {string} [headerName] - 헤더 이름 (기본값: "Authorization")
+ * @property {string} [prefix] - 토큰 앞에 붙일 접두사 (기본값: "Bearer", 빈 문자열이면 토큰만 전송)
+ */
+export interface BearerTokenStrategyOptions {
+  headerName?: string;
+  prefix?: string;
+}
+
+/**
+ * accessToken을 헤더로 전송하는 전략 (STORAGE 모드 기본 전략: `Authorization: Bearer <token>`)
+ */
+export function createBearerTokenStrategy(
+  options: BearerTokenStrategyOptions = {}
+): AuthStrategy {
+  const headerName = options.headerName ?? "Authorization";
+  const prefix = options.prefix ?? "Bearer";
+  return {
+    apply: async (config, context) => {
+      const accessToken = await context.getAccessToken();
+      if (!accessToken) return;
+      config.headers.set(
+        headerName,
+        prefix ? `${prefix} ${accessToken}` : accessToken
+      );
+    },
+  };
+}
+
+/**
+ * @interface ApiKeyStrategyOptions
+ * @description API 키 전략 설정
+ * @property {AuthValueSource} apiKey - API 키
+ * @property {string} [headerName] - 헤더 이름 (기본값: "X-API-Key")
+ * @property {string} [queryParam] - 설정 시 헤더 대신 쿼리 파라미터로 전송
+ */
+export interface ApiKeyStrategyOptions {
+  apiKey: AuthValueSource;
+  headerName?: string;
+  queryParam?: string;
+}
+
+/**
+ * API 키를 헤더(또는 쿼리 파라미터)로 전송하는 전략
+ */
+export function createApiKeyStrategy(
+  options: ApiKeyStrategyOptions
+): AuthStrategy {
+  const headerName = options.headerName ?? "X-API-Key";
+  return {
+    apply: async (config) => {
+      const apiKey = await resolveAuthValue(options.apiKey);
+      if (!apiKey) return;
+      if (options.queryParam) {
+        config.params = {
+          ...(config.params as Record<string, unknown> | undefined),
+          [options.queryParam]: apiKey,
+        };
+        return;
+      }
+      config.headers.set(headerName, apiKey);
+    },
+  };
+}
+
+/**
+ * @interface CsrfTokenStrategyOptions
+ * @description CSRF 토큰 헤더 전략 설정 (쿠키 세션 + CSRF 헤더 하이브리드 방식)
+ * @property {string} [headerName] - 헤더 이름 (기본값: "X-XSRF-TOKEN")
+ * @property {string} [cookieName] - CSRF 토큰을 읽을 쿠키 이름 (기본값: "XSRF-TOKEN")
+ * @property {string} [metaName] - 쿠키에 없을 때 읽을 `<meta name>` (기본값: "csrf-token")
+ * @property {AuthValueSource} [token] - CSRF 토큰 직접 지정 (설정 시 쿠키 / meta 태그 무시)
+ * @property {HttpMethod[]} [methods] - 헤더를 붙일 메서드 (기본값: POST, PUT, PATCH, DELETE)
+ */
+export interface CsrfTokenStrategyOptions {
+  headerName?: string;
+  cookieName?: string;
+  metaName?: string;
+  token?: AuthValueSource;
+  methods?: HttpMethod[];
+}
+
+/**
+ * 쿠키 또는 meta 태그의 CSRF 토큰을 헤더로 전송하는 전략
+ * - WEB_COOKIE 모드와 함께 사용하면 세션은 쿠키로, CSRF 토큰은 헤더로 전송
+ */
+export function createCsrfTokenStrategy(
+  options: CsrfTokenStrategyOptions = {}
+): AuthStrategy {
+  const headerName = options.headerName ?? "X-XSRF-TOKEN";
+  const cookieName = options.cookieName ?? "XSRF-TOKEN";
+  const metaName = options.metaName ?? "csrf-token";
+  const methods = (options.methods ?? ["post", "put", "patch", "delete"]).map(
+    (method) => method.toLowerCase()
+  );
+
+  const readToken = async (): Promise<string | null | undefined> => {
+    if (options.token) return resolveAuthValue(options.token);
+    if (typeof document === "undefined") return null;
+    return (
+      readCookie(document.cookie, cookieName) ??
+      document
+        .querySelector(`meta[name="${metaName}"]`)
+        ?.getAttribute("content")
+    );
+  };
+
+  return {
+    apply: async (config) => {
+      if (!methods.includes((config.method ?? "get").toLowerCase())) return;
+      const token = await readToken();
+      if (token) config.headers.set(headerName, token);
+    },
+  };
+}
+
+/**
+ * 여러 전략을 순서대로 적용 (예: Bearer 토큰 + 요청 서명)
+ */
+export function composeAuthStrategies(
+  ...strategies: AuthStrategy[]
+): AuthStrategy {
+  return {
+    apply: async (config, context) => {
+      for (const strategy of strategies) {
+        await strategy.apply(config, context);
+      }
+    },
+  };
+}
+
+/**
+ * document.cookie 문자열에서 쿠키 값 조회
+ */
+function readCookie(cookie: string, name: string): string | null {
+  for (const part of cookie.split(";")) {
+    const separatorIndex = part.indexOf("=");
+    if (separatorIndex === -1) continue;
+    if (part.slice(0, separatorIndex).trim() === name) {
+      return decodeURIComponent(part.slice(separatorIndex + 1).trim());
+    }
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+import axios, { AxiosRequestConfig } from "axios";
+
+import { ConfigurationError } from "../errors/remote-request-error";
+import { AuthStrategy } from "../types/auth-strategy";
+import { RemoteRequestConfig } from "../types/remote-response";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
+import { getUrlOrigin } from "../utils/auth-rule";
+
+/**
+ * @interface HmacSigningParts
+ * @description 서명 대상 구성 요소
+ * @property {string} method - 대문자 HTTP 메서드
+ * @property {string} path - 쿼리 문자열을 포함한 경로
+ * @property {string} timestamp - 서명 시각(epoch ms 문자열)
+ * @property {string} bodyDigest - 요청 본문 SHA-256 digest (base64, 본문이 없으면 빈 문자열의 digest)
+ */
+export interface HmacSigningParts {
+  method: string;
+  path: string;
+  timestamp: string;
+  bodyDigest: string;
+}
+
+/**
+ * @interface HmacSigningStrategyOptions
+ * @description HMAC 요청 서명 전략 설정
+ * @property {CryptoKey | Uint8Array | string | Function} secret - 서명 키 (문자열은 base64로 해석)
+ * @property {string} [keyId] - 키 식별자 (설정 시 keyIdHeader로 전송)
+ * @property {"SHA-256" | "SHA-384" | "SHA-512"} [hash] - HMAC 해시 알고리즘 (기본값: "SHA-256")
+ * @property {string} [signatureHeader] - 서명 헤더 이름 (기본값: "X-Signature")
+ * @property {string} [timestampHeader] - 서명 시각 헤더 이름 (기본값: "X-Timestamp")
+ * @property {string} [digestHeader] - 본문 digest 헤더 이름 (기본값: "X-Content-SHA256")
+ * @property {string} [keyIdHeader] - 키 식별자 헤더 이름 (기본값: "X-Key-Id")
+ * @property {Function} [buildStringToSign] - 서명 문자열 생성 (기본값: method, path, timestamp, bodyDigest를 줄바꿈으로 연결)
+ * @property {Crypto} [crypto] - Web Crypto 구현 (기본값: globalThis.crypto)
+ */
+export interface HmacSigningStrategyOptions {
+  secret:
+    | CryptoKey
+    | Uint8Array
+    | string
+    | (() =>
+        | CryptoKey
+        | Uint8Array
+        | string
+        | Promise<CryptoKey | Uint8Array | string>);
+  keyId?: string;
+  hash?: "SHA-256" | "SHA-384" | "SHA-512";
+  signatureHeader?: string;
+  timestampHeader?: string;
+  digestHeader?: string;
+  keyIdHeader?: string;
+  buildStringToSign?: (parts: HmacSigningParts) => string;
+  crypto?: Crypto;
+}
+
+/**
+ * 서명할 본문 바이트
+ * - 문자열 / ArrayBuffer / TypedArray는 그대로 사용
+ * - 일반 객체 / 배열은 JSON 문자열로 직렬화하여 config.data를 교체 (전송 바이트와 일치시키기 위함)
+ * - FormData, Blob 등 바이트를 미리 알 수 없는 본문은 서명하지 않고 ConfigurationError
+ */
+function toSignedBody(config: RemoteRequestConfig): Uint8Array {
+  const data: unknown = config.data;
+  if (data === undefined || data === null) return new Uint8Array(0);
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  const prototype = Object.getPrototypeOf(data);
+  if (
+    !Array.isArray(data) &&
+    prototype !== Object.prototype &&
+    prototype !== null
+  ) {
+    throw new ConfigurationError(
+      "HMAC signing does not support this request body type",
+      { url: config.url, method: config.method }
+    );
+  }
+  const body = JSON.stringify(data);
+  config.data = body;
+  if (!config.headers.get("Content-Type")) {
+    config.headers.set("Content-Type", "application/json");
+  }
+  return new TextEncoder().encode(body);
+}
+
+/**
+ * 요청 메서드, 경로, 시각, 본문 digest를 HMAC으로 서명하는 전략
+ * - 객체 본문은 서명한 바이트와 전송 바이트가 같도록 JSON 문자열로 직렬화하여 전송
+ * - 재시도 시 새 시각으로 다시 서명
+ */
+export function createHmacSigningStrategy(
+  options: HmacSigningStrategyOptions
+): AuthStrategy {
+  const hash = options.hash ?? "SHA-256";
+  const signatureHeader = options.signatureHeader ?? "X-Signature";
+  const timestampHeader = options.timestampHeader ?? "X-Timestamp";
+  const digestHeader = options.digestHeader ?? "X-Content-SHA256";
+  const keyIdHeader = options.keyIdHeader ?? "X-Key-Id";
+  const buildStringToSign =
+    options.buildStringToSign ??
+    ((parts: HmacSigningParts) =>
+      [parts.method, parts.path, parts.timestamp, parts.bodyDigest].join("\n"));
+  const textEncoder = new TextEncoder();
+
+  const getCrypto = (): Crypto => {
+    const webCrypto = options.crypto ?? globalThis.crypto;
+    if (!webCrypto?.subtle) {
+      throw new ConfigurationError("Web Crypto API is not available");
+    }
+    return webCrypto;
+  };
+
+  const getKey = async (): Promise<CryptoKey> => {
+    const source = options.secret;
+    const material = typeof source === "function" ? await source() : source;
+    if (typeof material !== "string" && "algorithm" in material) {
+      return material;
+    }
+    const rawKey =
+      typeof material === "string" ? base64ToBytes(material) : material;
+    return getCrypto().subtle.importKey(
+      "raw",
+      rawKey,
+      { name: "HMAC", hash },
+      false,
+      ["sign"]
+    );
+  };
+
+  return {
+    apply: async (config) => {
+      const webCrypto = getCrypto();
+      const bodyDigest = bytesToBase64(
+        new Uint8Array(
+          await webCrypto.subtle.digest("SHA-256", toSignedBody(config))
+        )
+      );
+      const fullUrl = axios.getUri(config as AxiosRequestConfig);
+      const origin = getUrlOrigin(fullUrl);
+      const path = origin ? fullUrl.slice(origin.length) || "/" : fullUrl;
+      const timestamp = String(Date.now());
+
+      const signature = await webCrypto.subtle.sign(
+        "HMAC",
+        await getKey(),
+        textEncoder.encode(
+          buildStringToSign({
+            method: (config.method ?? "get").toUpperCase(),
+            path,
+            timestamp,
+            bodyDigest,
+          })
+        )
+      );
+
+      config.headers.set(timestampHeader, timestamp);
+      config.headers.set(digestHeader, bodyDigest);
+      config.headers.set(
+        signatureHeader,
+        bytesToBase64(new Uint8Array(signature))
+      );
+      if (options.keyId) config.headers.set(keyIdHeader, options.keyId);
+    },
+  };
+}
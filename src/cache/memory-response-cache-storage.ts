@@ -0,0 +1,44 @@
+import { CacheEntry, ResponseCacheStorage } from "../types/cache-config";
+
+/**
+ * @class MemoryResponseCacheStorage
+ * @description 메모리 기반 캐시 저장소 (기본 저장소)
+ * - maxEntries를 넘으면 가장 오래 사용하지 않은 항목부터 제거
+ */
+export class MemoryResponseCacheStorage implements ResponseCacheStorage {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // 최근 사용 항목을 뒤로 이동
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
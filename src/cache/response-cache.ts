@@ -0,0 +1,157 @@
+import { AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+
+import {
+  CacheConfig,
+  CacheEntry,
+  RequestCacheOptions,
+  ResponseCacheStorage,
+} from "../types/cache-config";
+import { MemoryResponseCacheStorage } from "./memory-response-cache-storage";
+
+/**
+ * @type CacheEntryState
+ * @description 캐시 항목 상태
+ *  - fresh: ttl 이내, 네트워크 요청 없이 반환
+ *  - stale: stale-while-revalidate 허용 시간 이내, 반환 후 백그라운드 갱신
+ *  - expired: 재사용 불가 (조건부 요청 검증용으로만 사용)
+ */
+export type CacheEntryState = "fresh" | "stale" | "expired";
+
+/**
+ * @class ResponseCache
+ * @description GET 응답 캐시 (저장소 어댑터 위에서 ttl, stale-while-revalidate, 조건부 요청, 무효화 처리)
+ */
+export class ResponseCache {
+  private readonly storage: ResponseCacheStorage;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  readonly conditionalRequests: boolean;
+
+  constructor(config: CacheConfig) {
+    this.storage = config.storage ?? new MemoryResponseCacheStorage();
+    this.ttl = config.ttl ?? 60000;
+    this.staleWhileRevalidate = config.staleWhileRevalidate ?? 0;
+    this.conditionalRequests = config.conditionalRequests ?? true;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.storage.get(key);
+  }
+
+  getState(entry: CacheEntry, now: number = Date.now()): CacheEntryState {
+    if (now < entry.expiresAt) return "fresh";
+    if (now < entry.staleUntil) return "stale";
+    return "expired";
+  }
+
+  /**
+   * 응답 저장
+   * - 2xx 응답만 저장하며, `Cache-Control: no-store` 응답은 저장하지 않음
+   */
+  async store(
+    key: string,
+    response: AxiosResponse,
+    options: RequestCacheOptions = {}
+  ): Promise<void> {
+    if (response.status < 200 || response.status >= 300) return;
+
+    const headers = AxiosHeaders.from(response.headers as AxiosHeaders).toJSON(
+      true
+    ) as Record<string, string>;
+    if (/no-store/i.test(headers["cache-control"] ?? "")) return;
+
+    const storedAt = Date.now();
+    const expiresAt = storedAt + (options.ttl ?? this.ttl);
+    await this.storage.set(key, {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      etag: headers["etag"],
+      lastModified: headers["last-modified"],
+      storedAt,
+      expiresAt,
+      staleUntil:
+        expiresAt + (options.staleWhileRevalidate ?? this.staleWhileRevalidate),
+    });
+  }
+
+  /**
+   * 304 Not Modified 응답 수신 시 기존 항목의 유효 기간 갱신
+   */
+  async touch(
+    key: string,
+    entry: CacheEntry,
+    options: RequestCacheOptions = {}
+  ): Promise<CacheEntry> {
+    const storedAt = Date.now();
+    const expiresAt = storedAt + (options.ttl ?? this.ttl);
+    const touchedEntry: CacheEntry = {
+      ...entry,
+      storedAt,
+      expiresAt,
+      staleUntil:
+        expiresAt + (options.staleWhileRevalidate ?? this.staleWhileRevalidate),
+    };
+    await this.storage.set(key, touchedEntry);
+    return touchedEntry;
+  }
+
+  /**
+   * 조건부 요청 헤더 (If-None-Match / If-Modified-Since)
+   */
+  getConditionalHeaders(entry: CacheEntry | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (!entry || !this.conditionalRequests) return headers;
+    if (entry.etag) headers["If-None-Match"] = entry.etag;
+    if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * 캐시 항목을 axios 응답 형태로 변환
+   */
+  toResponse<T, D>(
+    entry: CacheEntry,
+    config: InternalAxiosRequestConfig<D>
+  ): AxiosResponse<T, D> {
+    return {
+      data: entry.data as T,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: new AxiosHeaders(entry.headers),
+      config,
+    };
+  }
+
+  async invalidate(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  /**
+   * 키가 접두사로 시작하는 모든 항목 무효화
+   * @param prefix - 키 접두사
+   * @param boundaries - 접두사 바로 뒤에 와야 하는 문자 (미지정 시 제한 없음, 접두사와 같은 키는 항상 포함)
+   */
+  async invalidateByPrefix(
+    prefix: string,
+    boundaries?: string[]
+  ): Promise<void> {
+    const keys = await this.storage.keys();
+    await Promise.all(
+      keys
+        .filter(
+          (key) =>
+            key.startsWith(prefix) &&
+            (!boundaries ||
+              key.length === prefix.length ||
+              boundaries.includes(key.charAt(prefix.length)))
+        )
+        .map((key) => this.storage.delete(key))
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  RefreshCoordinationChannel,
+  RefreshCoordinationMessage,
+} from "../types/refresh-coordination";
+
+/**
+ * BroadcastChannel 기반 탭 간 채널 (같은 origin의 탭 / 워커 간 전달)
+ * @param name - 채널 이름 (기본값: "remote-request-token-refresh")
+ */
+export function createBroadcastRefreshChannel(
+  name: string = "remote-request-token-refresh"
+): RefreshCoordinationChannel {
+  const channel = new BroadcastChannel(name);
+  return {
+    postMessage: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const onMessage = (event: MessageEvent<RefreshCoordinationMessage>) =>
+        listener(event.data);
+      channel.addEventListener("message", onMessage);
+      return () => channel.removeEventListener("message", onMessage);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/**
+ * storage 이벤트 기반 탭 간 채널 (BroadcastChannel을 지원하지 않는 브라우저용)
+ * - 메시지를 저장 후 바로 삭제하며, 다른 탭은 storage 이벤트로 수신
+ * @param key - 메시지 전달에 사용할 storage 키 (기본값: "remote-request-token-refresh")
+ * @param storage - 사용할 Storage (기본값: localStorage)
+ */
+export function createStorageRefreshChannel(
+  key: string = "remote-request-token-refresh",
+  storage: Storage = localStorage
+): RefreshCoordinationChannel {
+  return {
+    postMessage: (message) => {
+      // 같은 내용이 연속으로 저장되어도 이벤트가 발생하도록 nonce 추가
+      storage.setItem(
+        key,
+        JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` })
+      );
+      storage.removeItem(key);
+    },
+    subscribe: (listener) => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) return;
+        try {
+          listener(JSON.parse(event.newValue).message);
+        } catch {
+          // 형식이 다른 값은 무시
+        }
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+}
@@ -0,0 +1,216 @@
+import { TokenRefreshError } from "../errors/remote-request-error";
+import {
+  RefreshCoordinationChannel,
+  RefreshCoordinationConfig,
+  RefreshCoordinationMessage,
+} from "../types/refresh-coordination";
+import { AuthTokens } from "../types/token-trasport-config";
+import { sleep } from "../utils/retry";
+import { createUuid } from "../utils/uuid";
+
+/**
+ * 재발급 시작 선언
+ */
+interface RefreshClaim {
+  tabId: string;
+  refreshId: string;
+  startedAt: number;
+}
+
+/**
+ * 다른 탭의 재발급 결과를 기다리는 대기자
+ */
+interface RefreshWaiter {
+  resolve: (tokens: AuthTokens | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * @class RefreshCoordinator
+ * @description 탭 간 토큰 재발급 조율
+ * - 재발급이 필요하면 시작을 선언하고, 동시에 선언한 탭 중 (startedAt, tabId)가 가장 작은 탭만 재발급
+ * - 나머지 탭은 담당 탭의 성공 / 실패 메시지를 그대로 결과로 사용
+ * - 담당 탭이 닫히는 등으로 결과가 오지 않으면 waitTimeoutMs 후 직접 재발급
+ */
+export class RefreshCoordinator {
+  readonly tabId: string;
+  private readonly channel: RefreshCoordinationChannel;
+  private readonly electionDelayMs: number;
+  private readonly waitTimeoutMs: number;
+  private readonly shareTokens: boolean;
+  private readonly unsubscribe: () => void;
+  /** 진행 중인 다른 탭의 재발급 선언 (refreshId 기준) */
+  private remoteClaims: Map<string, RefreshClaim> = new Map();
+  private waiters: Map<string, RefreshWaiter[]> = new Map();
+
+  /**
+   * @param config - 조율 설정
+   * @param onRemoteSuccess - 다른 탭의 재발급 성공 시 호출 (토큰 저장 동기화용)
+   */
+  constructor(
+    config: RefreshCoordinationConfig,
+    private readonly onRemoteSuccess: (tokens: AuthTokens | null) => void
+  ) {
+    this.tabId = config.tabId ?? createUuid();
+    this.channel = config.channel;
+    this.electionDelayMs = config.electionDelayMs ?? 50;
+    this.waitTimeoutMs = config.waitTimeoutMs ?? 15000;
+    this.shareTokens = config.shareTokens ?? false;
+    this.unsubscribe = this.channel.subscribe((message) =>
+      this.handleMessage(message)
+    );
+  }
+
+  /**
+   * 조율된 재발급 실행
+   * @param reissue - 이 탭이 재발급을 담당할 때 실행할 재발급 함수
+   * @returns 재발급된 토큰 (다른 탭이 담당했고 토큰을 공유하지 않으면 null)
+   */
+  async run(
+    reissue: () => Promise<AuthTokens | null>
+  ): Promise<AuthTokens | null> {
+    const activeClaim = this.findEarliestRemoteClaim();
+    if (activeClaim) {
+      const result = await this.waitForRemoteResult(activeClaim);
+      if (result.settled) return result.tokens;
+    }
+
+    const claim: RefreshClaim = {
+      tabId: this.tabId,
+      refreshId: createUuid(),
+      startedAt: Date.now(),
+    };
+    this.channel.postMessage({ type: "refresh-start", ...claim });
+    await sleep(this.electionDelayMs);
+
+    // 동시에 선언한 다른 탭이 우선이면 그 탭의 결과를 기다림
+    const competingClaim = this.findEarliestRemoteClaim();
+    if (competingClaim && this.compareClaims(competingClaim, claim) < 0) {
+      const result = await this.waitForRemoteResult(competingClaim);
+      if (result.settled) return result.tokens;
+    }
+
+    try {
+      const tokens = await reissue();
+      this.channel.postMessage({
+        type: "refresh-success",
+        tabId: this.tabId,
+        refreshId: claim.refreshId,
+        tokens: this.shareTokens ? tokens : null,
+      });
+      return tokens;
+    } catch (error) {
+      this.channel.postMessage({
+        type: "refresh-failure",
+        tabId: this.tabId,
+        refreshId: claim.refreshId,
+        message: error instanceof Error ? error.message : String(error),
+        reason: error instanceof TokenRefreshError ? error.reason : undefined,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 채널 구독 해제 및 대기 중인 요청 정리
+   */
+  dispose(): void {
+    this.unsubscribe();
+    this.channel.close?.();
+    this.remoteClaims.clear();
+    this.waiters.clear();
+  }
+
+  private handleMessage(message: RefreshCoordinationMessage) {
+    if (!message || message.tabId === this.tabId) return;
+
+    if (message.type === "refresh-start") {
+      this.remoteClaims.set(message.refreshId, {
+        tabId: message.tabId,
+        refreshId: message.refreshId,
+        startedAt: message.startedAt,
+      });
+      return;
+    }
+
+    // 담당 탭의 결과는 동시에 선언했다가 양보한 다른 탭의 선언까지 모두 정리
+    const waiters: RefreshWaiter[] = [];
+    this.waiters.forEach((items) => waiters.push(...items));
+    this.waiters.clear();
+    this.remoteClaims.clear();
+
+    if (message.type === "refresh-success") {
+      this.onRemoteSuccess(message.tokens);
+      waiters.forEach((waiter) => waiter.resolve(message.tokens));
+      return;
+    }
+    const error = new TokenRefreshError(
+      `Token reissue failed in another tab: ${message.message}`,
+      { reason: message.reason }
+    );
+    waiters.forEach((waiter) => waiter.reject(error));
+  }
+
+  /**
+   * 다른 탭의 재발급 결과 대기
+   * @returns settled: false면 시간 초과 (직접 재발급 필요)
+   */
+  private async waitForRemoteResult(
+    claim: RefreshClaim
+  ): Promise<{ settled: boolean; tokens: AuthTokens | null }> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let waiter: RefreshWaiter | undefined;
+    try {
+      return await new Promise((resolve, reject) => {
+        waiter = {
+          resolve: (tokens) => resolve({ settled: true, tokens }),
+          reject,
+        };
+        const waiters = this.waiters.get(claim.refreshId) ?? [];
+        waiters.push(waiter);
+        this.waiters.set(claim.refreshId, waiters);
+
+        const remaining = claim.startedAt + this.waitTimeoutMs - Date.now();
+        timer = setTimeout(() => {
+          // 응답 없는 선언은 이후 재발급에서 무시
+          this.remoteClaims.delete(claim.refreshId);
+          resolve({ settled: false, tokens: null });
+        }, Math.max(0, remaining));
+      });
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+      const waiters = this.waiters.get(claim.refreshId);
+      if (waiters && waiter) {
+        const remainingWaiters = waiters.filter((item) => item !== waiter);
+        if (remainingWaiters.length > 0) {
+          this.waiters.set(claim.refreshId, remainingWaiters);
+        } else {
+          this.waiters.delete(claim.refreshId);
+        }
+      }
+    }
+  }
+
+  /**
+   * 가장 먼저 선언된 다른 탭의 재발급 (만료된 선언은 제외)
+   */
+  private findEarliestRemoteClaim(): RefreshClaim | undefined {
+    const now = Date.now();
+    let earliest: RefreshClaim | undefined;
+    this.remoteClaims.forEach((claim, refreshId) => {
+      if (claim.startedAt + this.waitTimeoutMs <= now) {
+        this.remoteClaims.delete(refreshId);
+        return;
+      }
+      if (!earliest || this.compareClaims(claim, earliest) < 0) {
+        earliest = claim;
+      }
+    });
+    return earliest;
+  }
+
+  private compareClaims(a: RefreshClaim, b: RefreshClaim): number {
+    if (a.startedAt !== b.startedAt) return a.startedAt - b.startedAt;
+    return a.tabId < b.tabId ? -1 : a.tabId > b.tabId ? 1 : 0;
+  }
+}
@@ -0,0 +1,238 @@
+import { AxiosHeaders } from "axios";
+
+import {
+  DecryptionError,
+  EncryptionError,
+} from "../errors/remote-request-error";
+import {
+  RequestInterceptor,
+  ResponseInterceptor,
+} from "../types/request-interceptor";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
+
+/**
+ * @type AesGcmKeyMaterial
+ * @description AES 키 (CryptoKey 또는 raw 키 바이트, base64 문자열)
+ */
+export type AesGcmKeyMaterial = CryptoKey | ArrayBuffer | Uint8Array | string;
+
+/**
+ * @type AesGcmKeySource
+ * @description AES 키 또는 키를 반환하는 함수 (키 교체 / 지연 로딩용)
+ */
+export type AesGcmKeySource =
+  | AesGcmKeyMaterial
+  | (() => AesGcmKeyMaterial | Promise<AesGcmKeyMaterial>);
+
+/**
+ * @interface AesGcmEnvelopeParts
+ * @description 암호문 구성 요소 (모두 base64 문자열)
+ * @property {string} iv - 초기화 벡터
+ * @property {string} payload - 암호문 (인증 태그 제외)
+ * @property {string} tag - 인증 태그
+ */
+export interface AesGcmEnvelopeParts {
+  iv: string;
+  payload: string;
+  tag: string;
+}
+
+/**
+ * @interface AesGcmEnvelope
+ * @description 암호문을 요청/응답 본문 형식으로 변환하는 방법
+ * @property {Function} serialize - 암호문 구성 요소를 요청 본문으로 변환
+ * @property {Function} deserialize - 응답 본문에서 암호문 구성 요소 추출
+ */
+export interface AesGcmEnvelope {
+  serialize(parts: AesGcmEnvelopeParts): unknown;
+  deserialize(body: unknown): AesGcmEnvelopeParts;
+}
+
+/**
+ * @interface AesGcmEncryptionOptions
+ * @description AES-GCM 암호화 프로바이더 설정
+ * @property {AesGcmKeySource} key - AES 키 (128/192/256 bit)
+ * @property {number} [ivLength] - IV 길이(byte) (기본값: 12)
+ * @property {number} [tagLength] - 인증 태그 길이(bit) (기본값: 128)
+ * @property {AesGcmEnvelope} [envelope] - 본문 형식 (기본값: `{ iv, payload, tag }` JSON)
+ * @property {string} [contentType] - 암호화 본문 Content-Type
+ *    (설정 시 요청의 Content-Type / Accept에 지정하고, 응답 Content-Type이 일치할 때만 복호화)
+ * @property {Crypto} [crypto] - Web Crypto 구현 (기본값: globalThis.crypto)
+ */
+export interface AesGcmEncryptionOptions {
+  key: AesGcmKeySource;
+  ivLength?: number;
+  tagLength?: number;
+  envelope?: AesGcmEnvelope;
+  contentType?: string;
+  crypto?: Crypto;
+}
+
+/**
+ * 기본 본문 형식: `{ iv, payload, tag }`
+ */
+export const DEFAULT_AES_GCM_ENVELOPE: AesGcmEnvelope = {
+  serialize: (parts) => ({ ...parts }),
+  deserialize: (body) => {
+    const parsed = (typeof body === "string" ? JSON.parse(body) : body) as
+      | Partial<AesGcmEnvelopeParts>
+      | null
+      | undefined;
+    if (
+      !parsed ||
+      typeof parsed.iv !== "string" ||
+      typeof parsed.payload !== "string" ||
+      typeof parsed.tag !== "string"
+    ) {
+      throw new DecryptionError("Invalid AES-GCM envelope");
+    }
+    return { iv: parsed.iv, payload: parsed.payload, tag: parsed.tag };
+  },
+};
+
+/**
+ * @interface AesGcmEncryption
+ * @description EncryptionConfig의 requestInterceptor / responseInterceptor에 그대로 사용할 수 있는 암복호화 함수
+ */
+export interface AesGcmEncryption {
+  requestInterceptor: RequestInterceptor;
+  responseInterceptor: ResponseInterceptor;
+  encrypt(plainText: string): Promise<AesGcmEnvelopeParts>;
+  decrypt(parts: AesGcmEnvelopeParts): Promise<string>;
+}
+
+/**
+ * Web Crypto API 기반 AES-GCM 암호화 프로바이더 생성
+ * - 요청: JSON 직렬화한 본문을 암호화하여 envelope 형식으로 전송
+ * - 응답: envelope 형식 본문을 복호화하여 JSON 파싱 (JSON이 아니면 문자열 그대로)
+ *
+ * @example
+ * const encryption = createAesGcmEncryption({ key: process.env.AES_KEY });
+ * new RemoteRequest({ ..., encryptionConfig: { rules: [{ match: "/s/" }], ...encryption } });
+ */
+export function createAesGcmEncryption(
+  options: AesGcmEncryptionOptions
+): AesGcmEncryption {
+  const ivLength = options.ivLength ?? 12;
+  const tagLength = options.tagLength ?? 128;
+  const envelope = options.envelope ?? DEFAULT_AES_GCM_ENVELOPE;
+  const textEncoder = new TextEncoder();
+  const textDecoder = new TextDecoder();
+
+  const getCrypto = (): Crypto => {
+    const webCrypto = options.crypto ?? globalThis.crypto;
+    if (!webCrypto?.subtle) {
+      throw new EncryptionError("Web Crypto API is not available");
+    }
+    return webCrypto;
+  };
+
+  // 마지막으로 가져온 키 (키 함수가 다른 키를 반환할 때만 다시 import)
+  let importedKey:
+    | { material: AesGcmKeyMaterial; key: Promise<CryptoKey> }
+    | undefined;
+
+  const getKey = async (): Promise<CryptoKey> => {
+    const source = options.key;
+    const material = typeof source === "function" ? await source() : source;
+    if (typeof material !== "string" && "algorithm" in material) {
+      return material;
+    }
+    if (importedKey?.material === material) return importedKey.key;
+
+    const rawKey =
+      typeof material === "string" ? base64ToBytes(material) : material;
+    const key = getCrypto().subtle.importKey(
+      "raw",
+      rawKey,
+      { name: "AES-GCM" },
+      false,
+      ["encrypt", "decrypt"]
+    );
+    const cached = { material, key };
+    importedKey = cached;
+    // 실패한 import는 캐시하지 않음
+    key.catch(() => {
+      if (importedKey === cached) importedKey = undefined;
+    });
+    return key;
+  };
+
+  const encrypt = async (plainText: string): Promise<AesGcmEnvelopeParts> => {
+    const webCrypto = getCrypto();
+    const iv = webCrypto.getRandomValues(new Uint8Array(ivLength));
+    const encrypted = new Uint8Array(
+      await webCrypto.subtle.encrypt(
+        { name: "AES-GCM", iv, tagLength },
+        await getKey(),
+        textEncoder.encode(plainText)
+      )
+    );
+    // Web Crypto는 암호문 뒤에 인증 태그를 붙여 반환
+    const tagStart = encrypted.length - tagLength / 8;
+    return {
+      iv: bytesToBase64(iv),
+      payload: bytesToBase64(encrypted.subarray(0, tagStart)),
+      tag: bytesToBase64(encrypted.subarray(tagStart)),
+    };
+  };
+
+  const decrypt = async (parts: AesGcmEnvelopeParts): Promise<string> => {
+    const payload = base64ToBytes(parts.payload);
+    const tag = base64ToBytes(parts.tag);
+    const encrypted = new Uint8Array(payload.length + tag.length);
+    encrypted.set(payload);
+    encrypted.set(tag, payload.length);
+
+    const decrypted = await getCrypto().subtle.decrypt(
+      { name: "AES-GCM", iv: base64ToBytes(parts.iv), tagLength },
+      await getKey(),
+      encrypted
+    );
+    return textDecoder.decode(decrypted);
+  };
+
+  const isEncryptedContentType = (value: unknown): boolean =>
+    !options.contentType ||
+    (typeof value === "string" &&
+      value.toLowerCase().includes(options.contentType.toLowerCase()));
+
+  const requestInterceptor: RequestInterceptor = async (config) => {
+    if (options.contentType) {
+      config.headers.set("Content-Type", options.contentType);
+      config.headers.set("Accept", options.contentType);
+    }
+    if (config.data === undefined || config.data === null) return config;
+
+    const plainText =
+      typeof config.data === "string"
+        ? config.data
+        : JSON.stringify(config.data);
+    config.data = envelope.serialize(await encrypt(plainText));
+    return config;
+  };
+
+  const responseInterceptor: ResponseInterceptor = async (response) => {
+    const contentType = AxiosHeaders.from(
+      response.headers as AxiosHeaders
+    ).getContentType();
+    if (
+      response.data === undefined ||
+      response.data === null ||
+      response.data === "" ||
+      !isEncryptedContentType(contentType)
+    ) {
+      return response;
+    }
+
+    const plainText = await decrypt(envelope.deserialize(response.data));
+    try {
+      response.data = JSON.parse(plainText);
+    } catch {
+      response.data = plainText;
+    }
+    return response;
+  };
+
+  return { requestInterceptor, responseInterceptor, encrypt, decrypt };
+}
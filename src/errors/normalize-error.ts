@@ -0,0 +1,62 @@
+import axios, { AxiosError } from "axios";
+
+import {
+  CancelledError,
+  HttpStatusError,
+  NetworkError,
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+  TimeoutError,
+} from "./remote-request-error";
+
+/**
+ * 임의의 에러를 RemoteRequestError로 변환
+ * - 이미 RemoteRequestError면 그대로 반환
+ * - AxiosError는 취소 / 타임아웃 / HTTP 상태 / 네트워크 오류로 분류
+ * - 그 외 에러는 UNKNOWN 코드로 감싸 cause에 원본을 담음
+ * @param error - 변환할 에러
+ */
+export function toRemoteRequestError(error: unknown): RemoteRequestError {
+  if (error instanceof RemoteRequestError) return error;
+
+  if (axios.isCancel(error)) {
+    return new CancelledError("Request was cancelled", { cause: error });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new RemoteRequestError(
+      RemoteRequestErrorCode.UNKNOWN,
+      error instanceof Error ? error.message : String(error),
+      { cause: error }
+    );
+  }
+
+  const axiosError = error as AxiosError;
+  const options = {
+    cause: axiosError,
+    url: axiosError.config?.url,
+    method: axiosError.config?.method,
+  };
+
+  if (
+    axiosError.code === AxiosError.ECONNABORTED ||
+    axiosError.code === AxiosError.ETIMEDOUT
+  ) {
+    return new TimeoutError(axiosError.message, options);
+  }
+
+  if (axiosError.response) {
+    return new HttpStatusError(
+      `Request failed with status code ${axiosError.response.status}`,
+      {
+        status: axiosError.response.status,
+        statusText: axiosError.response.statusText,
+        data: axiosError.response.data,
+        headers: { ...axiosError.response.headers },
+      },
+      options
+    );
+  }
+
+  return new NetworkError(axiosError.message, options);
+}
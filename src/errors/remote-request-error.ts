@@ -0,0 +1,261 @@
+/**
+ * @enum RemoteRequestErrorCode
+ * @description RemoteRequest에서 발생하는 에러의 고정 코드
+ *  - UI 등에서는 메시지 대신 이 코드로 분기해야 합니다.
+ */
+export enum RemoteRequestErrorCode {
+  NETWORK_ERROR = "NETWORK_ERROR",
+  TIMEOUT = "TIMEOUT",
+  HTTP_STATUS = "HTTP_STATUS",
+  TOKEN_REFRESH_FAILED = "TOKEN_REFRESH_FAILED",
+  ENCRYPTION_FAILED = "ENCRYPTION_FAILED",
+  DECRYPTION_FAILED = "DECRYPTION_FAILED",
+  CANCELLED = "CANCELLED",
+  OFFLINE_QUEUED = "OFFLINE_QUEUED",
+  REQUEST_NOT_REPLAYED = "REQUEST_NOT_REPLAYED",
+  VALIDATION_FAILED = "VALIDATION_FAILED",
+  CONFIGURATION_ERROR = "CONFIGURATION_ERROR",
+  REQUEST_CONFIG_MISSING = "REQUEST_CONFIG_MISSING",
+  UNKNOWN = "UNKNOWN",
+}
+
+/**
+ * @interface RemoteRequestErrorOptions
+ * @description 에러 생성 옵션
+ * @property {unknown} [cause] - 원인 에러 (AxiosError, 암호화 인터셉터 에러 등)
+ * @property {string} [url] - 실패한 요청 URL
+ * @property {string} [method] - 실패한 요청 메서드
+ */
+export interface RemoteRequestErrorOptions {
+  cause?: unknown;
+  url?: string;
+  method?: string;
+}
+
+/**
+ * @class RemoteRequestError
+ * @description RemoteRequest에서 발생하는 모든 에러의 기반 클래스
+ */
+export class RemoteRequestError extends Error {
+  readonly code: RemoteRequestErrorCode;
+  readonly cause?: unknown;
+  readonly url?: string;
+  readonly method?: string;
+
+  constructor(
+    code: RemoteRequestErrorCode,
+    message: string,
+    options: RemoteRequestErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "RemoteRequestError";
+    this.code = code;
+    this.cause = options.cause;
+    this.url = options.url;
+    this.method = options.method;
+  }
+}
+
+/**
+ * 응답을 받지 못한 네트워크 오류
+ */
+export class NetworkError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.NETWORK_ERROR, message, options);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * 요청 타임아웃
+ */
+export class TimeoutError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.TIMEOUT, message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * 2xx 외 HTTP 상태 코드 응답
+ * - data에는 파싱된 응답 본문이 담김
+ */
+export class HttpStatusError<T = unknown> extends RemoteRequestError {
+  readonly status: number;
+  readonly statusText: string;
+  readonly data: T;
+  readonly headers: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    response: {
+      status: number;
+      statusText?: string;
+      data: T;
+      headers?: Record<string, unknown>;
+    },
+    options?: RemoteRequestErrorOptions
+  ) {
+    super(RemoteRequestErrorCode.HTTP_STATUS, message, options);
+    this.name = "HttpStatusError";
+    this.status = response.status;
+    this.statusText = response.statusText ?? "";
+    this.data = response.data;
+    this.headers = response.headers ?? {};
+  }
+}
+
+/**
+ * @type TokenRefreshFailureReason
+ * @description 토큰 재발급 실패 사유
+ *  - rejected: 서버가 재발급을 거부 (세션 만료)
+ *  - transient: 네트워크 오류 등 일시적 실패 (재시도 후에도 실패)
+ *  - circuit-open: 연속 실패로 재발급이 일시 차단됨
+ *  - cancelled: 재시도 대기 중 cancelAll / dispose로 중단됨
+ */
+export type TokenRefreshFailureReason =
+  | "rejected"
+  | "transient"
+  | "circuit-open"
+  | "cancelled";
+
+/**
+ * 토큰 재발급 실패 (원인은 cause에 담김)
+ */
+export class TokenRefreshError extends RemoteRequestError {
+  readonly reason: TokenRefreshFailureReason;
+
+  constructor(
+    message: string,
+    options?: RemoteRequestErrorOptions & { reason?: TokenRefreshFailureReason }
+  ) {
+    super(RemoteRequestErrorCode.TOKEN_REFRESH_FAILED, message, options);
+    this.name = "TokenRefreshError";
+    this.reason = options?.reason ?? "rejected";
+  }
+}
+
+/**
+ * 요청 암호화 실패
+ */
+export class EncryptionError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.ENCRYPTION_FAILED, message, options);
+    this.name = "EncryptionError";
+  }
+}
+
+/**
+ * 응답 복호화 실패
+ */
+export class DecryptionError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.DECRYPTION_FAILED, message, options);
+    this.name = "DecryptionError";
+  }
+}
+
+/**
+ * 취소된 요청
+ */
+export class CancelledError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.CANCELLED, message, options);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * 오프라인 상태여서 전송하지 않고 대기열에 저장된 변경 요청
+ * - 온라인 복귀 또는 flush 시 같은 멱등성 키로 재전송됨
+ */
+export class OfflineQueuedError extends RemoteRequestError {
+  readonly mutationId: string;
+  readonly idempotencyKey: string;
+
+  constructor(
+    message: string,
+    mutation: { id: string; idempotencyKey: string },
+    options?: RemoteRequestErrorOptions
+  ) {
+    super(RemoteRequestErrorCode.OFFLINE_QUEUED, message, options);
+    this.name = "OfflineQueuedError";
+    this.mutationId = mutation.id;
+    this.idempotencyKey = mutation.idempotencyKey;
+  }
+}
+
+/**
+ * 토큰 재발급 후 다시 보내지 않은 요청
+ * - 대용량 / 스트림 본문(파일 업로드 등)은 자동으로 재전송하지 않음
+ * - 토큰은 이미 재발급되었으므로 호출자가 필요 시 직접 다시 요청
+ */
+export class RequestNotReplayedError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.REQUEST_NOT_REPLAYED, message, options);
+    this.name = "RequestNotReplayedError";
+  }
+}
+
+/**
+ * @interface ValidationIssue
+ * @description 응답 스키마 검증 실패 항목
+ * @property {string} path - 실패한 값의 경로 (ex. items[0].name, 최상위 값이면 빈 문자열)
+ * @property {string} message - 실패 사유
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * 응답 본문이 스키마와 일치하지 않음
+ * - path / message는 첫 번째 실패 항목 기준, data에는 검증 전 응답 본문이 담김
+ */
+export class ValidationError extends RemoteRequestError {
+  readonly path: string;
+  readonly issues: ValidationIssue[];
+  readonly data: unknown;
+
+  constructor(
+    issues: ValidationIssue[],
+    data: unknown,
+    options?: RemoteRequestErrorOptions
+  ) {
+    const [first] = issues;
+    super(
+      RemoteRequestErrorCode.VALIDATION_FAILED,
+      first
+        ? `Response validation failed at "${first.path}": ${first.message}`
+        : "Response validation failed",
+      options
+    );
+    this.name = "ValidationError";
+    this.path = first?.path ?? "";
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+/**
+ * 잘못된 RemoteRequest 설정
+ */
+export class ConfigurationError extends RemoteRequestError {
+  constructor(message: string, options?: RemoteRequestErrorOptions) {
+    super(RemoteRequestErrorCode.CONFIGURATION_ERROR, message, options);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * RemoteRequestError 타입 가드
+ * @param error - 확인할 값
+ * @param code - 지정 시 해당 코드의 에러인지까지 확인
+ */
+export function isRemoteRequestError(
+  error: unknown,
+  code?: RemoteRequestErrorCode
+): error is RemoteRequestError {
+  if (!(error instanceof RemoteRequestError)) return false;
+  return code === undefined || error.code === code;
+}
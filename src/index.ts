@@ -1,7 +1,214 @@
 // Main entry point for the library
 export { RemoteRequest } from "./remoteRequest";
+export { RemoteRequestBuilder } from "./remoteRequestBuilder";
+export {
+  CancelledError,
+  ConfigurationError,
+  DecryptionError,
+  EncryptionError,
+  HttpStatusError,
+  isRemoteRequestError,
+  NetworkError,
+  OfflineQueuedError,
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+  RequestNotReplayedError,
+  TimeoutError,
+  TokenRefreshError,
+  ValidationError,
+} from "./errors/remote-request-error";
+export type {
+  RemoteRequestErrorOptions,
+  TokenRefreshFailureReason,
+  ValidationIssue,
+} from "./errors/remote-request-error";
+export {
+  createAesGcmEncryption,
+  DEFAULT_AES_GCM_ENVELOPE,
+} from "./encryption/aes-gcm-encryption";
+export type {
+  AesGcmEncryption,
+  AesGcmEncryptionOptions,
+  AesGcmEnvelope,
+  AesGcmEnvelopeParts,
+  AesGcmKeyMaterial,
+  AesGcmKeySource,
+} from "./encryption/aes-gcm-encryption";
+export { MemoryResponseCacheStorage } from "./cache/memory-response-cache-storage";
+export type {
+  CacheConfig,
+  CacheEntry,
+  RequestCacheOptions,
+  ResponseCacheStorage,
+} from "./types/cache-config";
+export { MemoryOfflineQueueStorage } from "./offline/memory-offline-queue-storage";
+export type {
+  OfflineConflictResolution,
+  OfflineFlushResult,
+  OfflineQueueConfig,
+  OfflineQueueStorage,
+  QueuedMutation,
+} from "./types/offline-queue-config";
+export { AxiosTransport } from "./transport/axios-transport";
+export { FetchTransport } from "./transport/fetch-transport";
+export type { FetchTransportOptions } from "./transport/fetch-transport";
+export type {
+  Transport,
+  TransportProgressEvent,
+  TransportRequest,
+  TransportResponse,
+} from "./types/transport";
+export { DEFAULT_CHUNK_SIZE, uploadInChunks } from "./upload/chunked-upload";
+export { createContentRangeUploadProtocol } from "./upload/content-range-upload-protocol";
+export type { ContentRangeUploadProtocolOptions } from "./upload/content-range-upload-protocol";
+export type {
+  ChunkedUploadOptions,
+  ChunkedUploadProgress,
+  ChunkedUploadSession,
+  ChunkUploadChunkContext,
+  ChunkUploadContext,
+  ChunkUploadProtocol,
+  ChunkUploadStartContext,
+} from "./types/chunked-upload";
+export type {
+  DownloadOptions,
+  UploadBody,
+  UploadOptions,
+} from "./types/upload";
+export { MockAdapter, MockRoute } from "./testing/mock-adapter";
+export type {
+  MockAdapterOptions,
+  MockReply,
+  MockRequestRecord,
+  MockResponse,
+  MockUrlMatcher,
+} from "./testing/mock-adapter";
+export {
+  composeAuthStrategies,
+  createApiKeyStrategy,
+  createBearerTokenStrategy,
+  createCsrfTokenStrategy,
+} from "./auth/auth-strategies";
+export type {
+  ApiKeyStrategyOptions,
+  AuthValueSource,
+  BearerTokenStrategyOptions,
+  CsrfTokenStrategyOptions,
+} from "./auth/auth-strategies";
+export { createHmacSigningStrategy } from "./auth/hmac-signing-strategy";
+export type {
+  HmacSigningParts,
+  HmacSigningStrategyOptions,
+} from "./auth/hmac-signing-strategy";
+export type {
+  AuthRule,
+  AuthStrategy,
+  AuthStrategyContext,
+} from "./types/auth-strategy";
+export { RefreshCoordinator } from "./coordination/refresh-coordinator";
+export {
+  createBroadcastRefreshChannel,
+  createStorageRefreshChannel,
+} from "./coordination/refresh-channels";
+export type {
+  RefreshCoordinationChannel,
+  RefreshCoordinationConfig,
+  RefreshCoordinationMessage,
+} from "./types/refresh-coordination";
+export { defineApi, endpoint } from "./api/define-api";
+export type {
+  ApiClient,
+  EndpointArgs,
+  EndpointDefinition,
+  EndpointFunction,
+  EndpointMap,
+  EndpointResponse,
+  EndpointTypes,
+  PathParamNames,
+  PathParams,
+} from "./types/api-definition";
+export { MiddlewarePipeline } from "./middleware/middleware-pipeline";
+export type {
+  Middleware,
+  MiddlewareHandle,
+  MiddlewarePosition,
+} from "./types/middleware";
+export { EventStreamParser } from "./subscription/event-stream-parser";
+export type {
+  ReconnectConfig,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionMessage,
+  SubscriptionOptions,
+  SubscriptionState,
+  SubscriptionTransport,
+} from "./types/subscription";
 export type { RemoteRequestMethod } from "./remoteRequestMehtodType";
-export type { TokenTransportConfig } from "./types/token-trasport-config";
+export type { RequestConfig, RequestOptions } from "./types/request-options";
+export type { RemoteRequestOptions } from "./types/remote-request-options";
+export type {
+  RemoteRequestConfig,
+  RemoteRequestHeaders,
+  RemoteResponse,
+  RemoteResponseError,
+} from "./types/remote-response";
+export type {
+  HttpMethod,
+  RemoteRequestAdapter,
+  RemoteResponseType,
+  RequestHeaders,
+  RequestHeaderValue,
+  RequestProgressEvent,
+} from "./types/http";
+export type { ChildClientOptions } from "./types/child-client-options";
+export type { LogLevel, RemoteRequestLogger } from "./types/logger";
+export type {
+  RemoteRequestHooks,
+  RequestErrorEvent,
+  RequestMeta,
+  RequestStartEvent,
+  ResponseEvent,
+  TokenRefreshFailureEvent,
+  TokenRefreshStartEvent,
+  TokenRefreshSuccessEvent,
+  TokenRefreshTrigger,
+} from "./types/lifecycle-hooks";
+export type { RetryConfig } from "./types/retry-config";
+export type {
+  ResponseSchema,
+  ResponseSchemaRule,
+  SafeParseSchema,
+  SchemaIssue,
+  StandardSchema,
+  StandardSchemaResult,
+} from "./types/response-schema";
+export type { KeyCase, KeyCaseConfig } from "./types/key-case";
+export { convertKeyCase, toCamelCase, toSnakeCase } from "./utils/key-case";
+export { RequestPriority } from "./types/request-priority";
+export { RequestScheduler } from "./scheduler/request-scheduler";
+export { isTransientRefreshError } from "./refresh/refresh-policy";
+export type { SessionState } from "./types/session-state";
+export type {
+  ProactiveRefreshConfig,
+  RefreshPolicyConfig,
+  RefreshTokenHeaderConfig,
+  TokenRefreshConfig,
+  TokenRefreshErrorMappers,
+} from "./types/token-refresh-config";
+export type {
+  BinaryPayloadEncryption,
+  EncryptionConfig,
+  EncryptionDirection,
+  EncryptionRule,
+} from "./types/encryption-config";
+export type {
+  RequestInterceptor,
+  ResponseInterceptor,
+} from "./types/request-interceptor";
+export type {
+  AuthTokens,
+  TokenTransportConfig,
+} from "./types/token-trasport-config";
 export { TokenTransportType } from "./types/token-trasport-config";
 
 // Default export
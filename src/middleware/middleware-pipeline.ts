@@ -0,0 +1,113 @@
+import {
+  Middleware,
+  MiddlewareHandle,
+  MiddlewarePosition,
+} from "../types/middleware";
+import { RemoteRequestConfig, RemoteResponse } from "../types/remote-response";
+
+interface RegisteredMiddleware {
+  middleware: Middleware;
+  sequence: number;
+}
+
+/**
+ * @class MiddlewarePipeline
+ * @description 위치별 미들웨어 목록 관리 및 단계별 실행
+ */
+export class MiddlewarePipeline {
+  private middlewares: RegisteredMiddleware[] = [];
+  private sequence: number = 0;
+
+  /**
+   * 미들웨어 등록
+   * @returns 등록 해제 핸들
+   */
+  use(middleware: Middleware): MiddlewareHandle {
+    const registered = { middleware, sequence: this.sequence++ };
+    this.middlewares.push(registered);
+    return {
+      eject: () => {
+        this.middlewares = this.middlewares.filter(
+          (item) => item !== registered
+        );
+      },
+    };
+  }
+
+  /**
+   * before 단계 실행 (order 오름차순)
+   * - 미들웨어가 반환한 설정은 전달받은 설정과 같은 형식(전송 계층 설정 객체)으로 간주
+   */
+  async runBefore<C extends RemoteRequestConfig>(
+    position: MiddlewarePosition,
+    config: C
+  ): Promise<C> {
+    let current = config;
+    for (const middleware of this.getOrdered(position)) {
+      if (!middleware.before) continue;
+      current = ((await middleware.before(current)) as C | void) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * after 단계 실행 (order 내림차순)
+   * - 미들웨어가 반환한 응답은 전달받은 응답과 같은 형식으로 간주
+   */
+  async runAfter<R extends RemoteResponse>(
+    position: MiddlewarePosition,
+    response: R
+  ): Promise<R> {
+    let current = response;
+    for (const middleware of this.getOrdered(position).reverse()) {
+      if (!middleware.after) continue;
+      current = ((await middleware.after(current)) as R | void) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * error 단계 실행 (order 내림차순)
+   * - 응답을 반환한 미들웨어가 있으면 복구된 것으로 보고 이후 미들웨어의 after 단계 실행
+   * - 끝까지 복구되지 않으면 (대체된) 에러로 reject
+   */
+  async runError<R extends RemoteResponse>(
+    position: MiddlewarePosition,
+    error: unknown,
+    config: RemoteRequestConfig | undefined
+  ): Promise<R> {
+    const middlewares = this.getOrdered(position).reverse();
+    let current = error;
+    for (let index = 0; index < middlewares.length; index++) {
+      const handler = middlewares[index].error;
+      if (!handler) continue;
+      let recovered: R | void;
+      try {
+        recovered = (await handler(current, config)) as R | void;
+      } catch (replacedError) {
+        current = replacedError;
+        continue;
+      }
+      if (!recovered) continue;
+
+      let response = recovered;
+      for (const middleware of middlewares.slice(index + 1)) {
+        if (!middleware.after) continue;
+        response = ((await middleware.after(response)) as R | void) ?? response;
+      }
+      return response;
+    }
+    throw current;
+  }
+
+  private getOrdered(position: MiddlewarePosition): Middleware[] {
+    return this.middlewares
+      .filter(({ middleware }) => (middleware.position ?? "outer") === position)
+      .sort(
+        (a, b) =>
+          (a.middleware.order ?? 0) - (b.middleware.order ?? 0) ||
+          a.sequence - b.sequence
+      )
+      .map(({ middleware }) => middleware);
+  }
+}
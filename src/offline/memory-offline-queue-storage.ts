@@ -0,0 +1,33 @@
+import {
+  OfflineQueueStorage,
+  QueuedMutation,
+} from "../types/offline-queue-config";
+
+/**
+ * @class MemoryOfflineQueueStorage
+ * @description 메모리 기반 오프라인 대기열 저장소 (기본 저장소, 새로고침 시 유실)
+ */
+export class MemoryOfflineQueueStorage implements OfflineQueueStorage {
+  private mutations: QueuedMutation[] = [];
+
+  getAll(): QueuedMutation[] {
+    return this.mutations.slice();
+  }
+
+  add(mutation: QueuedMutation): void {
+    this.mutations.push(mutation);
+  }
+
+  update(mutation: QueuedMutation): void {
+    const index = this.mutations.findIndex((item) => item.id === mutation.id);
+    if (index !== -1) this.mutations[index] = mutation;
+  }
+
+  remove(id: string): void {
+    this.mutations = this.mutations.filter((item) => item.id !== id);
+  }
+
+  clear(): void {
+    this.mutations = [];
+  }
+}
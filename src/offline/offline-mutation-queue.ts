@@ -0,0 +1,213 @@
+import { AxiosResponse, Method } from "axios";
+
+import {
+  HttpStatusError,
+  isRemoteRequestError,
+  RemoteRequestErrorCode,
+} from "../errors/remote-request-error";
+import {
+  OfflineConflictResolution,
+  OfflineFlushResult,
+  OfflineQueueConfig,
+  OfflineQueueStorage,
+  QueuedMutation,
+} from "../types/offline-queue-config";
+import { RequestConfig } from "../types/request-options";
+import { createUuid } from "../utils/uuid";
+import { MemoryOfflineQueueStorage } from "./memory-offline-queue-storage";
+
+/**
+ * 재전송 시도 횟수에 포함하지 않는 일시적 실패 (연결 복구 / 재로그인 후 다시 시도)
+ */
+const TRANSIENT_ERROR_CODES = [
+  RemoteRequestErrorCode.NETWORK_ERROR,
+  RemoteRequestErrorCode.TIMEOUT,
+  RemoteRequestErrorCode.CANCELLED,
+  RemoteRequestErrorCode.TOKEN_REFRESH_FAILED,
+];
+
+/**
+ * 제거하지 않는 4xx 상태 코드 (재로그인 / 잠시 후 재시도로 성공할 수 있음)
+ */
+const RETAINED_CLIENT_ERROR_STATUSES = [401, 408, 429];
+
+/**
+ * @interface OfflineReplayHandlers
+ * @description 대기열 재전송 시 RemoteRequest가 제공하는 처리 함수
+ * @property {Function} beforeReplay - 재전송 시작 전 호출 (토큰 재발급 등)
+ * @property {Function} replay - 항목 하나를 실제로 전송
+ */
+export interface OfflineReplayHandlers {
+  beforeReplay(mutations: QueuedMutation[]): Promise<void>;
+  replay(mutation: QueuedMutation): Promise<AxiosResponse>;
+}
+
+/**
+ * @class OfflineMutationQueue
+ * @description 오프라인 변경 요청 대기열 (저장소 어댑터 위에서 저장, 순차 재전송, 충돌 처리)
+ */
+export class OfflineMutationQueue {
+  private readonly storage: OfflineQueueStorage;
+  private readonly maxAttempts: number;
+  private readonly conflictStatusCodes: number[];
+  private flushPromise: Promise<OfflineFlushResult> | null = null;
+  readonly idempotencyKeyHeader: string;
+
+  constructor(private readonly config: OfflineQueueConfig) {
+    this.storage = config.storage ?? new MemoryOfflineQueueStorage();
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.conflictStatusCodes = config.conflictStatusCodes ?? [409, 412];
+    this.idempotencyKeyHeader =
+      config.idempotencyKeyHeader ?? "Idempotency-Key";
+  }
+
+  isOffline(): boolean {
+    if (this.config.isOffline) return this.config.isOffline();
+    return typeof navigator !== "undefined" && navigator.onLine === false;
+  }
+
+  /**
+   * 저장소에 직렬화할 수 있는 요청 본문인지 확인
+   * - FormData, Blob, ArrayBuffer 등은 저장하지 않음
+   */
+  isQueueable(data: unknown): boolean {
+    if (data === undefined || data === null) return true;
+    if (["string", "number", "boolean"].includes(typeof data)) return true;
+    if (Array.isArray(data)) return true;
+    if (typeof data !== "object") return false;
+    const prototype = Object.getPrototypeOf(data);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  /**
+   * 변경 요청을 대기열에 저장
+   * @param method - HTTP 메서드
+   * @param config - 요청 설정
+   * @param idempotencyKey - 원래 요청에 사용한 멱등성 키 (재전송 시에도 동일하게 사용)
+   */
+  async enqueue<D>(
+    method: Method,
+    config: RequestConfig<D>,
+    idempotencyKey: string
+  ): Promise<QueuedMutation> {
+    const mutation: QueuedMutation = {
+      id: createUuid(),
+      idempotencyKey,
+      method,
+      url: config.url,
+      data: config.data,
+      params: config.params,
+      headers: config.headers,
+      priority: config.priority,
+      encrypt: config.encrypt,
+      withAuth: config.withAuth,
+      timeout: config.timeout,
+      responseType: config.responseType,
+      convertKeys: config.convertKeys,
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    await this.storage.add(mutation);
+    this.config.onQueued?.(mutation);
+    return mutation;
+  }
+
+  async getAll(): Promise<QueuedMutation[]> {
+    return this.storage.getAll();
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  /**
+   * 대기열을 저장 순서대로 재전송 (동시에 여러 번 호출되면 진행 중인 재전송을 공유)
+   * - 오프라인이 되거나 항목을 남겨야 하는 실패가 발생하면 순서 보장을 위해 중단
+   */
+  flush(handlers: OfflineReplayHandlers): Promise<OfflineFlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush(handlers).then(
+        (result) => {
+          this.flushPromise = null;
+          return result;
+        },
+        (error: unknown) => {
+          this.flushPromise = null;
+          throw error;
+        }
+      );
+    }
+    return this.flushPromise;
+  }
+
+  private async runFlush(
+    handlers: OfflineReplayHandlers
+  ): Promise<OfflineFlushResult> {
+    const mutations = await this.storage.getAll();
+    let replayed = 0;
+    let discarded = 0;
+
+    if (mutations.length > 0 && !this.isOffline()) {
+      await handlers.beforeReplay(mutations);
+
+      for (const mutation of mutations) {
+        if (this.isOffline()) break;
+        try {
+          const response = await handlers.replay(mutation);
+          await this.storage.remove(mutation.id);
+          replayed++;
+          this.config.onReplayed?.(mutation, response);
+        } catch (error) {
+          const resolution = await this.resolveReplayError(mutation, error);
+          if (resolution === "keep") break;
+          await this.storage.remove(mutation.id);
+          discarded++;
+          this.config.onDiscarded?.(mutation, error);
+        }
+      }
+    }
+
+    const remaining = (await this.storage.getAll()).length;
+    return { replayed, discarded, remaining };
+  }
+
+  /**
+   * 재전송 실패 항목 처리 방법 결정
+   * - 충돌 상태 코드: onConflict 결과 (기본값: discard)
+   * - 그 외 4xx: 다시 보내도 실패하므로 discard (401 / 408 / 429 제외)
+   * - 응답 검증 실패: 서버는 이미 처리했으므로 discard
+   * - 네트워크 오류 / 토큰 재발급 실패 등 일시적 실패: 시도 횟수에 포함하지 않고 keep
+   * - 그 외(5xx 등): 시도 횟수를 늘리고 maxAttempts 도달 시 discard
+   */
+  private async resolveReplayError(
+    mutation: QueuedMutation,
+    error: unknown
+  ): Promise<OfflineConflictResolution> {
+    if (error instanceof HttpStatusError) {
+      if (this.conflictStatusCodes.includes(error.status)) {
+        return (await this.config.onConflict?.(mutation, error)) ?? "discard";
+      }
+      if (
+        error.status >= 400 &&
+        error.status < 500 &&
+        !RETAINED_CLIENT_ERROR_STATUSES.includes(error.status)
+      ) {
+        return "discard";
+      }
+    }
+    if (isRemoteRequestError(error, RemoteRequestErrorCode.VALIDATION_FAILED)) {
+      return "discard";
+    }
+    if (
+      isRemoteRequestError(error) &&
+      TRANSIENT_ERROR_CODES.includes(error.code)
+    ) {
+      return "keep";
+    }
+
+    const attempts = mutation.attempts + 1;
+    if (attempts >= this.maxAttempts) return "discard";
+    await this.storage.update({ ...mutation, attempts });
+    return "keep";
+  }
+}
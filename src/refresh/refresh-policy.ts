@@ -0,0 +1,143 @@
+import {
+  HttpStatusError,
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+  RemoteRequestErrorOptions,
+  TokenRefreshError,
+} from "../errors/remote-request-error";
+import { RefreshPolicyConfig } from "../types/token-refresh-config";
+import { computeRetryDelay, DEFAULT_RETRY_CONFIG, sleep } from "../utils/retry";
+
+/**
+ * 기본 일시적 실패 판별
+ * - 네트워크 오류, 타임아웃, 408 / 429 / 5xx 응답
+ * - 에러 매핑으로 감싼 경우 cause를 따라가며 확인
+ */
+export function isTransientRefreshError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof HttpStatusError) {
+      return (
+        current.status === 408 ||
+        current.status === 429 ||
+        current.status >= 500
+      );
+    }
+    if (current instanceof RemoteRequestError) {
+      if (
+        current.code === RemoteRequestErrorCode.NETWORK_ERROR ||
+        current.code === RemoteRequestErrorCode.TIMEOUT
+      ) {
+        return true;
+      }
+      if (current.code !== RemoteRequestErrorCode.UNKNOWN) return false;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
+
+/**
+ * @class RefreshPolicy
+ * @description 토큰 재발급 재시도 및 차단(circuit breaker)
+ * - 일시적 실패는 지수 백오프로 재시도
+ * - 연속 실패가 failureThreshold에 도달하거나 인증 거부 시 cooldownMs 동안 재발급 차단
+ */
+export class RefreshPolicy {
+  readonly timeout: number;
+  private readonly maxRetries: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly isTransientError: (error: unknown) => boolean;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private consecutiveFailures: number = 0;
+  private openUntil: number = 0;
+
+  constructor(config: RefreshPolicyConfig = {}) {
+    this.maxRetries = config.maxRetries ?? 2;
+    this.baseDelay = config.baseDelay ?? 500;
+    this.maxDelay = config.maxDelay ?? 5000;
+    this.timeout = config.timeout ?? 10000;
+    this.isTransientError = config.isTransientError ?? isTransientRefreshError;
+    this.failureThreshold = config.failureThreshold ?? 3;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+  }
+
+  /**
+   * 정책에 따라 재발급 실행
+   * - 실패 시 reason이 지정된 TokenRefreshError로 reject
+   * @param reissue - 재발급 함수
+   * @param errorOptions - 실패 에러에 담을 요청 정보
+   * @param onRetry - 재시도 전 호출 (로그용)
+   * @param signal - 재시도 대기 중단용 AbortSignal (중단 시 reason이 cancelled인 TokenRefreshError)
+   */
+  async execute<T>(
+    reissue: () => Promise<T>,
+    errorOptions: RemoteRequestErrorOptions = {},
+    onRetry?: (attempt: number, delay: number, error: unknown) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (this.isOpen()) {
+      throw new TokenRefreshError(
+        "Token reissue is temporarily blocked after repeated failures",
+        { ...errorOptions, reason: "circuit-open" }
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await reissue();
+        this.consecutiveFailures = 0;
+        this.openUntil = 0;
+        return result;
+      } catch (error) {
+        const isTransient =
+          !(error instanceof TokenRefreshError) && this.isTransientError(error);
+        if (isTransient && attempt < this.maxRetries) {
+          const delay = computeRetryDelay(attempt + 1, {
+            ...DEFAULT_RETRY_CONFIG,
+            baseDelay: this.baseDelay,
+            maxDelay: this.maxDelay,
+            respectRetryAfter: false,
+          });
+          onRetry?.(attempt + 1, delay, error);
+          try {
+            await sleep(delay, signal, errorOptions);
+          } catch (cancelled) {
+            // 중단은 재발급 실패가 아니므로 연속 실패 횟수에 포함하지 않음
+            throw new TokenRefreshError("Token reissue was cancelled", {
+              ...errorOptions,
+              cause: cancelled,
+              reason: "cancelled",
+            });
+          }
+          continue;
+        }
+
+        this.consecutiveFailures++;
+        if (!isTransient || this.consecutiveFailures >= this.failureThreshold) {
+          this.openUntil = Date.now() + this.cooldownMs;
+        }
+        if (error instanceof TokenRefreshError) throw error;
+        throw new TokenRefreshError("Failed to reissue token", {
+          ...errorOptions,
+          cause: error,
+          reason: isTransient ? "transient" : "rejected",
+        });
+      }
+    }
+  }
+
+  isOpen(): boolean {
+    return this.openUntil > Date.now();
+  }
+
+  /**
+   * 연속 실패 횟수와 차단 상태 초기화 (재로그인 후 등)
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+  }
+}
@@ -1,26 +1,202 @@
 import axios, {
+  AxiosAdapter,
   AxiosError,
+  AxiosHeaders,
   AxiosInstance,
+  AxiosRequestConfig,
   AxiosResponse,
   InternalAxiosRequestConfig,
+  Method,
 } from "axios";
 
+import { ResponseCache } from "./cache/response-cache";
+import { OfflineMutationQueue } from "./offline/offline-mutation-queue";
+import { createBearerTokenStrategy } from "./auth/auth-strategies";
+import { RefreshCoordinator } from "./coordination/refresh-coordinator";
+import { MiddlewarePipeline } from "./middleware/middleware-pipeline";
+import { RefreshPolicy } from "./refresh/refresh-policy";
+import { RequestScheduler } from "./scheduler/request-scheduler";
+import { EventSubscription } from "./subscription/event-subscription";
+import { toAxiosAdapter } from "./transport/transport-adapter";
+import { uploadInChunks } from "./upload/chunked-upload";
+import { toRemoteRequestError } from "./errors/normalize-error";
+import {
+  CancelledError,
+  ConfigurationError,
+  DecryptionError,
+  EncryptionError,
+  isRemoteRequestError,
+  OfflineQueuedError,
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+  RequestNotReplayedError,
+  TokenRefreshError,
+  ValidationError,
+} from "./errors/remote-request-error";
+import { RemoteRequestBuilder } from "./remoteRequestBuilder";
 import { RemoteRequestMethod } from "./remoteRequestMehtodType";
-import { EncryptionConfig } from "./types/encryption-config";
+import { AuthStrategy } from "./types/auth-strategy";
+import { CacheConfig, CacheEntry } from "./types/cache-config";
+import { ChildClientOptions } from "./types/child-client-options";
+import {
+  ChunkedUploadOptions,
+  ChunkUploadProtocol,
+} from "./types/chunked-upload";
+import {
+  EncryptionConfig,
+  EncryptionDirection,
+} from "./types/encryption-config";
+import {
+  RemoteRequestHooks,
+  RequestMeta,
+  TokenRefreshTrigger,
+} from "./types/lifecycle-hooks";
+import { KeyCaseConfig } from "./types/key-case";
+import { LogLevel, RemoteRequestLogger } from "./types/logger";
+import { Middleware, MiddlewareHandle } from "./types/middleware";
+import {
+  OfflineFlushResult,
+  QueuedMutation,
+} from "./types/offline-queue-config";
+import { RemoteRequestOptions } from "./types/remote-request-options";
+import { RemoteResponse } from "./types/remote-response";
+import { RequestPriority } from "./types/request-priority";
+import { ResponseSchema, ResponseSchemaRule } from "./types/response-schema";
+import { RetryConfig } from "./types/retry-config";
+import { SessionState } from "./types/session-state";
+import { Subscription, SubscriptionOptions } from "./types/subscription";
+import { RequestConfig, RequestOptions } from "./types/request-options";
 import { TokenRefreshConfig } from "./types/token-refresh-config";
+import { DownloadOptions, UploadBody, UploadOptions } from "./types/upload";
 import {
+  AuthTokens,
   TokenTransportConfig,
   TokenTransportType,
 } from "./types/token-trasport-config";
+import { linkAbortSignal } from "./utils/abort";
+import { getUrlOrigin, isAuthOriginAllowed } from "./utils/auth-rule";
+import { BINARY_RESPONSE_TYPES, getBodySize, isBinaryBody } from "./utils/body";
+import { matchEncryptionRules } from "./utils/encryption-rule";
+import { sha256Hex } from "./utils/hash";
+import { convertKeyCase } from "./utils/key-case";
+import { formatSchemaPath, validateWithSchema } from "./utils/response-schema";
+import { stableStringify } from "./utils/stable-stringify";
+import { findUrlRule } from "./utils/url-rule";
+import { createUuid } from "./utils/uuid";
+import { decodeJwtExpiresAt, decodeJwtSubject } from "./utils/jwt";
+import {
+  computeRetryDelay,
+  isRetryableError,
+  resolveRetryConfig,
+  sleep,
+} from "./utils/retry";
 
 interface CustomAxiosRequestConfig extends InternalAxiosRequestConfig {
   _retry?: boolean;
+  /** 토큰 재발급 후 재시도 시 사용할 신규 accessToken */
+  _accessToken?: string;
+  /** 일시적 실패로 재시도한 횟수 */
+  _retryCount?: number;
+  /** 요청별 재시도 정책 */
+  retry?: RetryConfig | false;
+  /** 요청별 암호화 강제/제외 */
+  encrypt?: boolean | EncryptionDirection;
+  /** 요청 본문 암호화 완료 여부 (재시도 시 중복 암호화 방지) */
+  _encrypted?: boolean;
+  /** 라이프사이클 이벤트용 요청 식별자 (재시도 시에도 유지) */
+  _requestId?: string;
+  /** 현재 시도의 요청 시작 시각(epoch ms) */
+  _startedAt?: number;
+  /** 동시 요청 수 제한 시 대기열 우선순위 */
+  priority?: RequestPriority;
+  /** 토큰 재발급 후 자동 재전송 여부 (미설정 시 본문 크기로 판단) */
+  replayable?: boolean;
+  /** 키 표기법 변환 여부 */
+  convertKeys?: boolean;
+  /** 인증 정보 포함 여부 */
+  withAuth?: boolean;
+  /** outer 미들웨어 before 단계 실행 여부 (재시도 / 재발급 후 재요청 시 중복 실행 방지) */
+  _middlewareApplied?: boolean;
+}
+
+/**
+ * 로그 레벨 우선순위 (높을수록 중요)
+ */
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * 라이프사이클 이벤트에서 기본으로 마스킹하는 헤더
+ */
+const DEFAULT_REDACT_HEADERS = [
+  "authorization",
+  "cookie",
+  "x-refresh-token",
+  "x-api-key",
+];
+
+/**
+ * 성공 시 캐시 무효화 대상인 변경 요청 메서드
+ */
+const MUTATION_METHODS = ["post", "put", "patch", "delete"];
+
+/**
+ * 동시 중복 요청 병합 대상인 멱등 메서드
+ */
+const DEDUPE_METHODS = ["get", "head"];
+
+/**
+ * 캐시 무효화 시 URL 접두사 바로 뒤에 올 수 있는 문자 (경로 / 쿼리 / 키 구분자)
+ */
+const URL_KEY_BOUNDARIES = ["/", "?", "#", "|"];
+
+/**
+ * 토큰 재발급 후 자동 재전송할 최대 요청 본문 크기 기본값 (1MiB)
+ */
+const DEFAULT_MAX_REPLAY_BODY_SIZE = 1024 * 1024;
+
+/**
+ * 진행 중인 공유 요청
+ * - subscribers: 결과를 기다리는 호출자 수 (0이 되면 네트워크 요청 취소)
+ */
+interface InFlightRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * 부모 / 자식 클라이언트가 공유하는 인증 세션
+ * - owner: 토큰 재발급을 실행하는 최상위 인스턴스 (재발급 정책 / 탭 간 조율 / 실패 콜백 사용)
+ * - clients: 재발급 결과(대기열 재전송 / 실패 처리)를 전달받는 인스턴스
+ * - refreshPromise: 진행 중인 재발급 (모든 인스턴스가 공유하는 single-flight)
+ */
+interface SharedSession {
+  owner: RemoteRequest;
+  clients: Set<RemoteRequest>;
+  refreshPromise: Promise<AuthTokens | null> | null;
+  state: SessionState;
+  stateListeners: Set<(state: SessionState) => void>;
+}
+
+/**
+ * WeakSet에 담을 수 있는 값인지 확인
+ */
+function isObjectLike(value: unknown): value is object {
+  return (
+    (typeof value === "object" && value !== null) || typeof value === "function"
+  );
 }
 
 export class RemoteRequest implements RemoteRequestMethod {
   private _axiosInstance: AxiosInstance;
   private isUseCookie: boolean;
-  private isRefreshingToken: boolean = false;
+  private session: SharedSession;
 
   /**
    * 토큰 재발급 대기 큐
@@ -34,30 +210,190 @@ export class RemoteRequest implements RemoteRequestMethod {
     originalRequest: CustomAxiosRequestConfig;
   }> = [];
 
+  /**
+   * 진행 중인 요청의 AbortController 목록 (cancelAll, dispose 시 일괄 중단)
+   * - 토큰 재발급 요청은 포함하지 않음
+   */
+  private activeControllers: Set<AbortController> = new Set();
+  private isDisposed: boolean = false;
+
+  /**
+   * GET 응답 캐시 (cache 설정 또는 요청별 cache 옵션 사용 시 생성)
+   */
+  private responseCache: ResponseCache | null = null;
+  private revalidatingCacheKeys: Set<string> = new Set();
+
+  /**
+   * 진행 중인 중복 병합 대상 요청 (요청 키 기준)
+   */
+  private inFlightRequests: Map<string, InFlightRequest> = new Map();
+
+  private readonly tokenTransportConfig: TokenTransportConfig;
+  private readonly logger: RemoteRequestLogger;
+  private readonly logLevel: LogLevel;
+  private readonly hooks: RemoteRequestHooks;
+  private readonly redactHeaders: string[];
+  private requestSequence: number = 0;
+  private readonly tokenConfig: TokenRefreshConfig;
+  private readonly encryptionConfig?: EncryptionConfig;
+  private readonly reissueTokenSuccessCallback?: (
+    accessToken: string,
+    refreshToken: string
+  ) => Promise<void>;
+  private readonly reissueTokenFailureCallback?: () => Promise<void>;
+  private readonly retryConfig?: RetryConfig;
+  private readonly cancelOnReissueFailure: boolean;
+  private readonly cacheConfig: CacheConfig;
+  private readonly defaultParams: Record<string, unknown>;
+  private readonly dedupe: boolean;
+  private readonly scheduler: RequestScheduler | null;
+  /** 동시 요청 슬롯을 점유 중인 요청 (요청별 signal 기준, 응답 / 에러 / 요청 종료 시 반환) */
+  private readonly slotHolders: Set<object> = new Set();
+  private readonly maxReplayBodySize: number;
+  private readonly responseSchemas: ResponseSchemaRule[];
+  private readonly keyCaseConfig: KeyCaseConfig;
+  private readonly refreshCoordinator: RefreshCoordinator | null;
+  private readonly refreshPolicy: RefreshPolicy;
+  private readonly clientOptions: RemoteRequestOptions;
+  private readonly middlewares: MiddlewarePipeline = new MiddlewarePipeline();
+  private readonly subscriptions: Set<Subscription> = new Set();
+  /** outer 미들웨어 after / error 단계를 이미 거친 응답과 에러 (재요청 결과 중복 처리 방지) */
+  private middlewareResults: WeakSet<object> = new WeakSet();
+  private readonly authStrategy: AuthStrategy | null;
+  private readonly authOrigins: string[] | null;
+  private readonly offlineQueue: OfflineMutationQueue | null;
+  /** 대기열 항목별 응답 검증 스키마 (직렬화할 수 없으므로 저장소 대신 메모리에 보관) */
+  private readonly replaySchemas: Map<string, ResponseSchema<unknown> | false> =
+    new Map();
+  private readonly refreshBeforeReplayAfterMs?: number;
+  private removeOnlineListener: (() => void) | null = null;
+  /** 토큰 재발급 재시도 대기 중단용 (cancelAll 시 교체) */
+  private refreshAbortController: AbortController = new AbortController();
+
+  /**
+   * RemoteRequest 빌더 생성
+   * @returns 옵션을 단계적으로 설정할 수 있는 RemoteRequestBuilder
+   */
+  static builder(): RemoteRequestBuilder {
+    return new RemoteRequestBuilder((options) => new RemoteRequest(options));
+  }
+
   /**
    * RemoteRequest 클래스 생성자
    *
-   * @param isUseCookie - 쿠키 사용 여부 (인증 토큰 등 쿠키로 관리할지 여부)
-   * @param tokenConfig - 토큰 갱신 관련 설정 객체
-   * @param encryptionConfig - 암호화 관련 설정 객체 (선택)
+   * @param options - 생성 옵션 객체 (토큰 전송/갱신 설정, 암호화 설정, 콜백, 기본 axios 설정)
    */
   // MARK: - Constructor
+  constructor(options: RemoteRequestOptions);
+  /**
+   * @deprecated 위치 인자 생성자는 다음 major 버전에서 제거됩니다. 옵션 객체를 사용하세요 (`new RemoteRequest({ tokenTransportConfig, tokenConfig, ... })`)
+   */
+  constructor(
+    tokenTransportConfig: TokenTransportConfig,
+    removeConsole: boolean | undefined,
+    tokenConfig: TokenRefreshConfig,
+    encryptionConfig?: EncryptionConfig,
+    reissueTokenSuccessCallback?: (
+      accessToken: string,
+      refreshToken: string
+    ) => Promise<void>,
+    reissueTokenFailureCallback?: () => Promise<void>
+  );
   constructor(
-    private readonly tokenTransportConfig: TokenTransportConfig,
-    private readonly removeConsole: boolean = true,
-    private readonly tokenConfig: TokenRefreshConfig,
-    private readonly encryptionConfig?: EncryptionConfig,
-    private readonly reissueTokenSuccessCallback?: (
+    optionsOrTokenTransportConfig: RemoteRequestOptions | TokenTransportConfig,
+    removeConsole?: boolean,
+    tokenConfig?: TokenRefreshConfig,
+    encryptionConfig?: EncryptionConfig,
+    reissueTokenSuccessCallback?: (
       accessToken: string,
       refreshToken: string
     ) => Promise<void>,
-    private readonly reissueTokenFailureCallback?: () => Promise<void>
+    reissueTokenFailureCallback?: () => Promise<void>
   ) {
-    this.checkTokenRefreshConfigParams(this.tokenConfig);
+    if (!optionsOrTokenTransportConfig) {
+      throw new ConfigurationError("[RemoteRequestImpl] options is required");
+    }
+    const options: RemoteRequestOptions =
+      "tokenTransportType" in optionsOrTokenTransportConfig
+        ? {
+            tokenTransportConfig: optionsOrTokenTransportConfig,
+            removeConsole,
+            tokenConfig: tokenConfig as TokenRefreshConfig,
+            encryptionConfig,
+            reissueTokenSuccessCallback,
+            reissueTokenFailureCallback,
+          }
+        : optionsOrTokenTransportConfig;
+    this.clientOptions = options;
+    this.session = {
+      owner: this,
+      clients: new Set([this]),
+      refreshPromise: null,
+      state: "authenticated",
+      stateListeners: new Set(),
+    };
+    this.tokenTransportConfig = options.tokenTransportConfig;
+    // 로거 미지정 시 console 사용, removeConsole(기본값: true)이면 출력하지 않음
+    this.logger = options.logger ?? console;
+    this.logLevel =
+      options.logLevel ??
+      (options.logger || options.removeConsole === false ? "debug" : "silent");
+    this.hooks = options.hooks ?? {};
+    this.redactHeaders = [
+      ...DEFAULT_REDACT_HEADERS,
+      ...(options.redactHeaders ?? []),
+      ...(options.tokenConfig?.refreshTokenHeader
+        ? [options.tokenConfig.refreshTokenHeader.name]
+        : []),
+    ].map((header) => header.toLowerCase());
+    this.tokenConfig = options.tokenConfig;
+    this.encryptionConfig = options.encryptionConfig;
+    this.reissueTokenSuccessCallback = options.reissueTokenSuccessCallback;
+    this.reissueTokenFailureCallback = options.reissueTokenFailureCallback;
+    this.retryConfig = options.retry;
+    this.cancelOnReissueFailure = options.cancelOnReissueFailure ?? true;
+    this.cacheConfig = options.cache ?? {};
+    this.responseCache = options.cache
+      ? new ResponseCache(options.cache)
+      : null;
+    this.defaultParams = options.params ?? {};
+    this.dedupe = options.dedupe ?? true;
+    this.scheduler = this.createScheduler(options.maxConcurrentRequests);
+    this.maxReplayBodySize =
+      options.maxReplayBodySize ?? DEFAULT_MAX_REPLAY_BODY_SIZE;
+    this.responseSchemas = options.responseSchemas ?? [];
+    this.keyCaseConfig = options.keyCase ?? {};
+    this.refreshPolicy = new RefreshPolicy(options.tokenConfig?.refreshPolicy);
+    this.refreshCoordinator = options.refreshCoordination
+      ? new RefreshCoordinator(options.refreshCoordination, (tokens) =>
+          this.syncRemoteTokens(tokens)
+        )
+      : null;
+    this.offlineQueue = options.offlineQueue
+      ? new OfflineMutationQueue(options.offlineQueue)
+      : null;
+    this.refreshBeforeReplayAfterMs =
+      options.offlineQueue?.refreshBeforeReplayAfterMs;
+
+    if (!this.tokenTransportConfig) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] tokenTransportConfig is required"
+      );
+    }
+    this.checkTokenRefreshConfigParams(this.tokenConfig, options.baseURL);
     if (this.encryptionConfig)
       this.checkEncryptionConfigParams(this.encryptionConfig);
-    if (this.tokenTransportConfig)
-      this.checkTokenTransportConfigParams(this.tokenTransportConfig);
+    this.checkTokenTransportConfigParams(this.tokenTransportConfig);
+    if (!(this.maxReplayBodySize >= 0)) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] maxReplayBodySize must be a non-negative number"
+      );
+    }
+    if (options.transport && options.adapter) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] transport and adapter cannot be used together"
+      );
+    }
 
     // 쿠키 사용 여부 설정
     this.isUseCookie =
@@ -66,131 +402,598 @@ export class RemoteRequest implements RemoteRequestMethod {
         ? true
         : false;
 
+    // 인증 전략 (미설정 시 STORAGE 모드는 Bearer 토큰, WEB_COOKIE 모드는 쿠키만 사용)
+    this.authStrategy =
+      this.tokenTransportConfig.authStrategy ??
+      (this.isUseCookie ? null : createBearerTokenStrategy());
+    this.authOrigins = this.resolveAuthOrigins();
+
     const isExistLogic =
       this.reissueTokenSuccessCallback !== undefined &&
       this.reissueTokenSuccessCallback !== null;
     // 토큰 기반 인증 시 토큰 성공 콜백 추가 여부 확인
     // 콜백을 통해서 저장해야함
     if (!this.isUseCookie && !isExistLogic) {
-      throw new Error(
+      throw new ConfigurationError(
         "[RemoteRequestImpl] reissueTokenSuccessCallback is required In Token Mode"
       );
     }
 
-    // Axios 인스턴스 생성 (쿠키 사용 여부 설정)
+    // Axios 인스턴스 생성 (쿠키 사용 여부 및 기본 설정)
     this._axiosInstance = axios.create({
       withCredentials: this.isUseCookie,
+      baseURL: options.baseURL,
+      headers: options.headers,
+      timeout: options.timeout,
+      params: options.params,
+      // 사용자 어댑터는 axios 어댑터와 같은 형태 (라이브러리 타입으로만 노출)
+      adapter: options.transport
+        ? toAxiosAdapter(options.transport)
+        : (options.adapter as AxiosAdapter | undefined),
     });
 
+    // 라이프사이클 이벤트 (인증 헤더 / 암호화 적용 이후 최종 요청 기준)
+    // axios 요청 인터셉터는 등록 역순으로 실행되므로 가장 먼저 등록
+    this._axiosInstance.interceptors.request.use(
+      (config: CustomAxiosRequestConfig) => {
+        config._requestId = config._requestId ?? String(++this.requestSequence);
+        config._startedAt = Date.now();
+        this.emit("onRequestStart", {
+          ...this.toRequestMeta(config),
+          startedAt: config._startedAt,
+        });
+        return config;
+      }
+    );
+
+    // 인증 정보 적용 (요청 체인의 마지막 단계)
+    // 서명 전략이 암호화 / inner 미들웨어까지 반영된 실제 전송 본문과 헤더 기준으로 서명하도록 가장 늦게 실행
+    this._axiosInstance.interceptors.request.use(
+      async (config: CustomAxiosRequestConfig) => {
+        await this.applyAuthStrategy(config);
+        return config;
+      }
+    );
+
+    // inner 미들웨어 before 단계 (암호화 적용 이후 / 인증 적용 이전, 요청 시도마다 실행)
+    // 토큰 재발급 요청은 미들웨어를 거치지 않음
+    this._axiosInstance.interceptors.request.use(async (config) =>
+      this.isTokenReissueRequest(config.url)
+        ? config
+        : this.middlewares.runBefore("inner", config)
+    );
+
     /**
      * 요청 인터셉터
-     * - POST, PUT 요청이면서 암호화 URL이 포함된 경우 암호화 인터셉터 실행
+     * - 키 표기법 변환
+     * - 암호화 규칙(또는 요청별 encrypt 옵션)에 해당하는 경우 암호화 인터셉터 실행
      * - 그 외에는 원본 config 반환
      */
     // MARK: - Request Interceptor
     this._axiosInstance.interceptors.request.use(async (config) => {
-      // 일반 토큰을 사용하는 경우(쿠키 사용이 아닌 경우) 암호화 경로(/s/)와 관계없이 토큰을 무조건 넣어줌
-      if (!this.isUseCookie) {
-        const token = await this.tokenTransportConfig.fetchAuthTokenMethod?.();
-        if (token && token.accessToken !== "") {
-          config.headers.Authorization = `Bearer ${token.accessToken}`;
-        }
-      }
-
+      let customConfig = config as CustomAxiosRequestConfig;
+      // 키 표기법 변환 (암호화 이전, 재시도 시에는 이미 직렬화된 본문이므로 변환되지 않음)
+      this.convertRequestKeys(customConfig);
       if (
-        (config.method === "post" || config.method === "put") &&
         this.encryptionConfig &&
-        this.checkUserIsIncludeEncryptUrl(config.url)
+        !customConfig._encrypted &&
+        this.checkUserIsIncludeEncryptUrl(customConfig, "request") &&
+        this.shouldEncryptPayload(customConfig, "request")
       ) {
         try {
-          return this.encryptionConfig.requestInterceptor(config);
+          // 인터셉터는 전달받은 설정 객체를 변경해 반환 (같은 axios 설정 객체로 간주)
+          customConfig = (await this.encryptionConfig.requestInterceptor(
+            config
+          )) as CustomAxiosRequestConfig;
+          customConfig._encrypted = true;
         } catch (error) {
           this._error(error);
-          return Promise.reject(error);
+          return Promise.reject(
+            new EncryptionError("Failed to encrypt request", {
+              cause: error,
+              url: config.url,
+              method: config.method,
+            })
+          );
         }
       }
-      // 암호화 필요 없는 경우 원본 config 반환
-      return config;
+
+      return customConfig;
     });
 
+    // outer 미들웨어 before 단계 (내장 요청 단계 이전, 요청별 한 번 실행)
+    this._axiosInstance.interceptors.request.use(
+      async (config: CustomAxiosRequestConfig) => {
+        if (
+          config._middlewareApplied ||
+          this.isTokenReissueRequest(config.url)
+        ) {
+          return config;
+        }
+        const result: CustomAxiosRequestConfig =
+          await this.middlewares.runBefore("outer", config);
+        result._middlewareApplied = true;
+        return result;
+      }
+    );
+
+    // 동시 요청 수 제한 (인증 헤더 설정 전에 슬롯 확보)
+    // 토큰 재발급 요청은 대기 중인 요청에 막히지 않도록 제한에서 제외
+    this._axiosInstance.interceptors.request.use(
+      async (config: CustomAxiosRequestConfig) => {
+        const slotKey = this.getSlotKey(config);
+        if (
+          this.scheduler &&
+          !this.slotHolders.has(slotKey) &&
+          !this.isTokenReissueRequest(config.url)
+        ) {
+          await this.scheduler.acquire(
+            config.priority,
+            config.signal as AbortSignal | undefined
+          );
+          this.slotHolders.add(slotKey);
+        }
+        return config;
+      }
+    );
+
+    // 선제 토큰 재발급 (설정 시)
+    // 슬롯을 점유한 채 재발급 / 재발급 후 재요청을 기다리지 않도록 슬롯 확보 이전에 실행
+    this._axiosInstance.interceptors.request.use(
+      async (config: CustomAxiosRequestConfig) => {
+        await this.refreshTokenIfExpiringSoon(config);
+        return config;
+      }
+    );
+
+    // 응답 / 에러 수신 즉시 슬롯 반환 (재시도 / 재발급 후 재요청은 슬롯을 다시 확보)
+    // axios 응답 인터셉터는 등록 순서대로 실행되므로 가장 먼저 등록
+    this._axiosInstance.interceptors.response.use(
+      (response: AxiosResponse<unknown>) => {
+        this.releaseSlot(this.getSlotKey(response.config));
+        return response;
+      },
+      (error: unknown) => {
+        if (axios.isAxiosError(error) && error.config) {
+          this.releaseSlot(this.getSlotKey(error.config));
+        }
+        return Promise.reject(error);
+      }
+    );
+
+    // inner 미들웨어 after / error 단계 (복호화 / 토큰 재발급 / 재시도 이전)
+    // 토큰 재발급 응답은 미들웨어를 거치지 않음
+    this._axiosInstance.interceptors.response.use(
+      (response: AxiosResponse) =>
+        this.isTokenReissueRequest(response.config.url)
+          ? response
+          : this.middlewares.runAfter("inner", response),
+      (error: unknown) =>
+        axios.isAxiosError(error) &&
+        this.isTokenReissueRequest(error.config?.url)
+          ? Promise.reject(error)
+          : this.middlewares.runError(
+              "inner",
+              error,
+              axios.isAxiosError(error) ? error.config : undefined
+            )
+    );
+
     /**
      * 응답 인터셉터
-     * - GET 요청이면서 암호화 URL이 포함된 경우 복호화 인터셉터 실행
+     * - 암호화 규칙(또는 요청별 encrypt 옵션)에 해당하는 경우 복호화 인터셉터 실행
      * - 그 외에는 원본 response 반환
-     * - 에러 발생 시 토큰 재발급 핸들러로 위임
+     * - 에러 발생 시 재시도 정책 / 토큰 재발급 핸들러로 위임
      */
     // MARK: - Response Interceptor
     this._axiosInstance.interceptors.response.use(
       async (response: AxiosResponse<unknown>) => {
+        const config = response.config as CustomAxiosRequestConfig;
+        this.emit("onResponse", {
+          ...this.toRequestMeta(config),
+          status: response.status,
+          durationMs: Date.now() - (config._startedAt ?? Date.now()),
+        });
+
+        // 304 Not Modified는 본문이 없으므로 복호화하지 않음
         if (
           this.encryptionConfig &&
-          this.checkUserIsIncludeEncryptUrl(response.config.url)
+          response.status !== 304 &&
+          this.checkUserIsIncludeEncryptUrl(config, "response") &&
+          this.shouldEncryptPayload(config, "response")
         ) {
           try {
-            return this.encryptionConfig.responseInterceptor(response);
+            return this.convertResponseKeys(
+              (await this.encryptionConfig.responseInterceptor(
+                response
+              )) as AxiosResponse<unknown>
+            );
           } catch (error) {
             this._error(error);
-            return Promise.reject(error);
+            return Promise.reject(
+              new DecryptionError("Failed to decrypt response", {
+                cause: error,
+                url: response.config.url,
+                method: response.config.method,
+              })
+            );
           }
         }
-        return response;
+        return this.convertResponseKeys(response);
       },
 
       async (error: AxiosError) => {
-        return this.handleTokenRefresh(error);
+        return this.handleResponseError(error);
+      }
+    );
+
+    // outer 미들웨어 after / error 단계 (최종 결과 기준)
+    // 재발급 후 재요청 결과는 재요청 체인에서 이미 처리되었으므로 다시 실행하지 않음
+    // 토큰 재발급 응답은 미들웨어를 거치지 않음
+    this._axiosInstance.interceptors.response.use(
+      async (response: AxiosResponse) => {
+        if (
+          this.middlewareResults.has(response) ||
+          this.isTokenReissueRequest(response.config.url)
+        ) {
+          return response;
+        }
+        const result = await this.middlewares.runAfter("outer", response);
+        this.middlewareResults.add(result);
+        return result;
+      },
+      async (error: unknown) => {
+        if (
+          (isObjectLike(error) && this.middlewareResults.has(error)) ||
+          (axios.isAxiosError(error) &&
+            this.isTokenReissueRequest(error.config?.url))
+        ) {
+          throw error;
+        }
+        try {
+          const result = await this.middlewares.runError(
+            "outer",
+            error,
+            axios.isAxiosError(error) ? error.config : undefined
+          );
+          this.middlewareResults.add(result);
+          return result;
+        } catch (finalError) {
+          if (isObjectLike(finalError)) this.middlewareResults.add(finalError);
+          throw finalError;
+        }
       }
     );
+
+    // 오프라인 대기열 자동 재전송 (저장소에 남은 요청 + 온라인 복귀 시)
+    if (this.offlineQueue && options.offlineQueue?.autoFlush !== false) {
+      this.listenOnlineEvent();
+      this.flushInBackground();
+    }
+  }
+
+  /**
+   * 동시 요청 수 제한 스케줄러 생성 (미설정 시 제한 없음)
+   */
+  private createScheduler(
+    maxConcurrentRequests: number | undefined
+  ): RequestScheduler | null {
+    if (maxConcurrentRequests === undefined) return null;
+    if (!Number.isInteger(maxConcurrentRequests) || maxConcurrentRequests < 1) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] maxConcurrentRequests must be a positive integer"
+      );
+    }
+    return new RequestScheduler(maxConcurrentRequests);
+  }
+
+  /**
+   * 동시 요청 슬롯 점유 기준 (sendRequest가 요청마다 만든 signal, 없으면 요청 설정)
+   * - 재시도 / 재발급 후 재요청도 같은 signal을 사용하므로 요청 단위로 한 슬롯만 점유
+   */
+  private getSlotKey(config: InternalAxiosRequestConfig): object {
+    return (config.signal as AbortSignal | undefined) ?? config;
+  }
+
+  /**
+   * 요청이 점유한 동시 요청 슬롯 반환 (점유하지 않았으면 무시)
+   */
+  private releaseSlot(slotKey: object) {
+    if (!this.scheduler || !this.slotHolders.delete(slotKey)) return;
+    this.scheduler.release();
   }
 
   /**
-   * 내부 로깅 함수 (removeConsole 값에 따라 콘솔 출력 제어)
+   * 내부 로깅 함수 (logLevel 값에 따라 로거 출력 제어)
    */
   private _log(...args: unknown[]) {
-    if (!this.removeConsole) {
-      // eslint-disable-next-line no-console
-      console.log(...args);
+    if (this.isLogLevelEnabled("debug")) {
+      this.logger.debug(...args);
     }
   }
   private _error(...args: unknown[]) {
-    if (!this.removeConsole) {
-      // eslint-disable-next-line no-console
-      console.error(...args);
+    if (this.isLogLevelEnabled("error")) {
+      this.logger.error(...args);
     }
   }
   private _warn(...args: unknown[]) {
-    if (!this.removeConsole) {
-      // eslint-disable-next-line no-console
-      console.warn(...args);
+    if (this.isLogLevelEnabled("warn")) {
+      this.logger.warn(...args);
     }
   }
+  private isLogLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.logLevel];
+  }
 
-  // MARK: - 암호화 URL 포함 여부 확인
+  // MARK: - 라이프사이클 이벤트
   /**
-   * 암호화가 필요한 URL인지 확인
-   * @param url - 요청 URL
+   * 라이프사이클 훅 호출
+   * - 훅에서 발생한 에러는 로그만 남기고 무시
+   */
+  private emit<K extends keyof RemoteRequestHooks>(
+    name: K,
+    event: Parameters<NonNullable<RemoteRequestHooks[K]>>[0]
+  ) {
+    const hook = this.hooks[name] as
+      | ((event: Parameters<NonNullable<RemoteRequestHooks[K]>>[0]) => void)
+      | undefined;
+    if (!hook) return;
+    try {
+      hook(event);
+    } catch (error) {
+      this._error(`[RemoteRequestImpl] emit :: ${name} 훅 실행 실패`, error);
+    }
+  }
+
+  /**
+   * 이벤트용 요청 정보 생성 (민감 헤더 마스킹)
+   * @param config - 요청 설정
+   */
+  private toRequestMeta(config: CustomAxiosRequestConfig): RequestMeta {
+    const headers: Record<string, string> = {};
+    const rawHeaders = AxiosHeaders.from(config.headers ?? {}).toJSON();
+    Object.keys(rawHeaders).forEach((name) => {
+      headers[name] = this.redactHeaders.includes(name.toLowerCase())
+        ? "[REDACTED]"
+        : String(rawHeaders[name]);
+    });
+
+    return {
+      requestId: config._requestId ?? "",
+      method: (config.method ?? "get").toUpperCase(),
+      url: config.url ?? "",
+      headers,
+      attempt: config._retryCount ?? 0,
+    };
+  }
+
+  // MARK: - 인증 전략
+  /**
+   * 요청에 인증 전략 적용
+   * - authRules 중 처음 일치하는 규칙의 전략 사용 (false면 인증 정보 미포함)
+   * - 일치하는 규칙이 없으면 허용 origin 요청에만 기본 전략 적용
+   * - 요청별 withAuth 옵션이 false면 적용하지 않음
+   */
+  private async applyAuthStrategy(config: CustomAxiosRequestConfig) {
+    if (config.withAuth === false) return;
+    const fullUrl = axios.getUri(config);
+    const rule = findUrlRule(
+      this.tokenTransportConfig.authRules ?? [],
+      fullUrl,
+      config.method ?? "get"
+    );
+    const strategy = rule
+      ? rule.strategy || null
+      : isAuthOriginAllowed(fullUrl, this.authOrigins)
+      ? this.authStrategy
+      : null;
+    if (!strategy) return;
+
+    await strategy.apply(config, {
+      // 재발급 후 재시도하는 요청은 재발급 응답의 신규 토큰을 우선 사용
+      getAccessToken: async () =>
+        config._accessToken ??
+        (
+          await this.tokenTransportConfig.fetchAuthTokenMethod?.()
+        )?.accessToken,
+    });
+  }
+
+  /**
+   * 인증 정보를 보낼 origin 목록
+   * - authOrigins 설정값 사용 ("*"면 제한 없음)
+   * - 미설정 시 제한 없음 (기존 동작 유지, 기본 전략이 있으면 외부 호스트로 토큰이 전송될 수 있으므로 경고)
+   */
+  private resolveAuthOrigins(): string[] | null {
+    const configured = this.tokenTransportConfig.authOrigins;
+    if (configured) {
+      return configured.map((origin) =>
+        origin === "*" ? origin : getUrlOrigin(origin) ?? origin.toLowerCase()
+      );
+    }
+    if (this.authStrategy) {
+      this._warn(
+        '[RemoteRequestImpl] resolveAuthOrigins :: tokenTransportConfig.authOrigins 미설정으로 모든 origin 요청에 인증 정보를 적용합니다. 외부 호스트로 토큰이 전송되지 않도록 authOrigins를 설정하세요. (모든 origin 허용을 유지하려면 ["*"])'
+      );
+    }
+    return null;
+  }
+
+  // MARK: - 에러 변환
+  /**
+   * 외부로 전달할 에러 변환
+   * - 모든 에러를 RemoteRequestError 계층으로 변환
+   * - tokenConfig.errorMappers.mapError가 값을 반환하면 해당 값으로 대체
+   * - 호출자에게 전달하는 시점에만 적용 (내부 에러 분류는 변환 전 에러 기준)
+   * @param error - 원본 에러
+   */
+  private mapError(error: unknown): unknown {
+    const remoteRequestError = toRemoteRequestError(error);
+    const mappedError =
+      this.tokenConfig.errorMappers.mapError?.(remoteRequestError);
+    return mappedError ?? remoteRequestError;
+  }
+
+  // MARK: - 키 표기법 변환
+  /**
+   * 요청 본문 / 쿼리 파라미터 키 표기법 변환 (keyCase.request 설정 시)
+   */
+  private convertRequestKeys(config: CustomAxiosRequestConfig) {
+    const keyCase = this.keyCaseConfig.request;
+    if (!keyCase || config.convertKeys === false) return;
+    config.data = convertKeyCase(config.data, keyCase);
+    if (this.keyCaseConfig.params !== false) {
+      config.params = convertKeyCase(config.params, keyCase);
+    }
+  }
+
+  /**
+   * 응답 본문 키 표기법 변환 (keyCase.response 설정 시)
+   */
+  private convertResponseKeys(response: AxiosResponse): AxiosResponse {
+    const keyCase = this.keyCaseConfig.response;
+    const config = response.config as CustomAxiosRequestConfig;
+    if (!keyCase || config.convertKeys === false) return response;
+    return { ...response, data: convertKeyCase(response.data, keyCase) };
+  }
+
+  // MARK: - 암호화 대상 여부 확인
+  /**
+   * 암호화가 필요한 요청인지 확인
+   * - 요청별 encrypt 옵션이 있으면 우선 적용
+   * - 없으면 encryptionConfig의 rules / encryptUrlStr 규칙으로 판단
+   * @param config - 요청 설정
+   * @param direction - 확인할 방향 (request: 요청 암호화, response: 응답 복호화)
    * @returns 암호화 대상 여부
    */
   private checkUserIsIncludeEncryptUrl(
-    url: string | null | undefined
+    config: CustomAxiosRequestConfig,
+    direction: "request" | "response"
   ): boolean {
-    if (!url) {
+    if (config.encrypt !== undefined) {
+      return (
+        config.encrypt === true ||
+        config.encrypt === "both" ||
+        config.encrypt === direction
+      );
+    }
+    if (!config.url || !this.encryptionConfig) {
       this._error(
         "[RemoteRequestImpl] checkUserIsIncludeEncryptUrl :: url 확인 필요 | ",
-        url
+        config.url
       );
       return false;
     }
-    const isIncludeEncryptUrl = url.includes(
-      this.encryptionConfig?.encryptUrlStr ?? ""
+    const isIncludeEncryptUrl = matchEncryptionRules(
+      this.encryptionConfig,
+      config.url,
+      config.method ?? "get",
+      direction
     );
     this._log(
-      `[RemoteRequestImpl] checkUserIsIncludeEncryptUrl :: url 확인 완료 | url: ${url} | ${
-        isIncludeEncryptUrl ? "암호화 문자열 포함" : "암호화 문자열 미포함"
+      `[RemoteRequestImpl] checkUserIsIncludeEncryptUrl :: url 확인 완료 | url: ${
+        config.url
+      } | direction: ${direction} | ${
+        isIncludeEncryptUrl ? "암호화 대상" : "암호화 대상 아님"
       }`
     );
     return isIncludeEncryptUrl;
   }
 
+  /**
+   * 암호화 대상인 요청 / 응답 본문을 실제로 암호화 / 복호화할지 확인
+   * - 바이너리 본문(FormData, Blob, ArrayBuffer, 스트림 / blob, arraybuffer, stream 응답)은
+   *   encryptionConfig.binaryPayload 설정(기본값: skip)에 따라 처리
+   * @param config - 요청 설정
+   * @param direction - 확인할 방향 (request: 요청 암호화, response: 응답 복호화)
+   * @returns 암호화 / 복호화 인터셉터 실행 여부
+   */
+  private shouldEncryptPayload(
+    config: CustomAxiosRequestConfig,
+    direction: "request" | "response"
+  ): boolean {
+    const isBinary =
+      direction === "request"
+        ? isBinaryBody(config.data)
+        : BINARY_RESPONSE_TYPES.includes(config.responseType ?? "json");
+    if (!isBinary) return true;
+
+    const policy = this.encryptionConfig?.binaryPayload ?? "skip";
+    if (policy === "error") {
+      const errorOptions = { url: config.url, method: config.method };
+      throw direction === "request"
+        ? new EncryptionError(
+            "Binary request body cannot be encrypted",
+            errorOptions
+          )
+        : new DecryptionError(
+            "Binary response body cannot be decrypted",
+            errorOptions
+          );
+    }
+    this._log(
+      `[RemoteRequestImpl] shouldEncryptPayload :: 바이너리 본문 | url: ${config.url} | direction: ${direction} | policy: ${policy}`
+    );
+    return policy === "encrypt";
+  }
+
+  /**
+   * 응답 에러 처리
+   * - 토큰 만료 에러는 재시도 정책을 거치지 않고 토큰 재발급 핸들러로 위임
+   * - 재시도 정책에 해당하는 일시적 실패는 백오프 후 재시도
+   *   (재시도 횟수는 _retryCount, 토큰 재발급 여부는 _retry로 따로 관리하여 무한 반복 방지)
+   */
+  // MARK: - Response Error Handler
+  private async handleResponseError(error: AxiosError): Promise<AxiosResponse> {
+    // 암호화 실패 등 요청 인터셉터에서 발생한 에러는 그대로 전달
+    if (!axios.isAxiosError(error)) {
+      return Promise.reject(error);
+    }
+
+    const originalRequest = error.config as CustomAxiosRequestConfig;
+
+    if (originalRequest) {
+      this.emit("onError", {
+        ...this.toRequestMeta(originalRequest),
+        error,
+        status: error.response?.status,
+        durationMs: Date.now() - (originalRequest._startedAt ?? Date.now()),
+      });
+    }
+
+    if (originalRequest && !this.tokenConfig.checkTokenExpiredError(error)) {
+      const retryConfig = resolveRetryConfig(
+        this.retryConfig,
+        originalRequest.retry
+      );
+      const attempt = (originalRequest._retryCount ?? 0) + 1;
+
+      if (
+        retryConfig &&
+        attempt <= retryConfig.maxRetries &&
+        isRetryableError(error, retryConfig)
+      ) {
+        originalRequest._retryCount = attempt;
+        const delay = computeRetryDelay(attempt, retryConfig, error);
+        this._warn(
+          `[RemoteRequestImpl] handleResponseError :: 일시적 실패 재시도 | url: ${
+            originalRequest.url
+          } | status: ${error.response?.status} | attempt: ${attempt}/${
+            retryConfig.maxRetries
+          } | delay: ${Math.round(delay)}ms`
+        );
+        // 대기 중 취소(cancelAll / 호출자 abort)되면 백오프를 기다리지 않고 바로 실패
+        await sleep(delay, originalRequest.signal as AbortSignal | undefined, {
+          url: originalRequest.url,
+          method: originalRequest.method,
+        });
+        return this._axiosInstance(originalRequest);
+      }
+    }
+
+    return this.handleTokenRefresh(error);
+  }
+
   /**
    * 토큰 재발급 처리 (업데이트 버전)
    * - 토큰 만료 에러 감지 시 토큰 재발급 로직 실행
@@ -206,7 +1009,8 @@ export class RemoteRequest implements RemoteRequestMethod {
     if (!originalRequest) {
       return Promise.reject(
         this.tokenConfig.errorMappers.urlRequestIsEmpty ??
-          new Error(
+          new RemoteRequestError(
+            RemoteRequestErrorCode.REQUEST_CONFIG_MISSING,
             "[RemoteRequestImpl] handleTokenRefresh :: 요청 정보가 없습니다. 관리자에게 문의해주세요."
           )
       );
@@ -225,132 +1029,432 @@ export class RemoteRequest implements RemoteRequestMethod {
     this._log(`this.isRefreshingToken: ${this.isRefreshingToken}`);
     this._log(`originalRequest._retry: ${originalRequest._retry}`);
 
-    // 토큰 만료 에러이고 아직 재시도하지 않은 요청인 경우
-    if (isTokenExpiredError && !originalRequest._retry) {
+    // 토큰 재발급 요청 자체가 만료 에러를 받은 경우 재발급을 반복하지 않음
+    if (this.isTokenReissueRequest(originalRequest.url)) {
+      return Promise.reject(error);
+    }
+
+    // 토큰 만료 에러이고 아직 재시도하지 않은 요청인 경우 (인증 정보를 보내지 않은 요청 제외)
+    if (
+      isTokenExpiredError &&
+      !originalRequest._retry &&
+      originalRequest.withAuth !== false
+    ) {
       originalRequest._retry = true;
 
-      // 이미 토큰 재발급 중이면 큐에 추가 후 대기, 단) 토큰 재발급은 제외
-      if (
-        this.isRefreshingToken &&
-        !originalRequest.url?.includes(this.tokenConfig.tokenReissueUrl)
-      ) {
+      // 이미 토큰 재발급 중이면 큐에 추가 후 대기
+      if (this.isRefreshingToken) {
         this._log(
           "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 중 - 요청을 대기열에 추가"
         );
+        this.emit("onRequestQueued", this.toRequestMeta(originalRequest));
         return new Promise((resolve, reject) => {
-          this.failedQueue.push({ resolve, reject, originalRequest });
+          // 대기 중 요청이 취소되면 대기열에서 제거 후 실패 처리
+          // 대기열에서 처리(재시도 / 실패)되면 취소 리스너 제거
+          const signal = originalRequest.signal as AbortSignal | undefined;
+          const onAbort = () => {
+            const index = this.failedQueue.indexOf(queuedRequest);
+            if (index === -1) return;
+            this.failedQueue.splice(index, 1);
+            reject(
+              new CancelledError("Request was cancelled", {
+                url: originalRequest.url,
+                method: originalRequest.method,
+              })
+            );
+          };
+          const queuedRequest = {
+            resolve: (value: AxiosResponse) => {
+              signal?.removeEventListener("abort", onAbort);
+              resolve(value);
+            },
+            reject: (reason?: unknown) => {
+              signal?.removeEventListener("abort", onAbort);
+              reject(reason);
+            },
+            originalRequest,
+          };
+          this.failedQueue.push(queuedRequest);
+          signal?.addEventListener("abort", onAbort, { once: true });
         });
       }
 
-      // 토큰 재발급 시작
-      this._log("[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 시작");
-      this.isRefreshingToken = true;
+      // 토큰 재발급 (실패 시 대기열 실패 처리 및 실패 콜백은 refreshToken 내부에서 수행)
+      const reissuedTokens = await this.refreshToken("reactive");
 
-      try {
-        // 외부에서 주입받은 토큰 재발급 API 호출 로직 실행
-        this._log(
-          "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 API 호출"
-        );
-        if (this.isUseCookie) {
-          // CASE 1: 쿠키 인증 방식 토큰 재발급 API 호출
+      // 현재 요청 재시도
+      this._log("[RemoteRequestImpl] handleTokenRefresh :: 현재 요청 재시도");
+      if (!this.isReplayableRequest(originalRequest)) {
+        return Promise.reject(this.createNotReplayedError(originalRequest));
+      }
+      if (reissuedTokens) {
+        originalRequest._accessToken = reissuedTokens.accessToken;
+      }
+      return this._axiosInstance(originalRequest);
+    }
+
+    // 토큰 만료 에러가 아니거나 이미 재시도한 요청이면 원본 에러 반환
+    return Promise.reject(error);
+  }
+
+  /**
+   * 토큰 재발급 (single-flight)
+   * - 재발급이 진행 중이면 진행 중인 재발급 결과를 공유 (자식 클라이언트 포함)
+   * - 재발급 성공 시 재발급 결과를 먼저 반환하고, 세션을 공유하는 모든 클라이언트의 대기열 요청 일괄 재시도
+   * - 재발급 실패 시 모든 클라이언트의 대기열 요청 에러 처리 후 실패 콜백 한 번 호출
+   * @param trigger - 재발급 계기 (라이프사이클 이벤트용)
+   * @returns [STORAGE 모드] 재발급된 신규 토큰, [WEB_COOKIE 모드] null
+   */
+  // MARK: - Token Refresh
+  private refreshToken(
+    trigger: TokenRefreshTrigger
+  ): Promise<AuthTokens | null> {
+    const session = this.session;
+    if (session.refreshPromise) {
+      return session.refreshPromise;
+    }
+
+    this._log("[RemoteRequestImpl] refreshToken :: 토큰 재발급 시작");
+    const previousSessionState = session.state;
+    this.setSessionState("refreshing");
+    const startedAt = Date.now();
+    this.emit("onTokenRefreshStart", { trigger, startedAt });
+
+    session.refreshPromise = session.owner
+      .executeCoordinatedTokenReissue()
+      .then(
+        async (reissuedTokens) => {
+          session.refreshPromise = null;
+          this._log("[RemoteRequestImpl] refreshToken :: 토큰 재발급 성공");
+          this.setSessionState("authenticated");
+          this.emit("onTokenRefreshSuccess", {
+            trigger,
+            durationMs: Date.now() - startedAt,
+          });
+
+          // 큐에 쌓인 모든 요청 재시도
+          // 재발급을 기다리는 요청(재발급을 일으킨 요청, 선제 재발급 대기 요청)이
+          // 재전송 완료를 기다리지 않도록 재발급 결과를 먼저 반환하고 대기열은 따로 처리
           this._log(
-            "[RemoteRequestImpl] handleTokenRefresh :: 쿠키 인증 방식 토큰 재발급 API 호출"
+            "[RemoteRequestImpl] refreshToken :: 대기열 요청들 처리 시작"
           );
-          await this.tokenReissueWhenUseCookie(
-            this.tokenConfig.tokenReissueUrl
+          this.processSessionQueues(null, reissuedTokens).catch((error) =>
+            this._error(
+              "[RemoteRequestImpl] refreshToken :: 대기열 요청 처리 실패",
+              error
+            )
           );
-        } else {
-          // CASE 2: 스토리지 인증 방식 토큰 재발급 API 호출
-          this._log(
-            "[RemoteRequestImpl] handleTokenRefresh :: 스토리지 인증 방식 토큰 재발급 API 호출"
+          return reissuedTokens;
+        },
+        async (cause: unknown) => {
+          session.refreshPromise = null;
+          // 토큰 재발급 실패 시 큐에 쌓인 모든 요청 실패 처리
+          this._error(
+            "[RemoteRequestImpl] refreshToken :: 토큰 재발급 실패",
+            cause
           );
-          const result =
-            await this.tokenTransportConfig.fetchAuthTokenMethod?.();
-          await this.tokenReissueWhenUseStorage(
-            this.tokenConfig.tokenReissueUrl,
-            result?.accessToken ?? "",
-            result?.refreshToken ?? ""
+          const refreshError =
+            cause instanceof TokenRefreshError
+              ? cause
+              : new TokenRefreshError("Failed to reissue token", {
+                  cause,
+                  url: this.tokenConfig.tokenReissueUrl,
+                  method: "post",
+                });
+          this.emit("onTokenRefreshFailure", {
+            trigger,
+            error: refreshError,
+            durationMs: Date.now() - startedAt,
+          });
+
+          await this.processSessionQueues(refreshError);
+          this._log(
+            "[RemoteRequestImpl] refreshToken :: 토큰 재발급 실패 - 대기열 요청들 실패 처리"
           );
-          // 신규 발급된 토큰을 저장하는 콜백 실행
-          if (this.reissueTokenSuccessCallback) {
-            this._log(
-              "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 성공 콜백 호출"
+
+          // 일시적 실패 / 차단 상태는 세션이 만료된 것이 아니므로 로그아웃 처리하지 않음
+          if (refreshError.reason !== "rejected") {
+            this.setSessionState(
+              refreshError.reason === "transient"
+                ? "authenticated"
+                : previousSessionState
             );
-            await this.reissueTokenSuccessCallback(
-              result?.accessToken ?? "",
-              result?.refreshToken ?? ""
+            throw refreshError;
+          }
+          this.setSessionState("expired");
+
+          // 로그아웃 등으로 이어지므로 진행 중인 요청도 모두 중단
+          session.clients.forEach((client) => {
+            if (client.cancelOnReissueFailure) {
+              client.cancelAll(
+                "Request was cancelled due to token reissue failure"
+              );
+            }
+          });
+
+          const failureCallback = session.owner.reissueTokenFailureCallback;
+          if (failureCallback) {
+            this._log(
+              "[RemoteRequestImpl] refreshToken :: 토큰 재발급 실패 콜백 호출"
             );
+            await failureCallback();
             this._log(
-              "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 성공 콜백 호출 완료"
+              "[RemoteRequestImpl] refreshToken :: 토큰 재발급 실패 콜백 호출 완료"
             );
           }
-        }
-        this._log("[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 성공");
-
-        // 현재 요청 재시도
-        this._log("[RemoteRequestImpl] handleTokenRefresh :: 현재 요청 재시도");
-        const currentResponse = await this._axiosInstance(originalRequest);
-
-        // 큐에 쌓인 모든 요청 재시도
-        this._log(
-          "[RemoteRequestImpl] handleTokenRefresh :: 대기열 요청들 처리 시작"
-        );
-        await this.processQueue(null);
 
-        // 현재 요청 결과 반환
-        this._log(
-          "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 성공, 현재 요청 결과 재반환"
-        );
-
-        return currentResponse;
-      } catch (refreshError: unknown) {
-        // 토큰 재발급 실패 시 큐에 쌓인 모든 요청 실패 처리
-        this._error(
-          "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 실패",
-          refreshError
-        );
-
-        const rejectPromise = Promise.reject(refreshError);
-
-        await this.processQueue(refreshError);
-        this._log(
-          "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 실패 - 대기열 요청들 실패 처리"
-        );
-
-        if (this.reissueTokenFailureCallback) {
-          this._log(
-            "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 실패 콜백 호출"
-          );
-          await this.reissueTokenFailureCallback();
           this._log(
-            "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 실패 콜백 호출 완료"
+            "[RemoteRequestImpl] refreshToken :: 토큰 재발급 최종 실패"
           );
+          throw refreshError;
         }
+      );
+    return session.refreshPromise;
+  }
 
-        this._log(
-          "[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 최종 실패"
-        );
-        return rejectPromise;
-      } finally {
-        this.isRefreshingToken = false;
-        this._log("[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 완료");
-      }
+  /**
+   * 세션을 공유하는 모든 클라이언트의 재발급 대기열 처리
+   */
+  private async processSessionQueues(
+    error: unknown,
+    reissuedTokens: AuthTokens | null = null
+  ) {
+    await Promise.all(
+      Array.from(this.session.clients).map((client) =>
+        client.processQueue(error, reissuedTokens)
+      )
+    );
+  }
+
+  /**
+   * 토큰 재발급 진행 여부 (세션을 공유하는 클라이언트 중 하나라도 재발급 중이면 true)
+   */
+  private get isRefreshingToken(): boolean {
+    return this.session.refreshPromise !== null;
+  }
+
+  // MARK: - 세션 상태
+  /**
+   * 현재 인증 세션 상태
+   */
+  getSessionState(): SessionState {
+    return this.session.state;
+  }
+
+  /**
+   * 세션 상태 변경 구독
+   * @param listener - 변경된 상태를 전달받는 함수
+   * @returns 구독 해제 함수
+   */
+  onSessionStateChange(listener: (state: SessionState) => void): () => void {
+    this.session.stateListeners.add(listener);
+    return () => this.session.stateListeners.delete(listener);
+  }
+
+  /**
+   * 세션 상태를 authenticated로 되돌리고 재발급 차단 해제 (재로그인 후 호출)
+   */
+  resetSessionState(): void {
+    this.session.owner.refreshPolicy.reset();
+    this.setSessionState("authenticated");
+  }
+
+  private setSessionState(state: SessionState) {
+    if (this.session.state === state) return;
+    this.session.state = state;
+    this.session.stateListeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        this._warn(
+          "[RemoteRequestImpl] setSessionState :: 세션 상태 리스너 실행 실패",
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * 토큰 재발급 API 호출 및 성공 콜백 실행
+   * @returns [STORAGE 모드] 재발급된 신규 토큰, [WEB_COOKIE 모드] null
+   */
+  private executeCoordinatedTokenReissue(): Promise<AuthTokens | null> {
+    const reissue = () =>
+      this.refreshPolicy.execute(
+        () => this.executeTokenReissue(),
+        { url: this.tokenConfig.tokenReissueUrl, method: "post" },
+        (attempt, delay, error) =>
+          this._warn(
+            `[RemoteRequestImpl] refreshToken :: 일시적 실패 - 재발급 재시도 | attempt: ${attempt} | delay: ${Math.round(
+              delay
+            )}ms`,
+            error
+          ),
+        this.refreshAbortController.signal
+      );
+    if (!this.refreshCoordinator) return reissue();
+    return this.refreshCoordinator.run(reissue);
+  }
+
+  /**
+   * 다른 탭에서 재발급된 토큰 저장 (탭별 저장소를 사용하는 경우 동기화)
+   */
+  private syncRemoteTokens(tokens: AuthTokens | null) {
+    this._log(
+      "[RemoteRequestImpl] syncRemoteTokens :: 다른 탭에서 토큰 재발급 완료"
+    );
+    if (!tokens || !this.reissueTokenSuccessCallback) return;
+    this.reissueTokenSuccessCallback(
+      tokens.accessToken,
+      tokens.refreshToken
+    ).catch((error: unknown) =>
+      this._warn(
+        "[RemoteRequestImpl] syncRemoteTokens :: 토큰 저장 콜백 실패",
+        error
+      )
+    );
+  }
+
+  private async executeTokenReissue(): Promise<AuthTokens | null> {
+    // 외부에서 주입받은 토큰 재발급 API 호출 로직 실행
+    if (this.isUseCookie) {
+      // CASE 1: 쿠키 인증 방식 토큰 재발급 API 호출
+      this._log(
+        "[RemoteRequestImpl] executeTokenReissue :: 쿠키 인증 방식 토큰 재발급 API 호출"
+      );
+      await this.tokenReissueWhenUseCookie(this.tokenConfig.tokenReissueUrl);
+      return null;
     }
 
-    // 토큰 만료 에러가 아니거나 이미 재시도한 요청이면 원본 에러 반환
-    return Promise.reject(error);
+    // CASE 2: 스토리지 인증 방식 토큰 재발급 API 호출
+    this._log(
+      "[RemoteRequestImpl] executeTokenReissue :: 스토리지 인증 방식 토큰 재발급 API 호출"
+    );
+    const result = await this.tokenTransportConfig.fetchAuthTokenMethod?.();
+    const reissuedTokens = await this.tokenReissueWhenUseStorage(
+      this.tokenConfig.tokenReissueUrl,
+      result?.accessToken ?? "",
+      result?.refreshToken ?? ""
+    );
+    // 신규 발급된 토큰을 저장하는 콜백 실행
+    if (this.reissueTokenSuccessCallback) {
+      this._log(
+        "[RemoteRequestImpl] executeTokenReissue :: 토큰 재발급 성공 콜백 호출"
+      );
+      await this.reissueTokenSuccessCallback(
+        reissuedTokens.accessToken,
+        reissuedTokens.refreshToken
+      );
+      this._log(
+        "[RemoteRequestImpl] executeTokenReissue :: 토큰 재발급 성공 콜백 호출 완료"
+      );
+    }
+    return reissuedTokens;
+  }
+
+  /**
+   * 만료 임박 토큰 선제 재발급 (tokenConfig.proactiveRefresh 설정 시)
+   * - 재발급 진행 중이면 진행 중인 재발급이 끝날 때까지 대기
+   * - 만료 시각이 refreshBeforeExpirySeconds 이내면 요청 전에 재발급
+   * - 재발급 요청 자체와 재발급 후 재시도하는 요청은 제외
+   * - 만료 시각을 알 수 없으면 아무것도 하지 않음 (응답 기반 재발급으로 대체)
+   * @param config - 요청 설정
+   */
+  // MARK: - Proactive Token Refresh
+  private async refreshTokenIfExpiringSoon(
+    config: CustomAxiosRequestConfig
+  ): Promise<void> {
+    const proactiveRefresh = this.tokenConfig.proactiveRefresh;
+    if (
+      !proactiveRefresh ||
+      config._retry ||
+      this.isTokenReissueRequest(config.url)
+    ) {
+      return;
+    }
+
+    if (!this.isRefreshingToken) {
+      const expiresAt = await this.getAccessTokenExpiresAt();
+      const refreshBeforeMs =
+        (proactiveRefresh.refreshBeforeExpirySeconds ?? 30) * 1000;
+      if (expiresAt === null || expiresAt - refreshBeforeMs > Date.now()) {
+        return;
+      }
+      this._log(
+        `[RemoteRequestImpl] refreshTokenIfExpiringSoon :: 토큰 만료 임박 - 선제 재발급 | expiresAt: ${new Date(
+          expiresAt
+        ).toISOString()}`
+      );
+    } else {
+      this._log(
+        "[RemoteRequestImpl] refreshTokenIfExpiringSoon :: 토큰 재발급 중 - 재발급 완료 대기"
+      );
+    }
+
+    const reissuedTokens = await this.refreshToken("proactive");
+    if (reissuedTokens) {
+      config._accessToken = reissuedTokens.accessToken;
+    }
+  }
+
+  /**
+   * accessToken 만료 시각(epoch ms) 조회
+   * - proactiveRefresh.getAccessTokenExpiresAt이 있으면 우선 사용
+   * - [STORAGE 모드] 없으면 fetchAuthTokenMethod의 accessToken(JWT) exp 클레임 사용
+   */
+  private async getAccessTokenExpiresAt(): Promise<number | null> {
+    const getter = this.tokenConfig.proactiveRefresh?.getAccessTokenExpiresAt;
+    if (getter) {
+      return (await getter()) ?? null;
+    }
+    if (this.isUseCookie) return null;
+
+    const token = await this.tokenTransportConfig.fetchAuthTokenMethod?.();
+    if (!token?.accessToken) return null;
+    return decodeJwtExpiresAt(token.accessToken);
+  }
+
+  /**
+   * 토큰 재발급 요청 여부 확인 (baseURL 반영 후 쿼리스트링을 제외한 URL 비교)
+   * @param url - 요청 URL
+   */
+  private isTokenReissueRequest(url: string | undefined): boolean {
+    return (
+      !!url &&
+      this.resolveUrl(url).split(/[?#]/)[0] ===
+        this.resolveUrl(this.tokenConfig.tokenReissueUrl)
+    );
   }
 
   /**
    * 토큰 재발급 대기 큐 처리
-   * - 토큰 재발급 성공 시: 큐에 쌓인 모든 요청을 재시도(resolve)
+   * - 토큰 재발급 성공 시: 큐에 쌓인 모든 요청을 우선순위 순으로 재시도(resolve)
+   *   (동시 요청 수 제한 설정 시 제한 범위 안에서 재요청)
    * - 토큰 재발급 실패 시: 큐에 쌓인 모든 요청을 실패 처리(reject)
+   * @param error - 토큰 재발급 실패 에러 (성공 시 null)
+   * @param reissuedTokens - [STORAGE 모드] 재시도 요청에 사용할 신규 토큰
    */
   // MARK: - Process Queue Handler
-  private async processQueue(error: unknown) {
+  private async processQueue(
+    error: unknown,
+    reissuedTokens: AuthTokens | null = null
+  ) {
+    // 처리 중 새로 추가되는 요청과 섞이지 않도록 현재 큐를 분리
+    // 우선순위가 높은 요청부터 슬롯을 확보하도록 정렬 (같은 우선순위는 대기 순서 유지)
+    const queue = this.failedQueue
+      .map((item, index) => ({ item, index }))
+      .sort(
+        (a, b) =>
+          (a.item.originalRequest.priority ?? RequestPriority.NORMAL) -
+            (b.item.originalRequest.priority ?? RequestPriority.NORMAL) ||
+          a.index - b.index
+      )
+      .map(({ item }) => item);
+    this.failedQueue = [];
+
     // Promise.all로 큐 병렬 처리
     await Promise.all(
-      this.failedQueue.map(async ({ resolve, reject, originalRequest }) => {
+      queue.map(async ({ resolve, reject, originalRequest }) => {
         if (error) {
           // 토큰 재발급 실패 시 즉시 reject
           reject(error);
@@ -358,42 +1462,1053 @@ export class RemoteRequest implements RemoteRequestMethod {
         }
 
         // 토큰 재발급 성공 시 요청 재시도
-        // originalRequest의 url이 토큰 재발급 URL이면 무시(재요청하지 않음)
-        if (originalRequest.url === this.tokenConfig.tokenReissueUrl) {
-          // 토큰 재발급 요청은 큐에서 무시
+        // 토큰 재발급 요청은 큐에서 무시(재요청하지 않음)
+        if (this.isTokenReissueRequest(originalRequest.url)) {
           return;
         }
-        const resp = await this._axiosInstance.request(originalRequest);
-        resolve(resp);
+        // 대용량 / 스트림 본문은 재전송하지 않고 실패 처리 (토큰은 재발급 완료)
+        if (!this.isReplayableRequest(originalRequest)) {
+          reject(this.createNotReplayedError(originalRequest));
+          return;
+        }
+        if (reissuedTokens) {
+          originalRequest._accessToken = reissuedTokens.accessToken;
+        }
+        this.emit("onRequestReplayed", this.toRequestMeta(originalRequest));
+        try {
+          const resp = await this._axiosInstance.request(originalRequest);
+          resolve(resp);
+        } catch (retryError) {
+          reject(retryError);
+        }
       })
     );
-    this.failedQueue = [];
+  }
+
+  /**
+   * 토큰 재발급 후 자동 재전송 가능 여부
+   * - 요청별 replayable 옵션이 있으면 우선 적용
+   * - 없으면 본문 크기가 maxReplayBodySize 이하인 경우만 재전송 (스트림은 재전송 불가)
+   */
+  private isReplayableRequest(config: CustomAxiosRequestConfig): boolean {
+    if (config.replayable !== undefined) return config.replayable;
+    return getBodySize(config.data) <= this.maxReplayBodySize;
+  }
+
+  private createNotReplayedError(
+    config: CustomAxiosRequestConfig
+  ): RequestNotReplayedError {
+    this._warn(
+      `[RemoteRequestImpl] handleTokenRefresh :: 토큰 재발급 후 재전송하지 않음 | ${config.method} ${config.url}`
+    );
+    return new RequestNotReplayedError(
+      "Request was not replayed after token refresh",
+      { url: config.url, method: config.method }
+    );
   }
 
   // MARK: - RemoteRequestMethod 구현부
-  patch(url: string, data?: unknown): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.patch(url, data);
+  async request<T = unknown, D = unknown>(
+    config: RequestConfig<D, T>
+  ): Promise<RemoteResponse<T, D>> {
+    if (this.isDisposed) {
+      throw new CancelledError("RemoteRequest has been disposed", {
+        url: config.url,
+        method: config.method,
+      });
+    }
+
+    // 스키마는 axios 설정에 병합되지 않도록 분리 후 응답 검증에만 사용
+    // 내부 판단(오프라인 대기열 저장, 재전송 실패 분류)은 변환 전 에러 기준으로 하고
+    // 호출자에게 전달하는 에러만 mapError로 변환
+    const { schema, ...requestConfig } = config;
+    try {
+      const response = await this.dispatchRequest<T, D>(requestConfig);
+      return await this.validateResponse<T, D>(config, schema, response);
+    } catch (error) {
+      // 대기열에 저장된 요청은 재전송 응답도 같은 스키마로 검증
+      if (error instanceof OfflineQueuedError && schema !== undefined) {
+        this.replaySchemas.set(
+          error.mutationId,
+          schema as ResponseSchema<unknown> | false
+        );
+      }
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * 요청 전달 (오프라인 대기열 → 중복 요청 병합 → 캐시 / 전송 순으로 적용)
+   */
+  private async dispatchRequest<T, D>(
+    config: RequestConfig<D>
+  ): Promise<AxiosResponse<T, D>> {
+    const method = (config.method ?? "get").toLowerCase();
+    if (
+      this.offlineQueue &&
+      MUTATION_METHODS.includes(method) &&
+      config.offline !== false
+    ) {
+      return this.requestWithOfflineQueue<T, D>(
+        this.offlineQueue,
+        method,
+        config
+      );
+    }
+    if (DEDUPE_METHODS.includes(method) && this.isDedupeEnabled(config)) {
+      return this.requestDeduplicated<T, D>(config, (sharedConfig) =>
+        this.executeRequest<T, D>(method, sharedConfig)
+      );
+    }
+    return this.executeRequest<T, D>(method, config);
+  }
+
+  // MARK: - 응답 검증
+  /**
+   * 응답 본문 스키마 검증
+   * - 요청별 schema 옵션 > responseSchemas 규칙 순으로 스키마 결정 (schema: false면 검증하지 않음)
+   * - 통과 시 스키마 결과 값(기본값 / 변환 반영)으로 응답 본문 대체
+   * - 실패 시 첫 번째 실패 경로를 담은 ValidationError
+   */
+  private async validateResponse<T, D>(
+    config: RequestConfig<D>,
+    schema: ResponseSchema<T> | false | undefined,
+    response: AxiosResponse<T, D>
+  ): Promise<AxiosResponse<T, D>> {
+    const resolvedSchema =
+      schema === false
+        ? undefined
+        : schema ?? (this.findResponseSchema(config) as ResponseSchema<T>);
+    if (!resolvedSchema) return response;
+
+    const result = await validateWithSchema(resolvedSchema, response.data);
+    if (result.success) return { ...response, data: result.data };
+
+    const issues = result.issues.map((issue) => ({
+      path: formatSchemaPath(issue),
+      message: issue.message,
+    }));
+    this._warn(
+      `[RemoteRequestImpl] validateResponse :: 응답 검증 실패 | ${config.url} | path: ${issues[0]?.path}`
+    );
+    throw new ValidationError(issues, response.data, {
+      url: config.url,
+      method: config.method ?? "get",
+    });
+  }
+
+  /**
+   * 요청과 일치하는 응답 스키마 규칙의 스키마 (바이너리 응답은 제외)
+   */
+  private findResponseSchema(
+    config: RequestConfig<unknown>
+  ): ResponseSchema<unknown> | undefined {
+    if (
+      this.responseSchemas.length === 0 ||
+      BINARY_RESPONSE_TYPES.includes(config.responseType ?? "json")
+    ) {
+      return undefined;
+    }
+    return findUrlRule(
+      this.responseSchemas,
+      this.resolveUrl(config.url),
+      config.method ?? "get"
+    )?.schema;
+  }
+
+  /**
+   * 요청 실행
+   * - GET 요청은 캐시 적용 여부 확인
+   * - 변경 요청은 성공 후 관련 캐시 무효화
+   */
+  private async executeRequest<T, D>(
+    method: string,
+    config: RequestConfig<D>
+  ): Promise<AxiosResponse<T, D>> {
+    if (method === "get" && this.isCacheEnabled(config)) {
+      return this.requestWithCache<T, D>(config);
+    }
+
+    const response = await this.sendRequest<T, D>(config);
+    if (MUTATION_METHODS.includes(method)) {
+      await this.invalidateCacheAfterMutation(config);
+    }
+    return response;
+  }
+
+  /**
+   * axios 인스턴스로 요청 전송
+   * - 사용자 signal과 cancelAll을 모두 반영하기 위해 내부 AbortController 연결
+   *   (토큰 재발급 요청은 cancelAll 대상에서 제외)
+   * - 에러는 RemoteRequestError 계층으로 변환 (mapError는 request에서 호출자에게 전달할 때 적용)
+   * @param config - 요청 설정
+   * @param overrides - 내부적으로 덮어쓸 axios 설정 (조건부 요청 헤더 등)
+   */
+  private async sendRequest<T, D>(
+    config: RequestConfig<D>,
+    overrides: AxiosRequestConfig<D> = {}
+  ): Promise<AxiosResponse<T, D>> {
+    const controller = new AbortController();
+    const unlinkSignal = linkAbortSignal(config.signal, controller);
+    const isCancellable = !this.isTokenReissueRequest(config.url);
+    if (isCancellable) this.activeControllers.add(controller);
+
+    try {
+      return await this._axiosInstance.request<T, AxiosResponse<T, D>, D>({
+        ...config,
+        ...overrides,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw toRemoteRequestError(error);
+    } finally {
+      // 응답 인터셉터를 거치지 않는 에러(암호화 실패, 미들웨어 에러 등)로 끝나도 슬롯 반환
+      this.releaseSlot(controller.signal);
+      this.activeControllers.delete(controller);
+      unlinkSignal();
+    }
+  }
+
+  /**
+   * 진행 중인 모든 요청과 토큰 재발급 대기열의 요청을 취소
+   * - 취소된 요청은 CancelledError로 실패 처리
+   * - 진행 중인 토큰 재발급 요청은 취소하지 않고, 재발급 재시도 대기만 중단
+   * @param reason - 취소 사유 (CancelledError 메시지)
+   */
+  cancelAll(reason: string = "Request was cancelled"): void {
+    this._log(
+      `[RemoteRequestImpl] cancelAll :: 요청 일괄 취소 | 진행 중: ${this.activeControllers.size} | 대기열: ${this.failedQueue.length}`
+    );
+    const controllers = Array.from(this.activeControllers);
+    this.activeControllers.clear();
+    controllers.forEach((controller) => controller.abort());
+    this.refreshAbortController.abort();
+    this.refreshAbortController = new AbortController();
+
+    const queue = this.failedQueue;
+    this.failedQueue = [];
+    queue.forEach(({ reject, originalRequest }) =>
+      reject(
+        new CancelledError(reason, {
+          url: originalRequest.url,
+          method: originalRequest.method,
+        })
+      )
+    );
+  }
+
+  /**
+   * 인스턴스 폐기
+   * - 모든 요청을 취소하고, 이후 요청은 CancelledError로 즉시 실패
+   * - 부모 클라이언트를 폐기하면 세션을 공유하는 자식 클라이언트도 함께 폐기
+   */
+  dispose(): void {
+    if (this.isDisposed) return;
+    Array.from(this.subscriptions).forEach((subscription) =>
+      subscription.close()
+    );
+    this.cancelAll("RemoteRequest has been disposed");
+    this.isDisposed = true;
+    this.removeOnlineListener?.();
+    this.removeOnlineListener = null;
+    this.refreshCoordinator?.dispose();
+
+    this.session.clients.delete(this);
+    if (this.session.owner === this) {
+      Array.from(this.session.clients).forEach((client) => client.dispose());
+    }
+  }
+
+  // MARK: - 미들웨어
+  /**
+   * 요청 / 응답 미들웨어 등록
+   * - position(outer / inner)과 order로 내장 단계(암호화, 인증, 토큰 재발급) 기준 실행 위치 지정
+   * - 자식 클라이언트에는 상속되지 않음
+   * @param middleware - 등록할 미들웨어
+   * @returns 등록 해제 핸들
+   */
+  use(middleware: Middleware): MiddlewareHandle {
+    return this.middlewares.use(middleware);
+  }
+
+  // MARK: - 자식 클라이언트
+  /**
+   * 세션을 공유하는 자식 클라이언트 생성 (서비스별 baseURL / 헤더 / 암호화 설정)
+   * - 토큰 만료 시 부모 / 자식 중 어디서 발생해도 재발급은 한 번만 실행되고,
+   *   재발급 결과는 모든 클라이언트의 대기열에 전달됨
+   * - 상대 경로 tokenReissueUrl은 부모 baseURL 기준으로 고정
+   * @param options - 자식 클라이언트 옵션
+   */
+  createChild(options: ChildClientOptions = {}): RemoteRequest {
+    if (this.isDisposed) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] cannot create a child of a disposed RemoteRequest"
+      );
+    }
+    const { encryptionConfig, ...childOptions } = options;
+    const parentOptions = this.clientOptions;
+    const child = new RemoteRequest({
+      ...parentOptions,
+      offlineQueue: undefined,
+      refreshCoordination: undefined,
+      adapter: options.transport ? undefined : parentOptions.adapter,
+      transport: options.adapter ? undefined : parentOptions.transport,
+      ...childOptions,
+      tokenConfig: {
+        ...this.tokenConfig,
+        tokenReissueUrl: this.resolveUrl(this.tokenConfig.tokenReissueUrl),
+      },
+      encryptionConfig:
+        encryptionConfig === undefined
+          ? parentOptions.encryptionConfig
+          : encryptionConfig ?? undefined,
+      headers: { ...parentOptions.headers, ...options.headers },
+      params: { ...parentOptions.params, ...options.params },
+    });
+    child.session = this.session;
+    this.session.clients.add(child);
+    return child;
+  }
+  patch<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>> {
+    return this.request<T, D>({ ...options, url, method: "patch", data });
+  }
+  options<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>> {
+    return this.request<T>({ ...options, url, method: "options" });
+  }
+  get<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>> {
+    return this.request<T>({ ...options, url, method: "get" });
+  }
+  post<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>> {
+    return this.request<T, D>({ ...options, url, method: "post", data });
+  }
+  put<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>> {
+    return this.request<T, D>({ ...options, url, method: "put", data });
+  }
+  delete<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>> {
+    return this.request<T>({ ...options, url, method: "delete" });
+  }
+  head<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>> {
+    return this.request<T>({ ...options, url, method: "head" });
+  }
+
+  // MARK: - 파일 업로드 / 다운로드
+  /**
+   * 파일 업로드
+   * - Blob / File은 multipart(FormData)로 감싸 전송 (raw 옵션 시 본문 그대로 전송)
+   * - FormData는 그대로 전송 (Content-Type 경계값은 런타임이 설정)
+   * - 오프라인 대기열에 저장하지 않음
+   * @param url - 요청 URL
+   * @param body - 업로드할 파일 또는 FormData
+   * @param options - 업로드 옵션 (onUploadProgress 등 요청 옵션 포함)
+   */
+  upload<T = unknown>(
+    url: string,
+    body: UploadBody,
+    options: UploadOptions<T> = {}
+  ): Promise<RemoteResponse<T>> {
+    const { method, raw, fieldName, fileName, fields, ...requestOptions } =
+      options;
+    let data: UploadBody = body;
+    let headers = requestOptions.headers;
+    if (body instanceof Blob && raw) {
+      headers = {
+        "Content-Type": body.type || "application/octet-stream",
+        ...headers,
+      };
+    } else if (body instanceof Blob) {
+      const formData = new FormData();
+      Object.keys(fields ?? {}).forEach((name) =>
+        formData.append(name, (fields ?? {})[name])
+      );
+      formData.append(
+        fieldName ?? "file",
+        body,
+        fileName ?? (body as File).name ?? "blob"
+      );
+      data = formData;
+    }
+    return this.request<T>({
+      ...requestOptions,
+      headers,
+      url,
+      method: method ?? "post",
+      data,
+      offline: false,
+    });
+  }
+
+  /**
+   * 분할 업로드 (이어 올리기 지원)
+   * - 조각은 이 인스턴스로 전송되므로 인증 / 토큰 재발급 / 동시 요청 수 제한이 그대로 적용
+   * @param file - 업로드할 파일
+   * @param protocol - 서버 분할 업로드 규약 (createContentRangeUploadProtocol 등)
+   * @param options - 분할 업로드 옵션
+   * @returns protocol.complete 결과
+   */
+  uploadChunked<T = unknown>(
+    file: Blob,
+    protocol: ChunkUploadProtocol<T>,
+    options?: ChunkedUploadOptions
+  ): Promise<T> {
+    return uploadInChunks(this, file, protocol, options);
+  }
+
+  /**
+   * 파일 다운로드
+   * - 기본 응답 형식은 blob, 응답 캐시는 사용하지 않음 (cache 옵션으로 변경 가능)
+   * @param url - 요청 URL
+   * @param options - 다운로드 옵션 (responseType, onDownloadProgress 등)
+   */
+  download<T = Blob>(
+    url: string,
+    options: DownloadOptions = {}
+  ): Promise<RemoteResponse<T>> {
+    return this.request<T>({
+      cache: false,
+      ...options,
+      responseType: options.responseType ?? "blob",
+      url,
+      method: "get",
+    });
+  }
+
+  // MARK: - 구독 (SSE / long-polling)
+  /**
+   * 이벤트 구독 (Server-Sent Events 또는 long-polling)
+   * - 연결 요청에 인증 헤더 / 쿠키 인증이 그대로 적용되고, 토큰 만료로 거부되면 공유 재발급 후 다시 연결
+   * - 끊기면 Last-Event-ID와 함께 백오프로 재연결
+   * - dispose 시 함께 종료
+   * @param url - 구독 URL
+   * @param options - 구독 옵션 (onMessage, transport, schema 등)
+   * @returns 구독 핸들
+   */
+  subscribe<T = unknown>(
+    url: string,
+    options: SubscriptionOptions<T>
+  ): Subscription {
+    if (this.isDisposed) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] cannot subscribe on a disposed RemoteRequest"
+      );
+    }
+    const subscription: Subscription = new EventSubscription<T>(
+      this,
+      url,
+      options,
+      () => this.subscriptions.delete(subscription)
+    );
+    if (subscription.state !== "closed") this.subscriptions.add(subscription);
+    return subscription;
   }
-  options(url: string): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.options(url);
+
+  // MARK: - 중복 요청 병합
+  /**
+   * 중복 요청 병합 적용 여부 (요청별 dedupe 옵션 > 클라이언트 dedupe 설정)
+   * - 요청 키로 비교할 수 없는 validateStatus 함수를 지정한 요청은 병합하지 않음
+   */
+  private isDedupeEnabled(config: RequestConfig<unknown>): boolean {
+    if ((config as AxiosRequestConfig).validateStatus) return false;
+    return config.dedupe ?? this.dedupe;
   }
-  get(url: string): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.get(url);
+
+  /**
+   * 동일한 요청이 진행 중이면 같은 네트워크 요청과 결과를 공유
+   * - 요청 키: 메서드 + 전체 URL + 쿼리 파라미터 + 헤더 + responseType + 인증 식별자
+   *   + 응답에 영향을 주는 요청 옵션 (withAuth, encrypt, convertKeys, timeout)
+   * - 호출자별 signal은 해당 호출자만 취소하며, 모든 호출자가 취소하면 네트워크 요청도 취소
+   * - 응답 객체는 호출자별로 얕은 복사하여 반환
+   * @param config - 요청 설정
+   * @param execute - 실제 요청 실행 함수 (공유 요청용 signal이 담긴 설정으로 호출)
+   */
+  private async requestDeduplicated<T, D>(
+    config: RequestConfig<D>,
+    execute: (sharedConfig: RequestConfig<D>) => Promise<AxiosResponse<T, D>>
+  ): Promise<AxiosResponse<T, D>> {
+    const key = `${await this.buildRequestKey(
+      config.method ?? "get",
+      config.url,
+      config
+    )}|${stableStringify(config.headers ?? {})}|${stableStringify({
+      withAuth: config.withAuth ?? true,
+      encrypt: config.encrypt ?? null,
+      convertKeys: config.convertKeys ?? true,
+      timeout: config.timeout ?? null,
+    })}`;
+
+    // 키 계산 중 취소된 호출자 때문에 구독자 없는 공유 요청이 전송되지 않도록 먼저 확인
+    if (config.signal?.aborted) {
+      throw new CancelledError("Request was cancelled", {
+        url: config.url,
+        method: config.method,
+      });
+    }
+
+    let inFlight = this.inFlightRequests.get(key);
+    if (inFlight) {
+      this._log(
+        `[RemoteRequestImpl] requestDeduplicated :: 진행 중인 동일 요청 공유 | url: ${config.url}`
+      );
+    } else {
+      const controller = new AbortController();
+      const createdInFlight: InFlightRequest = {
+        promise: execute({ ...config, signal: controller.signal }),
+        controller,
+        subscribers: 0,
+      };
+      const cleanup = () => {
+        if (this.inFlightRequests.get(key) === createdInFlight) {
+          this.inFlightRequests.delete(key);
+        }
+      };
+      createdInFlight.promise.then(cleanup, cleanup);
+      this.inFlightRequests.set(key, createdInFlight);
+      inFlight = createdInFlight;
+    }
+
+    return this.subscribeInFlightRequest(inFlight, config) as Promise<
+      AxiosResponse<T, D>
+    >;
   }
-  post(url: string, data: unknown): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.post(url, data);
+
+  /**
+   * 진행 중인 공유 요청 구독 (호출자 signal 반영)
+   */
+  private subscribeInFlightRequest(
+    inFlight: InFlightRequest,
+    config: RequestConfig<unknown>
+  ): Promise<AxiosResponse> {
+    const signal = config.signal;
+    const cancelledError = () =>
+      new CancelledError("Request was cancelled", {
+        url: config.url,
+        method: config.method,
+      });
+    if (signal?.aborted) return Promise.reject(cancelledError());
+
+    inFlight.subscribers++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        inFlight.subscribers--;
+        if (inFlight.subscribers === 0) inFlight.controller.abort();
+        reject(cancelledError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      inFlight.promise.then(
+        (response) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve({ ...response });
+        },
+        (error: unknown) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
   }
-  put(url: string, data: unknown): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.put(url, data);
+
+  /**
+   * 요청 식별 키 (메서드 + 전체 URL + 쿼리 파라미터 + responseType + Accept 헤더 + 인증 식별자)
+   */
+  private async buildRequestKey(
+    method: string,
+    url: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    const params = { ...this.defaultParams, ...options?.params };
+    const identity = await this.getAuthIdentity();
+    return [
+      `${method.toUpperCase()} ${this.resolveUrl(url)}`,
+      stableStringify(params),
+      options?.responseType ?? "",
+      (options && this.findHeaderValue(options, "Accept")) ?? "",
+      identity,
+    ].join("|");
   }
-  delete(url: string): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.delete(url);
+
+  // MARK: - 응답 캐시
+  /**
+   * 캐시 무효화
+   * - 경로 단위로 비교 (`/users`는 `/users`, `/users/1`, `/users?page=2`를 무효화하고 `/users-archive`는 유지)
+   * @param urlPrefix - 무효화할 URL 접두사 (baseURL 기준 상대 경로 가능, 미지정 시 전체 삭제)
+   */
+  async invalidateCache(urlPrefix?: string): Promise<void> {
+    if (!this.responseCache) return;
+    if (urlPrefix === undefined) {
+      await this.responseCache.clear();
+      return;
+    }
+    const prefix = `GET ${this.resolveUrl(urlPrefix)}`;
+    await this.responseCache.invalidateByPrefix(
+      prefix,
+      /[/?#]$/.test(prefix) ? undefined : URL_KEY_BOUNDARIES
+    );
   }
-  head(url: string): Promise<AxiosResponse<unknown>> {
-    return this._axiosInstance.head(url);
+
+  /**
+   * 캐시 키로 특정 항목 무효화 (키는 getCacheKey로 조회)
+   */
+  async invalidateCacheKey(key: string): Promise<void> {
+    await this.responseCache?.invalidate(key);
+  }
+
+  /**
+   * GET 요청의 캐시 키 조회
+   * - 메서드 + 전체 URL + 쿼리 파라미터 + responseType + Accept 헤더 + 인증 식별자로 구성
+   * @param url - 요청 URL
+   * @param options - 요청 옵션 (params, responseType, headers)
+   */
+  getCacheKey(url: string, options?: RequestOptions): Promise<string> {
+    return this.buildRequestKey("get", url, options);
+  }
+
+  /**
+   * 요청에 캐시를 적용할지 확인
+   * - 요청별 cache: false면 제외
+   * - 클라이언트 cache 미설정이어도 요청별 cache 옵션이 있으면 기본 메모리 캐시 사용
+   */
+  private isCacheEnabled(config: RequestConfig<unknown>): boolean {
+    if (config.cache === false) return false;
+    if (this.responseCache) return true;
+    if (!config.cache) return false;
+    this.responseCache = new ResponseCache(this.cacheConfig);
+    return true;
+  }
+
+  /**
+   * 캐시 적용 GET 요청
+   * - fresh: 캐시 응답 반환
+   * - stale: 캐시 응답 반환 후 백그라운드 갱신
+   * - 그 외: 조건부 요청(ETag / Last-Modified)으로 네트워크 요청 후 캐시 저장
+   */
+  private async requestWithCache<T, D>(
+    config: RequestConfig<D>
+  ): Promise<AxiosResponse<T, D>> {
+    const cache = this.responseCache as ResponseCache;
+    const cacheOptions = typeof config.cache === "object" ? config.cache : {};
+    const key = await this.getCacheKey(config.url, config);
+    const entry = cacheOptions.forceRefresh ? undefined : await cache.get(key);
+
+    if (entry) {
+      const state = cache.getState(entry);
+      this._log(
+        `[RemoteRequestImpl] requestWithCache :: 캐시 ${state} | url: ${config.url}`
+      );
+      if (state === "fresh") {
+        return cache.toResponse<T, D>(
+          entry,
+          this.toCachedResponseConfig(config)
+        );
+      }
+      if (state === "stale") {
+        this.revalidateInBackground(key, entry, config);
+        return cache.toResponse<T, D>(
+          entry,
+          this.toCachedResponseConfig(config)
+        );
+      }
+    }
+    return this.fetchAndCache<T, D>(key, entry, config);
+  }
+
+  /**
+   * 네트워크 요청 후 캐시 저장
+   * - 304 Not Modified면 기존 캐시 항목을 갱신하여 반환
+   */
+  private async fetchAndCache<T, D>(
+    key: string,
+    entry: CacheEntry | undefined,
+    config: RequestConfig<D>
+  ): Promise<AxiosResponse<T, D>> {
+    const cache = this.responseCache as ResponseCache;
+    const cacheOptions = typeof config.cache === "object" ? config.cache : {};
+    const conditionalHeaders = cache.getConditionalHeaders(entry);
+
+    const response = await this.sendRequest<T, D>(config, {
+      headers: { ...config.headers, ...conditionalHeaders },
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || (!!entry && status === 304),
+    });
+
+    if (response.status === 304 && entry) {
+      const touchedEntry = await cache.touch(key, entry, cacheOptions);
+      return cache.toResponse<T, D>(touchedEntry, response.config);
+    }
+    if (this.isCacheableResponse(config)) {
+      await cache.store(key, response, cacheOptions);
+    }
+    return response;
+  }
+
+  /**
+   * stale 캐시 항목 백그라운드 갱신 (같은 키는 한 번만 갱신)
+   */
+  private revalidateInBackground<D>(
+    key: string,
+    entry: CacheEntry,
+    config: RequestConfig<D>
+  ) {
+    if (this.revalidatingCacheKeys.has(key)) return;
+    this.revalidatingCacheKeys.add(key);
+
+    // 호출자의 signal로 백그라운드 갱신이 취소되지 않도록 제외
+    // 사용자 요청보다 뒤에 처리되도록 낮은 우선순위로 요청
+    this.fetchAndCache(key, entry, {
+      ...config,
+      signal: undefined,
+      priority: RequestPriority.BACKGROUND,
+    }).then(
+      () => this.revalidatingCacheKeys.delete(key),
+      (error: unknown) => {
+        this.revalidatingCacheKeys.delete(key);
+        this._warn(
+          "[RemoteRequestImpl] revalidateInBackground :: 캐시 갱신 실패",
+          error
+        );
+      }
+    );
+  }
+
+  /**
+   * 캐시 저장 가능 여부
+   * - stream 응답은 한 번만 읽을 수 있으므로 저장하지 않음
+   * - 복호화 대상 응답은 cacheEncryptedResponses 설정 시에만 저장
+   */
+  private isCacheableResponse(config: RequestConfig<unknown>): boolean {
+    if (config.responseType === "stream") return false;
+    if (this.cacheConfig.cacheEncryptedResponses || !this.encryptionConfig) {
+      return true;
+    }
+    return !this.checkUserIsIncludeEncryptUrl(
+      {
+        url: config.url,
+        method: "get",
+        encrypt: config.encrypt,
+      } as CustomAxiosRequestConfig,
+      "response"
+    );
+  }
+
+  /**
+   * 변경 요청(POST/PUT/PATCH/DELETE) 성공 후 관련 캐시 무효화
+   * - 같은 URL(쿼리스트링 제외) 하위 캐시와 요청별 invalidateUrls 무효화
+   */
+  private async invalidateCacheAfterMutation(
+    config: RequestConfig<unknown>
+  ): Promise<void> {
+    if (!this.responseCache) return;
+
+    const cacheOptions = typeof config.cache === "object" ? config.cache : {};
+    const urls = [
+      ...(this.cacheConfig.invalidateOnMutation === false
+        ? []
+        : [config.url.split(/[?#]/)[0]]),
+      ...(cacheOptions.invalidateUrls ?? []),
+    ];
+    await Promise.all(urls.map((url) => this.invalidateCache(url)));
+  }
+
+  /**
+   * 요청 키(캐시, 중복 요청 병합)에 포함할 인증 식별자
+   * - cacheConfig.getAuthIdentity 설정 시 해당 값
+   * - STORAGE 모드: accessToken의 JWT sub 클레임(없으면 토큰)의 SHA-256 해시
+   * - WEB_COOKIE 모드: 식별자 없음
+   */
+  private async getAuthIdentity(): Promise<string> {
+    if (this.cacheConfig.getAuthIdentity) {
+      return (await this.cacheConfig.getAuthIdentity()) ?? "";
+    }
+    if (this.isUseCookie) return "";
+    const token = await this.tokenTransportConfig.fetchAuthTokenMethod?.();
+    if (!token?.accessToken) return "";
+    // 토큰 재발급 후에도 같은 사용자로 판단하도록 JWT sub 클레임 우선 (없으면 토큰 자체)
+    return sha256Hex(decodeJwtSubject(token.accessToken) ?? token.accessToken);
+  }
+
+  /**
+   * baseURL을 반영한 전체 URL
+   */
+  private resolveUrl(url: string): string {
+    const baseURL = this._axiosInstance.defaults.baseURL;
+    if (!baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) return url;
+    return `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+  }
+
+  /**
+   * 캐시 응답에 담을 요청 설정
+   */
+  private toCachedResponseConfig<D>(
+    config: RequestConfig<D>
+  ): InternalAxiosRequestConfig<D> {
+    return {
+      ...(config as AxiosRequestConfig<D>),
+      headers: AxiosHeaders.from(config.headers as AxiosHeaders),
+    };
+  }
+
+  // MARK: - 오프라인 대기열
+  /**
+   * 오프라인 대기열을 저장 순서대로 재전송
+   * - 재전송 전 토큰이 만료되었거나 만료 임박이면 먼저 재발급
+   * - 오프라인 대기열 미설정 시 아무 것도 하지 않음
+   * @returns 재전송 / 제거 / 잔여 요청 수
+   */
+  async flush(): Promise<OfflineFlushResult> {
+    if (!this.offlineQueue || this.isDisposed) {
+      return { replayed: 0, discarded: 0, remaining: 0 };
+    }
+    this._log("[RemoteRequestImpl] flush :: 오프라인 대기열 재전송 시작");
+    const result = await this.offlineQueue.flush({
+      beforeReplay: (mutations) => this.refreshTokenBeforeReplay(mutations),
+      replay: async (mutation) => {
+        const config = this.toReplayConfig(mutation);
+        const response = await this.executeRequest(
+          mutation.method.toLowerCase(),
+          config
+        );
+        return this.validateResponse(
+          config,
+          this.replaySchemas.get(mutation.id),
+          response
+        );
+      },
+    });
+    // 재전송 / 제거되어 대기열에 없는 항목의 스키마 정리
+    if (this.replaySchemas.size > 0) {
+      const queuedIds = (await this.offlineQueue.getAll()).map(
+        (mutation) => mutation.id
+      );
+      this.replaySchemas.forEach((_, id) => {
+        if (!queuedIds.includes(id)) this.replaySchemas.delete(id);
+      });
+    }
+    this._log(
+      `[RemoteRequestImpl] flush :: 오프라인 대기열 재전송 완료 | 성공: ${result.replayed} | 제거: ${result.discarded} | 잔여: ${result.remaining}`
+    );
+    return result;
+  }
+
+  /**
+   * 오프라인 대기열에 저장된 요청 목록 (저장 순서)
+   */
+  async getQueuedMutations(): Promise<QueuedMutation[]> {
+    return this.offlineQueue ? this.offlineQueue.getAll() : [];
+  }
+
+  /**
+   * 오프라인 대기열 비우기 (로그아웃 등)
+   */
+  async clearOfflineQueue(): Promise<void> {
+    await this.offlineQueue?.clear();
+    this.replaySchemas.clear();
+  }
+
+  /**
+   * 변경 요청 전송 (오프라인 대기열 사용 시)
+   * - 멱등성 키 헤더를 붙여 재전송 시 서버가 중복 처리하지 않도록 함
+   *   (외부 호스트에는 CORS preflight를 유발하지 않도록 헤더를 직접 지정한 경우에만 포함)
+   * - 오프라인이거나 네트워크 오류로 실패하면 대기열에 저장하고 OfflineQueuedError로 실패 처리
+   *   (FormData 등 직렬화할 수 없는 본문은 저장하지 않음)
+   */
+  private async requestWithOfflineQueue<T, D>(
+    offlineQueue: OfflineMutationQueue,
+    method: string,
+    config: RequestConfig<D>
+  ): Promise<AxiosResponse<T, D>> {
+    const headerName = offlineQueue.idempotencyKeyHeader;
+    const explicitKey = this.findHeaderValue(config, headerName);
+    const idempotencyKey = explicitKey ?? createUuid();
+    const requestConfig: RequestConfig<D> =
+      explicitKey === undefined && this.isIdempotencyKeyTarget(config.url)
+        ? {
+            ...config,
+            headers: { ...config.headers, [headerName]: idempotencyKey },
+          }
+        : config;
+    const isQueueable = offlineQueue.isQueueable(config.data);
+
+    let cause: unknown;
+    if (!isQueueable || !offlineQueue.isOffline()) {
+      try {
+        return await this.executeRequest<T, D>(method, requestConfig);
+      } catch (error) {
+        if (
+          !isQueueable ||
+          !isRemoteRequestError(error, RemoteRequestErrorCode.NETWORK_ERROR)
+        ) {
+          throw error;
+        }
+        cause = error;
+      }
+    }
+
+    const mutation = await offlineQueue.enqueue(
+      method.toUpperCase() as Method,
+      requestConfig,
+      idempotencyKey
+    );
+    this._log(
+      `[RemoteRequestImpl] requestWithOfflineQueue :: 오프라인 대기열 저장 | ${mutation.method} ${mutation.url}`
+    );
+    throw new OfflineQueuedError(
+      "Request was queued for offline replay",
+      mutation,
+      { cause, url: config.url, method: config.method }
+    );
+  }
+
+  /**
+   * 대기열 재전송 전 토큰 재발급
+   * - 만료 시각을 알 수 있으면 만료 임박 여부로 판단
+   * - 알 수 없으면(WEB_COOKIE 모드 등) 가장 오래된 요청의 대기 시간이
+   *   refreshBeforeReplayAfterMs 이상일 때 재발급
+   *   (둘 다 해당하지 않으면 첫 재전송의 토큰 만료 응답으로 재발급되고, 이후 요청은 신규 토큰 사용)
+   */
+  private async refreshTokenBeforeReplay(
+    mutations: QueuedMutation[]
+  ): Promise<void> {
+    const expiresAt = await this.getAccessTokenExpiresAt();
+    let shouldRefresh: boolean;
+    if (expiresAt !== null) {
+      const refreshBeforeMs =
+        (this.tokenConfig.proactiveRefresh?.refreshBeforeExpirySeconds ?? 30) *
+        1000;
+      shouldRefresh = expiresAt - refreshBeforeMs <= Date.now();
+    } else {
+      const oldestCreatedAt = Math.min(
+        ...mutations.map((mutation) => mutation.createdAt)
+      );
+      shouldRefresh =
+        this.refreshBeforeReplayAfterMs !== undefined &&
+        Date.now() - oldestCreatedAt >= this.refreshBeforeReplayAfterMs;
+    }
+    if (!shouldRefresh) return;
+
+    this._log(
+      "[RemoteRequestImpl] refreshTokenBeforeReplay :: 대기열 재전송 전 토큰 재발급"
+    );
+    await this.refreshToken("proactive");
+  }
+
+  /**
+   * 멱등성 키 헤더를 붙일 요청인지 확인
+   * - 상대 경로와 authOrigins origin 요청
+   * - authOrigins 미설정 시 baseURL / 토큰 재발급 URL origin 요청
+   */
+  private isIdempotencyKeyTarget(url: string): boolean {
+    const origins =
+      this.authOrigins ??
+      [this.resolveUrl("/"), this.resolveUrl(this.tokenConfig.tokenReissueUrl)]
+        .map(getUrlOrigin)
+        .filter((origin): origin is string => origin !== null);
+    return isAuthOriginAllowed(this.resolveUrl(url), origins);
+  }
+
+  /**
+   * 대기열 항목을 재전송용 요청 설정으로 변환
+   * - 저장 시점의 요청별 옵션(encrypt, withAuth, timeout 등)을 그대로 복원
+   * - 멱등성 키 헤더는 저장된 헤더에 포함된 경우에만 전송
+   */
+  private toReplayConfig(mutation: QueuedMutation): RequestConfig {
+    return {
+      url: mutation.url,
+      method: mutation.method,
+      data: mutation.data,
+      params: mutation.params,
+      headers: mutation.headers,
+      priority: mutation.priority,
+      encrypt: mutation.encrypt,
+      withAuth: mutation.withAuth,
+      timeout: mutation.timeout,
+      responseType: mutation.responseType,
+      convertKeys: mutation.convertKeys,
+      offline: false,
+    };
+  }
+
+  /**
+   * 요청 헤더 값 조회 (대소문자 무시)
+   */
+  private findHeaderValue(
+    config: RequestOptions,
+    name: string
+  ): string | undefined {
+    const headers = (config.headers ?? {}) as Record<string, unknown>;
+    const key = Object.keys(headers).find(
+      (header) => header.toLowerCase() === name.toLowerCase()
+    );
+    const value = key ? headers[key] : undefined;
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
+  /**
+   * 브라우저 online 이벤트 발생 시 대기열 재전송
+   */
+  private listenOnlineEvent() {
+    if (typeof window === "undefined" || !window.addEventListener) return;
+    const onOnline = () => this.flushInBackground();
+    window.addEventListener("online", onOnline);
+    this.removeOnlineListener = () =>
+      window.removeEventListener("online", onOnline);
+  }
+
+  /**
+   * 대기열 재전송 (실패는 로그로만 남김)
+   */
+  private flushInBackground() {
+    this.flush().catch((error: unknown) =>
+      this._warn("[RemoteRequestImpl] flush :: 대기열 재전송 실패", error)
+    );
   }
 
   // MARK: - 토큰 재발급 API 호출
+  /**
+   * 토큰 재발급 요청 전송
+   * - 오프라인 대기열 / 캐시 / 중복 요청 병합 / 변경 후 캐시 무효화를 거치지 않도록 sendRequest로 직접 전송
+   * - 키 표기법 변환 / 암호화 / 재시도 정책 미적용 (재시도는 refreshPolicy가 담당)
+   * - 미들웨어는 인터셉터에서 isTokenReissueRequest로 제외
+   */
+  private sendTokenReissueRequest(
+    tokenReissueUrl: string,
+    data: unknown,
+    headers?: RequestOptions["headers"]
+  ): Promise<AxiosResponse> {
+    return this.sendRequest({
+      url: tokenReissueUrl,
+      method: "post",
+      data,
+      headers,
+      timeout: this.refreshPolicy.timeout,
+      convertKeys: false,
+      encrypt: false,
+      retry: false,
+    });
+  }
+
   /**
    * [쿠키 인증 방식] 토큰 재발급 API 호출
    * - 서버에서 쿠키 기반 세션 인증을 사용하는 경우 토큰 재발급 엔드포인트로 POST 요청을 보냄
@@ -404,7 +2519,7 @@ export class RemoteRequest implements RemoteRequestMethod {
     tokenReissueUrl: string
   ): Promise<void> {
     try {
-      await this.post(tokenReissueUrl, {});
+      await this.sendTokenReissueRequest(tokenReissueUrl, {});
       this._log("[RemoteRequestImpl] tokenReissue :: 토큰 재발급 성공");
     } catch (error) {
       this._error(
@@ -417,7 +2532,8 @@ export class RemoteRequest implements RemoteRequestMethod {
 
   /**
    * [스토리지 인증 방식] 토큰 재발급 API 호출
-   * - accessToken/refreshToken을 request body에 담아 토큰 재발급 엔드포인트로 POST 요청을 보냄
+   * - 현재 토큰을 request body(또는 refreshTokenHeader 설정 시 헤더)에 담아 토큰 재발급 엔드포인트로 POST 요청을 보냄
+   * - 응답은 tokenConfig.mapReissueResponse(기본값: response.data)로 신규 토큰으로 변환
    * @param tokenReissueUrl - 토큰 재발급 엔드포인트 URL
    * @param accessToken - 현재 accessToken (옵션)
    * @param refreshToken - 현재 refreshToken (옵션)
@@ -427,15 +2543,43 @@ export class RemoteRequest implements RemoteRequestMethod {
     tokenReissueUrl: string,
     accessToken: string,
     refreshToken: string
-  ): Promise<{ accessToken: string; refreshToken: string }> {
+  ): Promise<AuthTokens> {
+    const currentTokens: AuthTokens = { accessToken, refreshToken };
+    const headerConfig = this.tokenConfig.refreshTokenHeader;
+
+    const body = this.tokenConfig.buildReissueRequestBody
+      ? this.tokenConfig.buildReissueRequestBody(currentTokens)
+      : headerConfig
+      ? { accessToken }
+      : currentTokens;
+    const headers = headerConfig
+      ? { [headerConfig.name]: `${headerConfig.prefix ?? ""}${refreshToken}` }
+      : undefined;
+
     try {
-      const response = await this.post(tokenReissueUrl, {
-        accessToken: accessToken,
-        refreshToken: refreshToken,
-      });
+      // 재발급 실패 분류(일시적 실패 / 인증 거부)가 mapError 결과에 영향받지 않도록 내부 경로로 전송
+      const response = await this.sendTokenReissueRequest(
+        tokenReissueUrl,
+        body,
+        headers
+      );
+
+      const reissuedTokens = this.tokenConfig.mapReissueResponse
+        ? this.tokenConfig.mapReissueResponse(response)
+        : (response.data as AuthTokens | null);
+
+      if (!reissuedTokens || !reissuedTokens.accessToken) {
+        throw new TokenRefreshError(
+          "[RemoteRequestImpl] tokenReissue :: 재발급 응답에서 accessToken을 찾을 수 없습니다."
+        );
+      }
 
       this._log("[RemoteRequestImpl] tokenReissue :: 토큰 재발급 성공");
-      return response.data as { accessToken: string; refreshToken: string };
+      return {
+        accessToken: reissuedTokens.accessToken,
+        // refreshToken을 회전하지 않는 서버는 기존 refreshToken 유지
+        refreshToken: reissuedTokens.refreshToken || refreshToken,
+      };
     } catch (error) {
       this._error(
         "[RemoteRequestImpl] tokenReissue :: 토큰 재발급 실패",
@@ -449,19 +2593,35 @@ export class RemoteRequest implements RemoteRequestMethod {
   /**
    * 토큰 갱신 설정 파라미터 유효성 검사
    * @param tokenConfig - 토큰 갱신 설정 객체
+   * @param baseURL - 기본 URL (설정된 경우 tokenReissueUrl은 상대 경로 허용)
    */
-  private checkTokenRefreshConfigParams(tokenConfig: TokenRefreshConfig) {
+  private checkTokenRefreshConfigParams(
+    tokenConfig: TokenRefreshConfig,
+    baseURL?: string
+  ) {
+    if (!tokenConfig) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] tokenConfig is required"
+      );
+    }
     if (!tokenConfig.checkTokenExpiredError) {
-      throw new Error("checkTokenExpiredError is required");
+      throw new ConfigurationError("checkTokenExpiredError is required");
     }
 
+    // 절대 경로가 아닌 경우 baseURL 기준으로 https 여부 확인
+    const isAbsoluteReissueUrl = /^https?:\/\//.test(
+      tokenConfig.tokenReissueUrl ?? ""
+    );
+    const reissueUrlBase = isAbsoluteReissueUrl
+      ? tokenConfig.tokenReissueUrl
+      : baseURL ?? "";
     if (
       !tokenConfig.tokenReissueUrl ||
       tokenConfig.tokenReissueUrl === "" ||
-      !tokenConfig.tokenReissueUrl.includes("https")
+      !reissueUrlBase.includes("https")
     ) {
-      throw new Error(
-        "tokenReissueUrl은 빈 값이거나 없으면 안 되고, https가 포함되어야 합니다."
+      throw new ConfigurationError(
+        "tokenReissueUrl은 빈 값이거나 없으면 안 되고, https가 포함되어야 합니다. (상대 경로는 https baseURL 설정 시 허용)"
       );
     }
   }
@@ -473,32 +2633,53 @@ export class RemoteRequest implements RemoteRequestMethod {
   private checkEncryptionConfigParams(encryptionConfig: EncryptionConfig) {
     if (
       !encryptionConfig.encryptUrlStr &&
-      encryptionConfig.encryptUrlStr.includes("/")
+      (!encryptionConfig.rules || encryptionConfig.rules.length === 0)
     ) {
-      throw new Error(
-        "[RemoteRequestImpl] encryptUrlStr is required and must not contain '/'"
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] encryptUrlStr or rules is required"
+      );
+    }
+    const invalidRule = (encryptionConfig.rules ?? []).find(
+      (rule) => !rule.match
+    );
+    if (invalidRule) {
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] every encryption rule requires match"
       );
     }
     if (!encryptionConfig.requestInterceptor) {
-      throw new Error("[RemoteRequestImpl] requestInterceptor is required");
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] requestInterceptor is required"
+      );
     }
 
     if (!encryptionConfig.responseInterceptor) {
-      throw new Error("[RemoteRequestImpl] responseInterceptor is required");
+      throw new ConfigurationError(
+        "[RemoteRequestImpl] responseInterceptor is required"
+      );
     }
   }
 
   private checkTokenTransportConfigParams(config: TokenTransportConfig) {
     if (config.tokenTransportType === TokenTransportType.WEB_COOKIE) {
       if (config.fetchAuthTokenMethod) {
-        throw new Error(
+        throw new ConfigurationError(
           "[RemoteRequestImpl] fetchAuthTokenMethod is not Required In Web Cookie Mode"
         );
       }
+      // 쿠키 모드에서는 토큰을 읽을 수 없으므로 만료 시각 조회 함수가 필요
+      if (
+        this.tokenConfig.proactiveRefresh &&
+        !this.tokenConfig.proactiveRefresh.getAccessTokenExpiresAt
+      ) {
+        throw new ConfigurationError(
+          "[RemoteRequestImpl] proactiveRefresh.getAccessTokenExpiresAt is required In Web Cookie Mode"
+        );
+      }
     }
     if (config.tokenTransportType === TokenTransportType.STORAGE) {
       if (!config.fetchAuthTokenMethod) {
-        throw new Error(
+        throw new ConfigurationError(
           "[RemoteRequestImpl] fetchAuthTokenMethod is required In Storage Mode"
         );
       }
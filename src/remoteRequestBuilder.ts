@@ -0,0 +1,173 @@
+import type { RemoteRequest } from "./remoteRequest";
+import { CacheConfig } from "./types/cache-config";
+import { EncryptionConfig } from "./types/encryption-config";
+import { RemoteRequestAdapter, RequestHeaders } from "./types/http";
+import { KeyCaseConfig } from "./types/key-case";
+import { RemoteRequestHooks } from "./types/lifecycle-hooks";
+import { LogLevel, RemoteRequestLogger } from "./types/logger";
+import { OfflineQueueConfig } from "./types/offline-queue-config";
+import { RefreshCoordinationConfig } from "./types/refresh-coordination";
+import { RemoteRequestOptions } from "./types/remote-request-options";
+import { ResponseSchemaRule } from "./types/response-schema";
+import { RetryConfig } from "./types/retry-config";
+import { TokenRefreshConfig } from "./types/token-refresh-config";
+import { TokenTransportConfig } from "./types/token-trasport-config";
+import { Transport } from "./types/transport";
+
+/**
+ * @class RemoteRequestBuilder
+ * @description RemoteRequestOptions를 단계적으로 구성하는 빌더
+ * - `RemoteRequest.builder()`로 생성하며, `build()` 호출 시 옵션 유효성 검사 후 인스턴스 반환
+ */
+export class RemoteRequestBuilder {
+  private options: Partial<RemoteRequestOptions> = {};
+
+  constructor(
+    private readonly factory: (options: RemoteRequestOptions) => RemoteRequest
+  ) {}
+
+  tokenTransport(config: TokenTransportConfig): this {
+    this.options.tokenTransportConfig = config;
+    return this;
+  }
+
+  tokenRefresh(config: TokenRefreshConfig): this {
+    this.options.tokenConfig = config;
+    return this;
+  }
+
+  encryption(config: EncryptionConfig): this {
+    this.options.encryptionConfig = config;
+    return this;
+  }
+
+  removeConsole(removeConsole: boolean): this {
+    this.options.removeConsole = removeConsole;
+    return this;
+  }
+
+  /**
+   * 로거 및 최소 로그 레벨 설정
+   */
+  logger(logger: RemoteRequestLogger, logLevel?: LogLevel): this {
+    this.options.logger = logger;
+    this.options.logLevel = logLevel;
+    return this;
+  }
+
+  /**
+   * 라이프사이클 훅 설정 (여러 번 호출 시 병합)
+   */
+  hooks(hooks: RemoteRequestHooks): this {
+    this.options.hooks = { ...this.options.hooks, ...hooks };
+    return this;
+  }
+
+  onReissueTokenSuccess(
+    callback: RemoteRequestOptions["reissueTokenSuccessCallback"]
+  ): this {
+    this.options.reissueTokenSuccessCallback = callback;
+    return this;
+  }
+
+  onReissueTokenFailure(
+    callback: RemoteRequestOptions["reissueTokenFailureCallback"]
+  ): this {
+    this.options.reissueTokenFailureCallback = callback;
+    return this;
+  }
+
+  cancelOnReissueFailure(cancelOnReissueFailure: boolean): this {
+    this.options.cancelOnReissueFailure = cancelOnReissueFailure;
+    return this;
+  }
+
+  baseURL(baseURL: string): this {
+    this.options.baseURL = baseURL;
+    return this;
+  }
+
+  /**
+   * 기본 헤더 설정 (여러 번 호출 시 병합)
+   */
+  headers(headers: RequestHeaders): this {
+    this.options.headers = { ...this.options.headers, ...headers };
+    return this;
+  }
+
+  timeout(timeout: number): this {
+    this.options.timeout = timeout;
+    return this;
+  }
+
+  /**
+   * 기본 쿼리 파라미터 설정 (여러 번 호출 시 병합)
+   */
+  params(params: Record<string, unknown>): this {
+    this.options.params = { ...this.options.params, ...params };
+    return this;
+  }
+
+  retry(retry: RetryConfig): this {
+    this.options.retry = retry;
+    return this;
+  }
+
+  cache(cache: CacheConfig): this {
+    this.options.cache = cache;
+    return this;
+  }
+
+  adapter(adapter: RemoteRequestAdapter): this {
+    this.options.adapter = adapter;
+    return this;
+  }
+
+  transport(transport: Transport): this {
+    this.options.transport = transport;
+    return this;
+  }
+
+  dedupe(dedupe: boolean): this {
+    this.options.dedupe = dedupe;
+    return this;
+  }
+
+  maxConcurrentRequests(maxConcurrentRequests: number): this {
+    this.options.maxConcurrentRequests = maxConcurrentRequests;
+    return this;
+  }
+
+  maxReplayBodySize(maxReplayBodySize: number): this {
+    this.options.maxReplayBodySize = maxReplayBodySize;
+    return this;
+  }
+
+  responseSchemas(rules: ResponseSchemaRule[]): this {
+    this.options.responseSchemas = rules;
+    return this;
+  }
+
+  keyCase(config: KeyCaseConfig): this {
+    this.options.keyCase = config;
+    return this;
+  }
+
+  refreshCoordination(refreshCoordination: RefreshCoordinationConfig): this {
+    this.options.refreshCoordination = refreshCoordination;
+    return this;
+  }
+
+  offlineQueue(offlineQueue: OfflineQueueConfig): this {
+    this.options.offlineQueue = offlineQueue;
+    return this;
+  }
+
+  /**
+   * RemoteRequest 인스턴스 생성
+   * - 필수 설정 누락 및 설정값 검증은 RemoteRequest 생성자에서 수행
+   */
+  build(): RemoteRequest {
+    return this.factory({ ...this.options } as RemoteRequestOptions);
+  }
+}
@@ -1,59 +1,101 @@
-import { AxiosResponse } from "axios";
+import { RemoteResponse } from "./types/remote-response";
+import { RequestConfig, RequestOptions } from "./types/request-options";
 
 /**
  * @interface RemoteRequestMethod
  * @description HTTP 요청 메서드들을 정의하는 인터페이스
+ * - T: 응답 본문 타입 (요청 옵션에 schema 지정 시 스키마에서 추론), D: 요청 본문 타입
  */
 export interface RemoteRequestMethod {
+  /**
+   * 임의의 요청을 보냅니다
+   * @param {RequestConfig<D, T>} config - 요청 설정 (url, method, data 및 요청 옵션)
+   * @returns {Promise<RemoteResponse<T, D>>} HTTP 응답
+   */
+  request<T = unknown, D = unknown>(
+    config: RequestConfig<D, T>
+  ): Promise<RemoteResponse<T, D>>;
+
   /**
    * POST 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @param {unknown} [data] - 요청 본문 데이터
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {D} [data] - 요청 본문 데이터
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T, D>>} HTTP 응답
    */
-  post(url: string, data?: unknown): Promise<AxiosResponse>;
+  post<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>>;
 
   /**
    * PUT 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @param {unknown} [data] - 요청 본문 데이터
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {D} [data] - 요청 본문 데이터
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T, D>>} HTTP 응답
    */
-  put(url: string, data?: unknown): Promise<AxiosResponse>;
+  put<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>>;
 
   /**
    * GET 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T>>} HTTP 응답
    */
-  get(url: string): Promise<AxiosResponse>;
+  get<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>>;
 
   /**
    * DELETE 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T>>} HTTP 응답
    */
-  delete(url: string): Promise<AxiosResponse>;
+  delete<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>>;
 
   /**
    * PATCH 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @param {unknown} [data] - 요청 본문 데이터
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {D} [data] - 요청 본문 데이터
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T, D>>} HTTP 응답
    */
-  patch(url: string, data?: unknown): Promise<AxiosResponse>;
+  patch<T = unknown, D = unknown>(
+    url: string,
+    data?: D,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T, D>>;
 
   /**
    * HEAD 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T>>} HTTP 응답
    */
-  head(url: string): Promise<AxiosResponse>;
+  head<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>>;
 
   /**
    * OPTIONS 요청을 보냅니다
    * @param {string} url - 요청 URL
-   * @returns {Promise<AxiosResponse>} HTTP 응답
+   * @param {RequestOptions} [options] - 요청 옵션
+   * @returns {Promise<RemoteResponse<T>>} HTTP 응답
    */
-  options(url: string): Promise<AxiosResponse>;
+  options<T = unknown>(
+    url: string,
+    options?: RequestOptions<T>
+  ): Promise<RemoteResponse<T>>;
 }
@@ -0,0 +1,90 @@
+import { CancelledError } from "../errors/remote-request-error";
+import { RequestPriority } from "../types/request-priority";
+
+/**
+ * 슬롯 대기 중인 요청
+ */
+interface PendingSlot {
+  priority: RequestPriority;
+  sequence: number;
+  resolve: () => void;
+}
+
+/**
+ * @class RequestScheduler
+ * @description 동시 요청 수 제한 및 우선순위 대기열
+ * - acquire로 슬롯을 얻고, 요청 종료 시 반드시 release로 반환
+ * - 같은 우선순위 안에서는 먼저 대기한 요청부터 처리
+ */
+export class RequestScheduler {
+  private activeCount: number = 0;
+  private sequence: number = 0;
+  private pending: PendingSlot[] = [];
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  get active(): number {
+    return this.activeCount;
+  }
+
+  get waiting(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * 슬롯 획득 (빈 슬롯이 없으면 우선순위에 따라 대기)
+   * @param priority - 요청 우선순위
+   * @param signal - 대기 중 취소용 signal (취소 시 CancelledError)
+   */
+  acquire(
+    priority: RequestPriority = RequestPriority.NORMAL,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError("Request was cancelled"));
+    }
+    if (this.activeCount < this.maxConcurrent) {
+      this.activeCount++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.pending.indexOf(slot);
+        if (index !== -1) this.pending.splice(index, 1);
+        reject(new CancelledError("Request was cancelled"));
+      };
+      const slot: PendingSlot = {
+        priority,
+        sequence: this.sequence++,
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // 우선순위 -> 대기 순서로 정렬된 위치에 삽입
+      const index = this.pending.findIndex(
+        (pendingSlot) =>
+          pendingSlot.priority > slot.priority ||
+          (pendingSlot.priority === slot.priority &&
+            pendingSlot.sequence > slot.sequence)
+      );
+      if (index === -1) this.pending.push(slot);
+      else this.pending.splice(index, 0, slot);
+    });
+  }
+
+  /**
+   * 슬롯 반환 (대기 중인 요청이 있으면 슬롯을 바로 넘김)
+   */
+  release(): void {
+    const next = this.pending.shift();
+    if (next) {
+      next.resolve();
+      return;
+    }
+    this.activeCount = Math.max(0, this.activeCount - 1);
+  }
+}
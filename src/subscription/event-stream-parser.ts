@@ -0,0 +1,95 @@
+import { SubscriptionEvent } from "../types/subscription";
+
+/**
+ * @class EventStreamParser
+ * @description text/event-stream 본문 파서 (WHATWG Server-Sent Events 규격)
+ * - 조각 단위로 전달된 문자열을 이어 붙여 빈 줄마다 이벤트 하나를 만듦
+ * - 줄바꿈은 CRLF / LF / CR 모두 지원, `:`로 시작하는 줄은 주석(heartbeat)으로 무시
+ * - id 필드는 이후 이벤트에도 유지되며, retry 필드는 reconnectDelay에 반영
+ */
+export class EventStreamParser {
+  /** 마지막 id 필드 값 */
+  lastEventId: string | undefined;
+  /** 서버가 retry 필드로 지정한 재연결 지연(ms) */
+  reconnectDelay: number | undefined;
+
+  private buffer: string = "";
+  private isFirstChunk: boolean = true;
+  private eventType: string = "";
+  private dataLines: string[] = [];
+
+  constructor(lastEventId?: string) {
+    this.lastEventId = lastEventId;
+  }
+
+  /**
+   * 본문 조각 처리
+   * @param chunk - 디코딩된 본문 조각
+   * @returns 조각으로 완성된 이벤트 목록
+   */
+  push(chunk: string): SubscriptionEvent[] {
+    let text = this.buffer + chunk;
+    if (this.isFirstChunk && text.length > 0) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    const events: SubscriptionEvent[] = [];
+    let start = 0;
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (char !== "\n" && char !== "\r") continue;
+      // 조각 끝의 CR은 다음 조각의 LF와 이어질 수 있으므로 보류
+      if (char === "\r" && index === text.length - 1) break;
+
+      const event = this.processLine(text.slice(start, index));
+      if (event) events.push(event);
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      start = index + 1;
+    }
+    this.buffer = text.slice(start);
+    return events;
+  }
+
+  /**
+   * 한 줄 처리 (빈 줄이면 이벤트 완성)
+   */
+  private processLine(line: string): SubscriptionEvent | null {
+    if (line === "") return this.dispatch();
+    if (line[0] === ":") return null;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value[0] === " ") value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "id":
+        if (value.indexOf("\0") === -1) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.reconnectDelay = Number(value);
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SubscriptionEvent | null {
+    const dataLines = this.dataLines;
+    const eventType = this.eventType;
+    this.dataLines = [];
+    this.eventType = "";
+    if (dataLines.length === 0) return null;
+    return {
+      id: this.lastEventId,
+      event: eventType || "message",
+      data: dataLines.join("\n"),
+    };
+  }
+}
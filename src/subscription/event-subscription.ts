@@ -0,0 +1,449 @@
+import {
+  ConfigurationError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+} from "../errors/remote-request-error";
+import { isTransientRefreshError } from "../refresh/refresh-policy";
+import { RemoteRequestMethod } from "../remoteRequestMehtodType";
+import { RequestConfig } from "../types/request-options";
+import {
+  ReconnectConfig,
+  Subscription,
+  SubscriptionEvent,
+  SubscriptionOptions,
+  SubscriptionState,
+} from "../types/subscription";
+import { formatSchemaPath, validateWithSchema } from "../utils/response-schema";
+import { computeRetryDelay, DEFAULT_RETRY_CONFIG } from "../utils/retry";
+import { readStreamBody } from "../utils/stream";
+import { EventStreamParser } from "./event-stream-parser";
+
+const DEFAULT_RECONNECT_CONFIG: Required<ReconnectConfig> = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  maxAttempts: Infinity,
+  jitter: true,
+};
+
+/**
+ * 연결 한 번의 결과
+ *  - ended: SSE 스트림 종료 (재연결)
+ *  - polled: long-polling 응답 처리 완료 (바로 다음 요청)
+ *  - fallback: long-polling으로 전환 (바로 다음 요청)
+ *  - done: 서버가 204로 구독 종료 요청
+ */
+type ConnectionResult = "ended" | "polled" | "fallback" | "done";
+
+/**
+ * 기본 데이터 파싱 (문자열이면 JSON 파싱, 실패 시 문자열 그대로)
+ */
+function parseEventData(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * 기본 long-polling 응답 변환
+ * - 빈 응답은 이벤트 없음, 배열이면 각 항목, 객체면 한 항목
+ * - data 속성이 있는 항목은 { id, event, data }로 간주
+ */
+function parsePollResponseData(data: unknown): SubscriptionEvent[] {
+  if (data === undefined || data === null || data === "") return [];
+  const items: unknown[] = Array.isArray(data) ? data : [data];
+  return items.map((item) =>
+    typeof item === "object" && item !== null && "data" in item
+      ? (item as SubscriptionEvent)
+      : { data: item }
+  );
+}
+
+/**
+ * @class EventSubscription
+ * @description SSE / long-polling 구독
+ * - 연결 요청은 client.request로 보내므로 인증 헤더 / 쿠키 인증 / 토큰 만료 시 공유 재발급 후 재요청이 그대로 적용
+ * - 재연결 시 마지막 이벤트 ID를 Last-Event-ID 헤더(및 lastEventIdParam 쿼리)로 전달
+ * - 일시적 실패(네트워크 오류 / 타임아웃 / 408 / 429 / 5xx)는 지수 백오프로 재연결, 그 외 에러는 구독 종료
+ */
+export class EventSubscription<T> implements Subscription {
+  private _state: SubscriptionState = "connecting";
+  private _transport: "sse" | "long-polling";
+  private _lastEventId: string | undefined;
+
+  private readonly reconnectConfig: Required<ReconnectConfig> | null;
+  private readonly requestOptions: Omit<
+    RequestConfig<unknown>,
+    "url" | "method"
+  >;
+  private readonly removeAbortListener: () => void;
+  private controller: AbortController | null = null;
+  private cancelStream: (() => void) | null = null;
+  private wakeUp: (() => void) | null = null;
+  private failures: number = 0;
+  private serverReconnectDelay: number | undefined;
+
+  /**
+   * @param client - 연결 요청에 사용할 클라이언트
+   * @param url - 구독 URL
+   * @param options - 구독 옵션
+   * @param onClose - 구독 종료 시 호출 (클라이언트의 구독 목록 정리용)
+   */
+  constructor(
+    private readonly client: RemoteRequestMethod,
+    private readonly url: string,
+    private readonly options: SubscriptionOptions<T>,
+    private readonly onClose?: () => void
+  ) {
+    const {
+      transport,
+      pollUrl,
+      lastEventId,
+      lastEventIdParam,
+      heartbeatTimeout,
+      reconnect,
+      parse,
+      schema,
+      parsePollResponse,
+      onMessage,
+      onOpen,
+      onError,
+      onStateChange,
+      signal,
+      ...requestOptions
+    } = options;
+    this.requestOptions = requestOptions;
+    this._transport = transport === "long-polling" ? "long-polling" : "sse";
+    this._lastEventId = lastEventId;
+    this.reconnectConfig =
+      reconnect === false
+        ? null
+        : { ...DEFAULT_RECONNECT_CONFIG, ...reconnect };
+
+    const abort = () => this.close();
+    signal?.addEventListener("abort", abort);
+    this.removeAbortListener = () =>
+      signal?.removeEventListener("abort", abort);
+    if (signal?.aborted) {
+      this.close();
+      return;
+    }
+
+    this.run().catch((error) => {
+      this.options.onError?.(error);
+      this.close();
+    });
+  }
+
+  get state(): SubscriptionState {
+    return this._state;
+  }
+
+  get transport(): "sse" | "long-polling" {
+    return this._transport;
+  }
+
+  get lastEventId(): string | undefined {
+    return this._lastEventId;
+  }
+
+  private get isClosed(): boolean {
+    return this._state === "closed";
+  }
+
+  /**
+   * 구독 종료 (진행 중인 요청 / 스트림 / 재연결 대기 중단)
+   */
+  close(): void {
+    if (this.isClosed) return;
+    this.setState("closed");
+    this.controller?.abort();
+    this.cancelStream?.();
+    this.wakeUp?.();
+    this.removeAbortListener();
+    this.onClose?.();
+  }
+
+  // MARK: - 연결 반복
+  private async run(): Promise<void> {
+    while (!this.isClosed) {
+      let delay: number;
+      try {
+        const result =
+          this._transport === "sse"
+            ? await this.streamEvents()
+            : await this.pollEvents();
+        if (this.isClosed) return;
+        if (
+          result === "done" ||
+          (result === "ended" && !this.reconnectConfig)
+        ) {
+          this.close();
+          return;
+        }
+        if (result === "ended") {
+          this.setState("reconnecting");
+          delay = this.getReconnectDelay(1);
+        } else {
+          delay = 0;
+        }
+      } catch (error) {
+        if (this.isClosed) return;
+        const canReconnect =
+          !!this.reconnectConfig &&
+          this.failures < this.reconnectConfig.maxAttempts &&
+          isTransientRefreshError(error);
+        this.options.onError?.(error);
+        if (!canReconnect) {
+          this.close();
+          return;
+        }
+        this.failures++;
+        this.setState("reconnecting");
+        delay = this.getReconnectDelay(this.failures);
+      }
+      if (delay > 0) await this.wait(delay);
+    }
+  }
+
+  /**
+   * SSE 연결 후 스트림이 끝날 때까지 이벤트 수신
+   */
+  private async streamEvents(): Promise<ConnectionResult> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const response = await this.client.request<unknown>({
+      ...this.requestOptions,
+      url: this.url,
+      method: "get",
+      headers: {
+        Accept: "text/event-stream",
+        "Cache-Control": "no-cache",
+        ...this.requestOptions.headers,
+        ...this.getLastEventIdHeader(),
+      },
+      params: this.getParams(),
+      signal: controller.signal,
+      responseType: "stream",
+      timeout: this.options.heartbeatTimeout ?? 0,
+      encrypt: false,
+      convertKeys: false,
+      schema: false,
+      cache: false,
+      dedupe: false,
+      retry: false,
+      offline: false,
+    });
+    const errorOptions = { url: this.url, method: "get" };
+    const discardBody = () => readStreamBody(response.data, () => {})?.cancel();
+
+    if (this.isClosed) {
+      discardBody();
+      return "ended";
+    }
+    if (response.status === 204) {
+      discardBody();
+      return "done";
+    }
+
+    const decoder = new TextDecoder();
+    const parser = new EventStreamParser(this._lastEventId);
+    const heartbeatTimeout = this.options.heartbeatTimeout;
+    let heartbeat: ReturnType<typeof setTimeout> | undefined;
+    let isTimedOut = false;
+    let delivery: Promise<void> = Promise.resolve();
+    const resetHeartbeat = () => {
+      if (!heartbeatTimeout) return;
+      if (heartbeat !== undefined) clearTimeout(heartbeat);
+      heartbeat = setTimeout(() => {
+        isTimedOut = true;
+        reader?.cancel();
+      }, heartbeatTimeout);
+    };
+
+    const contentType = String(response.headers["content-type"] ?? "");
+    const reader =
+      contentType.indexOf("text/event-stream") === -1
+        ? null
+        : readStreamBody(response.data, (chunk) => {
+            resetHeartbeat();
+            const events = parser.push(
+              typeof chunk === "string"
+                ? chunk
+                : decoder.decode(chunk, { stream: true })
+            );
+            this._lastEventId = parser.lastEventId;
+            this.serverReconnectDelay = parser.reconnectDelay;
+            events.forEach((event) => {
+              delivery = delivery.then(() => this.deliver(event));
+            });
+          });
+
+    if (!reader) {
+      discardBody();
+      if (this.options.transport === "auto") {
+        this._transport = "long-polling";
+        return "fallback";
+      }
+      throw new ConfigurationError(
+        `[RemoteRequestImpl] subscribe :: expected a text/event-stream streaming response (content-type: ${
+          contentType || "none"
+        })`,
+        errorOptions
+      );
+    }
+
+    this.cancelStream = reader.cancel;
+    this.markOpen();
+    resetHeartbeat();
+    try {
+      await reader.done;
+    } catch (error) {
+      if (this.isClosed) return "ended";
+      throw new NetworkError(
+        error instanceof Error ? error.message : "Event stream failed",
+        { ...errorOptions, cause: error }
+      );
+    } finally {
+      if (heartbeat !== undefined) clearTimeout(heartbeat);
+      this.cancelStream = null;
+      await delivery;
+    }
+    if (isTimedOut && !this.isClosed) {
+      throw new TimeoutError(
+        `no event stream data for ${heartbeatTimeout}ms`,
+        errorOptions
+      );
+    }
+    return "ended";
+  }
+
+  /**
+   * long-polling 요청 한 번 처리
+   */
+  private async pollEvents(): Promise<ConnectionResult> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const response = await this.client.request<unknown>({
+      ...this.requestOptions,
+      url: this.options.pollUrl ?? this.url,
+      method: "get",
+      headers: {
+        Accept: "application/json",
+        ...this.requestOptions.headers,
+        ...this.getLastEventIdHeader(),
+      },
+      params: this.getParams(),
+      signal: controller.signal,
+      schema: false,
+      cache: false,
+      dedupe: false,
+      retry: false,
+      offline: false,
+    });
+    if (this.isClosed) return "polled";
+
+    this.markOpen();
+    const parsePollResponse =
+      this.options.parsePollResponse ?? parsePollResponseData;
+    const events =
+      response.status === 204 ? [] : parsePollResponse(response.data);
+    for (const event of events) {
+      if (event.id !== undefined) this._lastEventId = event.id;
+      await this.deliver(event);
+    }
+    return "polled";
+  }
+
+  // MARK: - 메시지 전달
+  /**
+   * 이벤트 데이터를 파싱 / 검증하여 onMessage로 전달
+   * - 파싱 / 검증 / onMessage 실패는 onError로 전달하고 연결은 유지
+   */
+  private async deliver(event: SubscriptionEvent): Promise<void> {
+    if (this.isClosed) return;
+    const type = event.event ?? "message";
+    try {
+      const parsed = this.options.parse
+        ? this.options.parse(event.data, type)
+        : (parseEventData(event.data) as T);
+      const data = this.options.schema ? await this.validate(parsed) : parsed;
+      if (this.isClosed) return;
+      this.options.onMessage({ id: event.id, event: type, data });
+    } catch (error) {
+      this.options.onError?.(error);
+    }
+  }
+
+  private async validate(value: unknown): Promise<T> {
+    const result = await validateWithSchema(this.options.schema!, value);
+    if (result.success) return result.data;
+    throw new ValidationError(
+      result.issues.map((issue) => ({
+        path: formatSchemaPath(issue),
+        message: issue.message,
+      })),
+      value,
+      { url: this.url, method: "get" }
+    );
+  }
+
+  // MARK: - 상태 / 재연결
+  private markOpen() {
+    if (this._state === "open") return;
+    this.failures = 0;
+    this.setState("open");
+    this.options.onOpen?.();
+  }
+
+  private setState(state: SubscriptionState) {
+    if (this._state === state) return;
+    this._state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  /**
+   * 재연결 지연(ms) 계산 (SSE retry 필드가 있으면 기준 지연으로 사용)
+   * @param attempt - 연속 재연결 회차 (1부터 시작)
+   */
+  private getReconnectDelay(attempt: number): number {
+    const config = this.reconnectConfig ?? DEFAULT_RECONNECT_CONFIG;
+    return computeRetryDelay(attempt, {
+      ...DEFAULT_RETRY_CONFIG,
+      baseDelay: this.serverReconnectDelay ?? config.initialDelay,
+      maxDelay: config.maxDelay,
+      jitter: config.jitter,
+      respectRetryAfter: false,
+    });
+  }
+
+  /**
+   * 재연결 대기 (close 시 즉시 종료)
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  private getLastEventIdHeader(): Record<string, string> {
+    return this._lastEventId ? { "Last-Event-ID": this._lastEventId } : {};
+  }
+
+  private getParams(): Record<string, unknown> | undefined {
+    const param = this.options.lastEventIdParam;
+    if (!param || !this._lastEventId) return this.requestOptions.params;
+    return { ...this.requestOptions.params, [param]: this._lastEventId };
+  }
+}
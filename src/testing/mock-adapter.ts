@@ -0,0 +1,410 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+import { RemoteRequestAdapter } from "../types/http";
+import { RemoteRequestConfig } from "../types/remote-response";
+import { getUrlPath } from "../utils/encryption-rule";
+
+/**
+ * @type MockUrlMatcher
+ * @description 요청 URL 매칭 조건
+ *  - string: 요청 url, 전체 URL(쿼리 제외), 경로 중 하나와 일치
+ *  - RegExp: 전체 URL(쿼리 포함)에 대해 검사
+ *  - Function: 기록된 요청으로 직접 판단
+ */
+export type MockUrlMatcher =
+  | string
+  | RegExp
+  | ((request: MockRequestRecord) => boolean);
+
+/**
+ * @interface MockRequestRecord
+ * @description 어댑터가 받은 요청 기록 (검증용)
+ * @property {string} method - 대문자 HTTP 메서드
+ * @property {string} url - 요청 설정의 url
+ * @property {string} fullUrl - baseURL과 쿼리 파라미터를 반영한 전체 URL
+ * @property {Record<string, string>} headers - 최종 요청 헤더 (인증 / 암호화 인터셉터 적용 이후)
+ * @property {Record<string, unknown>} [params] - 쿼리 파라미터
+ * @property {unknown} [data] - 요청 본문 (JSON 문자열이면 파싱한 값)
+ * @property {number} timestamp - 요청 수신 시각(epoch ms)
+ * @property {RemoteRequestConfig} config - 어댑터가 받은 최종 요청 설정
+ */
+export interface MockRequestRecord {
+  method: string;
+  url: string;
+  fullUrl: string;
+  headers: Record<string, string>;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  timestamp: number;
+  config: RemoteRequestConfig;
+}
+
+/**
+ * @interface MockResponse
+ * @description 스크립트된 응답
+ * @property {number} status - HTTP 상태 코드
+ * @property {unknown} [data] - 응답 본문
+ * @property {Record<string, string | string[]>} [headers] - 응답 헤더
+ * @property {number} [delay] - 응답 지연 시간(ms)
+ */
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+  headers?: Record<string, string | string[]>;
+  delay?: number;
+}
+
+/**
+ * @type MockReply
+ * @description 라우트 응답 방식 (고정 응답, 요청 기반 응답 함수, 네트워크 오류, 타임아웃)
+ */
+export type MockReply =
+  | { type: "response"; response: MockResponse }
+  | {
+      type: "handler";
+      handler: (
+        request: MockRequestRecord
+      ) => MockResponse | Promise<MockResponse>;
+    }
+  | { type: "networkError"; delay?: number }
+  | { type: "timeout"; delay?: number };
+
+/**
+ * @class MockRoute
+ * @description 메서드 + URL 조건에 대한 응답 스크립트
+ * - `*Once` 응답은 등록 순서대로 한 번씩 사용하고, 모두 소진되면 고정 응답 사용
+ * - 고정 응답도 없으면 다음 라우트로 넘어감
+ */
+export class MockRoute {
+  private readonly onceReplies: MockReply[] = [];
+  private persistentReply: MockReply | null = null;
+
+  constructor(
+    private readonly method: string | null,
+    private readonly matcher: MockUrlMatcher | null
+  ) {}
+
+  reply(
+    status: number,
+    data?: unknown,
+    headers?: Record<string, string | string[]>
+  ): this {
+    this.persistentReply = {
+      type: "response",
+      response: { status, data, headers },
+    };
+    return this;
+  }
+
+  replyOnce(
+    status: number,
+    data?: unknown,
+    headers?: Record<string, string | string[]>
+  ): this {
+    this.onceReplies.push({
+      type: "response",
+      response: { status, data, headers },
+    });
+    return this;
+  }
+
+  replyWith(
+    handler: (
+      request: MockRequestRecord
+    ) => MockResponse | Promise<MockResponse>
+  ): this {
+    this.persistentReply = { type: "handler", handler };
+    return this;
+  }
+
+  replyWithOnce(
+    handler: (
+      request: MockRequestRecord
+    ) => MockResponse | Promise<MockResponse>
+  ): this {
+    this.onceReplies.push({ type: "handler", handler });
+    return this;
+  }
+
+  networkError(): this {
+    this.persistentReply = { type: "networkError" };
+    return this;
+  }
+
+  networkErrorOnce(): this {
+    this.onceReplies.push({ type: "networkError" });
+    return this;
+  }
+
+  timeout(): this {
+    this.persistentReply = { type: "timeout" };
+    return this;
+  }
+
+  timeoutOnce(): this {
+    this.onceReplies.push({ type: "timeout" });
+    return this;
+  }
+
+  /**
+   * 요청이 이 라우트에 해당하는지 확인
+   */
+  matches(request: MockRequestRecord): boolean {
+    if (this.method && this.method !== request.method) return false;
+    if (this.matcher === null) return true;
+    if (typeof this.matcher === "function") return this.matcher(request);
+    if (this.matcher instanceof RegExp)
+      return this.matcher.test(request.fullUrl);
+    return (
+      this.matcher === request.url ||
+      this.matcher === request.fullUrl.split("?")[0] ||
+      this.matcher === getUrlPath(request.fullUrl)
+    );
+  }
+
+  /**
+   * 다음 응답 꺼내기 (남은 응답이 없으면 null)
+   */
+  takeReply(): MockReply | null {
+    return this.onceReplies.shift() ?? this.persistentReply;
+  }
+}
+
+/**
+ * @interface MockAdapterOptions
+ * @description MockAdapter 설정
+ * @property {number} [delay] - 모든 응답의 기본 지연 시간(ms) (기본값: 0)
+ * @property {MockResponse} [unmatchedResponse] - 일치하는 라우트가 없을 때의 응답 (기본값: 404)
+ */
+export interface MockAdapterOptions {
+  delay?: number;
+  unmatchedResponse?: MockResponse;
+}
+
+/**
+ * @class MockAdapter
+ * @description RemoteRequest에 주입하는 테스트용 axios 어댑터
+ * - 인증 헤더 / 암호화 / 토큰 재발급 인터셉터는 그대로 실행되고 네트워크 전송만 대체
+ * - 라우트는 등록 순서대로 검사하며, 처음으로 응답이 남아 있는 라우트가 응답
+ *
+ * @example
+ * const mock = new MockAdapter();
+ * mock.onGet("/users").replyOnce(401).reply(200, [{ id: 1 }]);
+ * mock.onPost("/auth/reissue").reply(200, { accessToken: "a", refreshToken: "r" });
+ * const client = new RemoteRequest({ ..., adapter: mock.adapter });
+ * await client.get("/users");
+ * expect(mock.history.map((request) => request.url)).toEqual(["/users", "/auth/reissue", "/users"]);
+ */
+export class MockAdapter {
+  private routes: MockRoute[] = [];
+  private records: MockRequestRecord[] = [];
+  private readonly delay: number;
+  private readonly unmatchedResponse: MockResponse;
+
+  constructor(options: MockAdapterOptions = {}) {
+    this.delay = options.delay ?? 0;
+    this.unmatchedResponse = options.unmatchedResponse ?? {
+      status: 404,
+      data: { message: "No mock route matched" },
+    };
+  }
+
+  /**
+   * RemoteRequestOptions.adapter에 전달할 어댑터
+   */
+  readonly adapter: RemoteRequestAdapter = (
+    config: InternalAxiosRequestConfig
+  ) => this.handle(config);
+
+  /**
+   * 기록된 요청 목록 (요청 순서)
+   */
+  get history(): MockRequestRecord[] {
+    return this.records.slice();
+  }
+
+  onGet(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("GET", matcher);
+  }
+
+  onPost(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("POST", matcher);
+  }
+
+  onPut(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("PUT", matcher);
+  }
+
+  onPatch(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("PATCH", matcher);
+  }
+
+  onDelete(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("DELETE", matcher);
+  }
+
+  onHead(matcher?: MockUrlMatcher): MockRoute {
+    return this.on("HEAD", matcher);
+  }
+
+  onAny(matcher?: MockUrlMatcher): MockRoute {
+    return this.on(null, matcher);
+  }
+
+  /**
+   * 조건에 맞는 기록된 요청 조회
+   */
+  findRequests(method: string, matcher?: MockUrlMatcher): MockRequestRecord[] {
+    const route = new MockRoute(method.toUpperCase(), matcher ?? null);
+    return this.records.filter((record) => route.matches(record));
+  }
+
+  resetHistory(): void {
+    this.records = [];
+  }
+
+  /**
+   * 라우트와 요청 기록 모두 초기화
+   */
+  reset(): void {
+    this.routes = [];
+    this.records = [];
+  }
+
+  private on(method: string | null, matcher?: MockUrlMatcher): MockRoute {
+    const route = new MockRoute(method, matcher ?? null);
+    this.routes.push(route);
+    return route;
+  }
+
+  private async handle(
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const request = this.toRecord(config);
+    this.records.push(request);
+
+    let reply: MockReply | null = null;
+    for (const route of this.routes) {
+      if (!route.matches(request)) continue;
+      reply = route.takeReply();
+      if (reply) break;
+    }
+    reply = reply ?? { type: "response", response: this.unmatchedResponse };
+
+    if (reply.type === "networkError" || reply.type === "timeout") {
+      await this.wait(reply.delay ?? this.delay, config);
+      throw reply.type === "timeout"
+        ? new AxiosError(
+            `timeout of ${config.timeout ?? 0}ms exceeded`,
+            AxiosError.ECONNABORTED,
+            config
+          )
+        : new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+    }
+
+    const mockResponse =
+      reply.type === "handler" ? await reply.handler(request) : reply.response;
+    await this.wait(mockResponse.delay ?? this.delay, config);
+
+    const response: AxiosResponse = {
+      data: mockResponse.data,
+      status: mockResponse.status,
+      statusText: String(mockResponse.status),
+      headers: AxiosHeaders.from(
+        (mockResponse.headers ?? {}) as Record<string, string>
+      ),
+      config,
+    };
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response
+    );
+  }
+
+  /**
+   * 응답 지연 (요청 signal이 중단되면 CanceledError)
+   */
+  private wait(delay: number, config: InternalAxiosRequestConfig) {
+    const signal = config.signal as AbortSignal | undefined;
+    // 실제 어댑터처럼 요청 설정을 담아야 토큰 재발급 / 재시도 처리에서 취소로 분류됨
+    const createCanceledError = () => {
+      const error = new CanceledError();
+      error.config = config;
+      return error;
+    };
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createCanceledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(createCanceledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener?.("abort", onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener?.("abort", onAbort, { once: true });
+    });
+  }
+
+  private toRecord(config: InternalAxiosRequestConfig): MockRequestRecord {
+    let data: unknown = config.data;
+    if (typeof data === "string") {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        // JSON이 아닌 본문은 그대로 기록
+      }
+    }
+    return {
+      method: (config.method ?? "get").toUpperCase(),
+      url: config.url ?? "",
+      fullUrl: this.toFullUrl(config),
+      headers: AxiosHeaders.from(config.headers).toJSON(true) as Record<
+        string,
+        string
+      >,
+      params: config.params,
+      data,
+      timestamp: Date.now(),
+      config,
+    };
+  }
+
+  private toFullUrl(config: InternalAxiosRequestConfig): string {
+    const url = config.url ?? "";
+    const baseURL = config.baseURL;
+    const fullPath =
+      !baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)
+        ? url
+        : `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+    const query = config.params
+      ? Object.keys(config.params)
+          .filter((key) => config.params[key] !== undefined)
+          .map(
+            (key) =>
+              `${encodeURIComponent(key)}=${encodeURIComponent(
+                String(config.params[key])
+              )}`
+          )
+          .join("&")
+      : "";
+    if (!query) return fullPath;
+    return `${fullPath}${fullPath.includes("?") ? "&" : "?"}${query}`;
+  }
+}
@@ -0,0 +1,52 @@
+import axios, { AxiosHeaders, AxiosInstance } from "axios";
+
+import { toRemoteRequestError } from "../errors/normalize-error";
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../types/transport";
+
+/**
+ * @class AxiosTransport
+ * @description axios 기본 어댑터(XHR / Node http)로 요청을 전송하는 Transport
+ * - 본문 직렬화와 JSON 파싱은 RemoteRequest에서 수행하므로 변환 없이 전송
+ */
+export class AxiosTransport implements Transport {
+  private readonly instance: AxiosInstance;
+
+  constructor() {
+    this.instance = axios.create({
+      transformRequest: [(data) => data],
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+    });
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const response = await this.instance.request({
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeout,
+        signal: request.signal,
+        responseType: request.responseType,
+        withCredentials: request.withCredentials,
+        onUploadProgress: request.onUploadProgress,
+        onDownloadProgress: request.onDownloadProgress,
+      });
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: AxiosHeaders.from(response.headers as AxiosHeaders).toJSON(
+          true
+        ) as Record<string, string>,
+        data: response.data,
+      };
+    } catch (error) {
+      throw toRemoteRequestError(error);
+    }
+  }
+}
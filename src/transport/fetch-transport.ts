@@ -0,0 +1,155 @@
+import {
+  CancelledError,
+  NetworkError,
+  TimeoutError,
+} from "../errors/remote-request-error";
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../types/transport";
+import { linkAbortSignal } from "../utils/abort";
+
+/**
+ * @interface FetchTransportOptions
+ * @description FetchTransport 설정
+ * @property {typeof fetch} [fetch] - fetch 구현 (기본값: globalThis.fetch)
+ * @property {RequestInit} [init] - 모든 요청에 추가할 fetch 옵션 (cache, mode, keepalive 등)
+ */
+export interface FetchTransportOptions {
+  fetch?: typeof fetch;
+  init?: Omit<RequestInit, "method" | "headers" | "body" | "signal">;
+}
+
+/**
+ * @class FetchTransport
+ * @description 네이티브 fetch로 요청을 전송하는 Transport (엣지 런타임, Service Worker 등)
+ * - withCredentials 요청은 `credentials: "include"`로 전송
+ * - 다운로드 진행 콜백은 응답 본문을 나눠 읽으며 호출 (fetch는 업로드 진행 콜백을 지원하지 않음)
+ */
+export class FetchTransport implements Transport {
+  constructor(private readonly options: FetchTransportOptions = {}) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const fetchImpl = this.options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== "function") {
+      throw new NetworkError("fetch is not available", {
+        url: request.url,
+        method: request.method,
+      });
+    }
+
+    const controller = new AbortController();
+    const unlinkSignal = linkAbortSignal(request.signal, controller);
+    let isTimedOut = false;
+    const timer = request.timeout
+      ? setTimeout(() => {
+          isTimedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+    const errorOptions = { url: request.url, method: request.method };
+
+    try {
+      const response = await fetchImpl(request.url, {
+        credentials: request.withCredentials ? "include" : "same-origin",
+        ...this.options.init,
+        method: request.method,
+        headers: request.headers,
+        body: request.body as BodyInit | null | undefined,
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: await this.readBody(response, request),
+      };
+    } catch (error) {
+      if (isTimedOut) {
+        throw new TimeoutError(`timeout of ${request.timeout}ms exceeded`, {
+          ...errorOptions,
+          cause: error,
+        });
+      }
+      if (request.signal?.aborted) {
+        throw new CancelledError("Request was cancelled", {
+          ...errorOptions,
+          cause: error,
+        });
+      }
+      throw new NetworkError(
+        error instanceof Error ? error.message : "Network Error",
+        { ...errorOptions, cause: error }
+      );
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+      unlinkSignal();
+    }
+  }
+
+  /**
+   * responseType에 맞게 응답 본문 읽기 (json / text는 문자열 그대로 반환)
+   */
+  private async readBody(
+    response: Response,
+    request: TransportRequest
+  ): Promise<unknown> {
+    if (request.method === "HEAD" || response.status === 204) return "";
+    if (
+      request.onDownloadProgress &&
+      response.body &&
+      request.responseType !== "stream"
+    ) {
+      return this.readBodyWithProgress(response, request);
+    }
+    switch (request.responseType) {
+      case "blob":
+        return response.blob();
+      case "arraybuffer":
+        return response.arrayBuffer();
+      case "stream":
+        return response.body;
+      default:
+        return response.text();
+    }
+  }
+
+  /**
+   * 응답 본문을 나눠 읽으며 다운로드 진행 콜백 호출
+   */
+  private async readBodyWithProgress(
+    response: Response,
+    request: TransportRequest
+  ): Promise<unknown> {
+    const contentLength = Number(response.headers.get("content-length"));
+    const total = contentLength > 0 ? contentLength : undefined;
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      request.onDownloadProgress?.({ loaded, total });
+    }
+
+    const blob = new Blob(chunks, {
+      type: response.headers.get("content-type") ?? "",
+    });
+    switch (request.responseType) {
+      case "blob":
+        return blob;
+      case "arraybuffer":
+        return blob.arrayBuffer();
+      default:
+        return blob.text();
+    }
+  }
+}
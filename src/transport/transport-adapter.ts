@@ -0,0 +1,108 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosProgressEvent,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+import { CancelledError, TimeoutError } from "../errors/remote-request-error";
+import { Transport, TransportProgressEvent } from "../types/transport";
+
+/**
+ * Transport를 axios 어댑터로 변환
+ * - 인터셉터(인증 헤더, 암호화, 토큰 재발급, 재시도)는 그대로 실행되고 네트워크 전송만 Transport가 담당
+ * - Transport의 에러는 기존 에러 처리 흐름과 같도록 AxiosError로 변환
+ * @param transport - 요청 전송 계층
+ */
+export function toAxiosAdapter(transport: Transport): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig) => {
+    let transportResponse;
+    try {
+      transportResponse = await transport.send({
+        url: axios.getUri(config),
+        method: (config.method ?? "get").toUpperCase(),
+        headers: AxiosHeaders.from(config.headers).toJSON(true) as Record<
+          string,
+          string
+        >,
+        body: config.data,
+        timeout: config.timeout,
+        signal: config.signal as AbortSignal | undefined,
+        responseType: config.responseType,
+        withCredentials: config.withCredentials,
+        onUploadProgress: toProgressListener(config.onUploadProgress, "upload"),
+        onDownloadProgress: toProgressListener(
+          config.onDownloadProgress,
+          "download"
+        ),
+      });
+    } catch (error) {
+      throw toAxiosError(error, config);
+    }
+
+    const response: AxiosResponse = {
+      data: transportResponse.data,
+      status: transportResponse.status,
+      statusText: transportResponse.statusText,
+      headers: AxiosHeaders.from(transportResponse.headers),
+      config,
+    };
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response
+    );
+  };
+}
+
+/**
+ * axios 진행 콜백을 Transport 진행 콜백으로 변환
+ */
+function toProgressListener(
+  listener: ((event: AxiosProgressEvent) => void) | undefined,
+  direction: "upload" | "download"
+): ((event: TransportProgressEvent) => void) | undefined {
+  if (!listener) return undefined;
+  let lastLoaded = 0;
+  return ({ loaded, total }) => {
+    listener({
+      loaded,
+      total,
+      progress: total ? loaded / total : undefined,
+      bytes: loaded - lastLoaded,
+      lengthComputable: total !== undefined,
+      [direction]: true,
+    });
+    lastLoaded = loaded;
+  };
+}
+
+/**
+ * Transport 에러를 AxiosError로 변환 (취소 / 타임아웃 / 네트워크 오류)
+ */
+function toAxiosError(
+  error: unknown,
+  config: InternalAxiosRequestConfig
+): AxiosError {
+  if (error instanceof CancelledError) {
+    return new CanceledError(error.message, AxiosError.ERR_CANCELED, config);
+  }
+  const code =
+    error instanceof TimeoutError
+      ? AxiosError.ECONNABORTED
+      : AxiosError.ERR_NETWORK;
+  return AxiosError.from(
+    error instanceof Error ? error : new Error(String(error)),
+    code,
+    config
+  );
+}
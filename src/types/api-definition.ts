@@ -0,0 +1,128 @@
+import { EncryptionDirection } from "./encryption-config";
+import { HttpMethod } from "./http";
+import { RequestOptions } from "./request-options";
+import { ResponseSchema } from "./response-schema";
+
+/**
+ * @interface EndpointTypes
+ * @description 엔드포인트의 응답 / 본문 / 쿼리 타입 (타입 추론 전용, 런타임 값 없음)
+ */
+export interface EndpointTypes<TResponse, TBody, TQuery> {
+  response: TResponse;
+  body: TBody;
+  query: TQuery;
+}
+
+/**
+ * @interface EndpointDefinition
+ * @description API 엔드포인트 정의
+ * - 응답 / 본문 / 쿼리 타입은 `endpoint<TResponse, TBody, TQuery>()` 헬퍼로 지정 (schema 지정 시 응답 타입은 스키마에서 추론)
+ * @property {HttpMethod} method - HTTP 메서드
+ * @property {string} path - 경로 템플릿 (`:name`은 경로 파라미터, `/`로 구분)
+ * @property {boolean | EncryptionDirection} [encrypt] - 암호화 강제/제외 (미설정 시 encryptionConfig 규칙 적용)
+ * @property {boolean} [auth] - 인증 정보 포함 여부 (false: 인증 헤더 미포함 / 토큰 재발급 미실행, 기본값: true)
+ * @property {ResponseSchema<TResponse>} [schema] - 응답 본문 검증 스키마
+ * @property {RequestOptions} [options] - 이 엔드포인트의 기본 요청 옵션 (호출 시 옵션이 우선)
+ */
+export interface EndpointDefinition<
+  TResponse = unknown,
+  TBody = undefined,
+  TQuery = undefined,
+  TPath extends string = string
+> {
+  method: HttpMethod;
+  path: TPath;
+  encrypt?: boolean | EncryptionDirection;
+  auth?: boolean;
+  schema?: ResponseSchema<TResponse>;
+  options?: RequestOptions;
+  readonly types?: EndpointTypes<TResponse, TBody, TQuery>;
+}
+
+/**
+ * 경로 템플릿의 파라미터 이름 (ex. "/users/:id/posts/:postId" → "id" | "postId")
+ */
+export type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+/**
+ * 경로 템플릿의 파라미터 객체 타입
+ */
+export type PathParams<TPath extends string> = {
+  [K in PathParamNames<TPath>]: string | number;
+};
+
+type ParamsArgs<TPath extends string> = [PathParamNames<TPath>] extends [never]
+  ? { params?: undefined }
+  : { params: PathParams<TPath> };
+
+type BodyArgs<TBody> = [TBody] extends [undefined]
+  ? { body?: undefined }
+  : undefined extends TBody
+  ? { body?: TBody }
+  : { body: TBody };
+
+type QueryArgs<TQuery> = [TQuery] extends [undefined]
+  ? { query?: undefined }
+  : undefined extends TQuery
+  ? { query?: TQuery }
+  : { query: TQuery };
+
+/**
+ * @type EndpointArgs
+ * @description 엔드포인트 호출 인자
+ * - params: 경로 파라미터 (경로에 파라미터가 있으면 필수)
+ * - body: 요청 본문 (본문 타입 지정 시 필수)
+ * - query: 쿼리 파라미터 (쿼리 타입 지정 시 필수)
+ * - options: 요청 옵션 (signal, headers 등)
+ */
+export type EndpointArgs<E> = E extends EndpointDefinition<
+  infer _TResponse,
+  infer TBody,
+  infer TQuery,
+  infer TPath
+>
+  ? ParamsArgs<TPath> &
+      BodyArgs<TBody> &
+      QueryArgs<TQuery> & { options?: RequestOptions }
+  : never;
+
+/**
+ * 엔드포인트 응답 본문 타입
+ */
+export type EndpointResponse<E> = E extends EndpointDefinition<
+  infer TResponse,
+  infer _TBody,
+  infer _TQuery,
+  infer _TPath
+>
+  ? TResponse
+  : never;
+
+/**
+ * @type EndpointFunction
+ * @description 엔드포인트 호출 함수 (필수 인자가 없으면 인자 생략 가능, 응답 본문 반환)
+ */
+export type EndpointFunction<E> = {} extends EndpointArgs<E>
+  ? (args?: EndpointArgs<E>) => Promise<EndpointResponse<E>>
+  : (args: EndpointArgs<E>) => Promise<EndpointResponse<E>>;
+
+/**
+ * 엔드포인트 정의 객체
+ */
+export type EndpointMap = Record<
+  string,
+  EndpointDefinition<unknown, unknown, unknown, string>
+>;
+
+/**
+ * @type ApiClient
+ * @description defineApi가 반환하는 타입 안전 클라이언트
+ */
+export type ApiClient<M extends EndpointMap> = {
+  [K in keyof M]: EndpointFunction<M[K]>;
+};
@@ -0,0 +1,39 @@
+import { HttpMethod } from "./http";
+import { RemoteRequestConfig } from "./remote-response";
+
+/**
+ * @interface AuthStrategyContext
+ * @description 인증 전략에 전달되는 요청 컨텍스트
+ * @property {Function} getAccessToken - 현재 accessToken 조회
+ *    (재발급 후 재시도 요청은 재발급 응답의 신규 토큰, 그 외에는 fetchAuthTokenMethod 결과)
+ */
+export interface AuthStrategyContext {
+  getAccessToken(): Promise<string | undefined>;
+}
+
+/**
+ * @interface AuthStrategy
+ * @description 요청에 인증 정보를 적용하는 전략 (헤더 설정, 서명 등)
+ * - 요청 체인의 마지막(암호화 / inner 미들웨어 이후)에 실행되므로 서명 전략은 실제 전송되는 본문과 헤더 기준으로 서명할 수 있습니다.
+ * - 재시도 / 재발급 후 재요청 시에도 다시 실행됩니다.
+ */
+export interface AuthStrategy {
+  apply(
+    config: RemoteRequestConfig,
+    context: AuthStrategyContext
+  ): void | Promise<void>;
+}
+
+/**
+ * @interface AuthRule
+ * @description URL별 인증 전략 규칙 (처음 일치하는 규칙 적용)
+ * @property {string | RegExp} match - 일치 조건
+ *    (문자열: 경로 접두사 또는 glob, `https://`처럼 scheme으로 시작하면 전체 URL 기준 / 정규식: 경로 또는 전체 URL)
+ * @property {HttpMethod[]} [methods] - 적용할 HTTP 메서드 (미설정 시 전체)
+ * @property {AuthStrategy | false} strategy - 적용할 인증 전략 (false: 인증 정보 미포함)
+ */
+export interface AuthRule {
+  match: string | RegExp;
+  methods?: HttpMethod[];
+  strategy: AuthStrategy | false;
+}
@@ -0,0 +1,77 @@
+/**
+ * @interface CacheEntry
+ * @description 캐시에 저장되는 GET 응답
+ * @property {unknown} data - 응답 본문 (복호화 이후)
+ * @property {number} status - HTTP 상태 코드
+ * @property {string} statusText - HTTP 상태 메시지
+ * @property {Record<string, string>} headers - 응답 헤더
+ * @property {string} [etag] - ETag 헤더 (조건부 요청용)
+ * @property {string} [lastModified] - Last-Modified 헤더 (조건부 요청용)
+ * @property {number} storedAt - 저장 시각(epoch ms)
+ * @property {number} expiresAt - 신선(fresh) 상태 만료 시각(epoch ms)
+ * @property {number} staleUntil - stale-while-revalidate 허용 만료 시각(epoch ms)
+ */
+export interface CacheEntry {
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * @interface ResponseCacheStorage
+ * @description 캐시 저장소 어댑터 (localStorage, IndexedDB 등으로 교체 가능)
+ */
+export interface ResponseCacheStorage {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * @interface CacheConfig
+ * @description GET 응답 캐시 설정 (설정 시 모든 GET 요청에 적용, 요청별 `cache: false`로 제외)
+ * @property {ResponseCacheStorage} [storage] - 캐시 저장소 (기본값: 메모리)
+ * @property {number} [ttl] - 신선(fresh) 상태 유지 시간(ms) (기본값: 60000)
+ * @property {number} [staleWhileRevalidate] - ttl 경과 후 stale 응답을 반환하며 백그라운드 갱신을 허용하는 시간(ms) (기본값: 0)
+ * @property {boolean} [conditionalRequests] - ETag / Last-Modified 기반 조건부 요청 사용 여부 (기본값: true)
+ * @property {boolean} [cacheEncryptedResponses] - 복호화 대상 경로의 응답(복호화된 데이터)도 캐시할지 여부 (기본값: false)
+ * @property {boolean} [invalidateOnMutation] - POST/PUT/PATCH/DELETE 성공 시 같은 URL 하위 캐시 무효화 여부 (기본값: true)
+ * @property {Function} [getAuthIdentity] - 캐시 키에 포함할 인증 식별자 (사용자별 캐시 분리용)
+ *    (미설정 시 STORAGE 모드는 accessToken의 JWT sub 클레임 SHA-256 해시, sub가 없는 토큰은 토큰 해시라 재발급마다 캐시가 분리되므로 설정 권장 / WEB_COOKIE 모드는 식별자 없음)
+ */
+export interface CacheConfig {
+  storage?: ResponseCacheStorage;
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  conditionalRequests?: boolean;
+  cacheEncryptedResponses?: boolean;
+  invalidateOnMutation?: boolean;
+  getAuthIdentity?: () =>
+    | string
+    | null
+    | undefined
+    | Promise<string | null | undefined>;
+}
+
+/**
+ * @interface RequestCacheOptions
+ * @description 요청별 캐시 옵션
+ * @property {number} [ttl] - 이 요청의 ttl(ms)
+ * @property {number} [staleWhileRevalidate] - 이 요청의 stale-while-revalidate 허용 시간(ms)
+ * @property {boolean} [forceRefresh] - 캐시를 무시하고 네트워크 응답으로 갱신
+ * @property {string[]} [invalidateUrls] - [변경 요청] 성공 시 추가로 무효화할 URL 접두사
+ */
+export interface RequestCacheOptions {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  forceRefresh?: boolean;
+  invalidateUrls?: string[];
+}
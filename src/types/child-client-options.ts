@@ -0,0 +1,30 @@
+import { EncryptionConfig } from "./encryption-config";
+import { RemoteRequestOptions } from "./remote-request-options";
+
+/**
+ * @interface ChildClientOptions
+ * @description `createChild`로 만드는 자식 클라이언트 옵션
+ * - 토큰 전송 / 갱신 설정, 토큰 재발급(single-flight), 세션 상태는 부모와 공유
+ * - headers / params는 부모 값에 병합, 그 외 지정한 옵션은 부모 값을 대체
+ * - 오프라인 대기열 / 탭 간 재발급 조율은 상속하지 않음 (재발급 조율은 부모가 담당)
+ * @property {EncryptionConfig | null} [encryptionConfig] - 자식 클라이언트 암호화 설정 (null: 암호화 미사용, 미설정 시 부모 설정 사용)
+ */
+export interface ChildClientOptions
+  extends Pick<
+    RemoteRequestOptions,
+    | "baseURL"
+    | "headers"
+    | "timeout"
+    | "params"
+    | "hooks"
+    | "adapter"
+    | "transport"
+    | "retry"
+    | "cache"
+    | "dedupe"
+    | "maxConcurrentRequests"
+    | "responseSchemas"
+    | "keyCase"
+  > {
+  encryptionConfig?: EncryptionConfig | null;
+}
@@ -0,0 +1,107 @@
+import { RemoteRequestMethod } from "../remoteRequestMehtodType";
+import { RequestProgressEvent } from "./http";
+
+/**
+ * @interface ChunkedUploadSession
+ * @description 분할 업로드 세션
+ * @property {string} uploadId - 서버가 발급한 업로드 식별자 (이어 올리기에 사용)
+ * @property {number} uploadedBytes - 서버에 이미 저장된 byte 수 (이 위치부터 업로드)
+ */
+export interface ChunkedUploadSession {
+  uploadId: string;
+  uploadedBytes: number;
+}
+
+/**
+ * @interface ChunkUploadContext
+ * @description 분할 업로드 프로토콜에 전달되는 공통 정보
+ * @property {RemoteRequestMethod} client - 요청에 사용할 클라이언트 (인증 / 토큰 재발급 적용)
+ * @property {Blob} file - 업로드할 파일
+ * @property {string} uploadId - 업로드 식별자
+ * @property {AbortSignal} [signal] - 업로드 취소용 AbortSignal
+ */
+export interface ChunkUploadContext {
+  client: RemoteRequestMethod;
+  file: Blob;
+  uploadId: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * @interface ChunkUploadStartContext
+ * @description 업로드 세션 생성 시 전달되는 정보
+ * @property {string} [fileName] - 파일 이름
+ * @property {number} chunkSize - 조각 크기(byte)
+ */
+export interface ChunkUploadStartContext
+  extends Omit<ChunkUploadContext, "uploadId"> {
+  fileName?: string;
+  chunkSize: number;
+}
+
+/**
+ * @interface ChunkUploadChunkContext
+ * @description 조각 업로드 시 전달되는 정보
+ * @property {Blob} chunk - 업로드할 조각
+ * @property {number} index - 조각 순번 (0부터 시작)
+ * @property {number} start - 조각 시작 위치(byte, 포함)
+ * @property {number} end - 조각 끝 위치(byte, 미포함)
+ * @property {function} onUploadProgress - 조각 업로드 진행 콜백 (요청 옵션에 그대로 전달)
+ */
+export interface ChunkUploadChunkContext extends ChunkUploadContext {
+  chunk: Blob;
+  index: number;
+  start: number;
+  end: number;
+  onUploadProgress: (event: RequestProgressEvent) => void;
+}
+
+/**
+ * @interface ChunkUploadProtocol
+ * @description 서버별 분할 업로드 규약 (세션 생성 / 조각 전송 / 진행 위치 조회 / 완료)
+ * - getUploadedBytes가 없으면 이어 올리기와 조각 재시도 시 위치 확인을 하지 않음
+ */
+export interface ChunkUploadProtocol<T = unknown> {
+  start(context: ChunkUploadStartContext): Promise<ChunkedUploadSession>;
+  uploadChunk(context: ChunkUploadChunkContext): Promise<void>;
+  getUploadedBytes?(context: ChunkUploadContext): Promise<number>;
+  complete(context: ChunkUploadContext): Promise<T>;
+}
+
+/**
+ * @interface ChunkedUploadProgress
+ * @description 분할 업로드 전체 진행 상황
+ * @property {string} uploadId - 업로드 식별자
+ * @property {number} loaded - 전송 완료된 byte 수 (이어 올리기 시 서버에 있던 byte 포함)
+ * @property {number} total - 파일 크기(byte)
+ * @property {number} progress - 진행률 (0 ~ 1)
+ */
+export interface ChunkedUploadProgress {
+  uploadId: string;
+  loaded: number;
+  total: number;
+  progress: number;
+}
+
+/**
+ * @interface ChunkedUploadOptions
+ * @description 분할 업로드 옵션
+ * @property {number} [chunkSize] - 조각 크기(byte) (기본값: 5MiB)
+ * @property {string} [fileName] - 파일 이름 (기본값: File.name)
+ * @property {string} [uploadId] - 이어 올릴 업로드 식별자 (지정 시 세션을 새로 만들지 않고 getUploadedBytes 위치부터 업로드)
+ * @property {number} [maxChunkRetries] - 조각별 최대 재시도 횟수 (네트워크 오류 / 5xx / 429 / 토큰 재발급 후 미재전송, 기본값: 3)
+ * @property {number} [retryDelay] - 조각 재시도 기본 지연(ms) (지수 백오프, 기본값: 1000)
+ * @property {AbortSignal} [signal] - 업로드 취소용 AbortSignal
+ * @property {function} [onSessionStart] - 세션 생성(또는 이어 올리기 위치 확인) 직후 콜백 (uploadId 저장용)
+ * @property {function} [onProgress] - 전체 진행 콜백
+ */
+export interface ChunkedUploadOptions {
+  chunkSize?: number;
+  fileName?: string;
+  uploadId?: string;
+  maxChunkRetries?: number;
+  retryDelay?: number;
+  signal?: AbortSignal;
+  onSessionStart?: (session: ChunkedUploadSession) => void;
+  onProgress?: (progress: ChunkedUploadProgress) => void;
+}
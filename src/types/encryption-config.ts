@@ -1,14 +1,53 @@
+import { HttpMethod } from "./http";
 import { RequestInterceptor, ResponseInterceptor } from "./request-interceptor";
 
+/**
+ * @type EncryptionDirection
+ * @description 암호화 적용 방향
+ *  - request: 요청 본문 암호화만
+ *  - response: 응답 본문 복호화만
+ *  - both: 요청 암호화 + 응답 복호화
+ */
+export type EncryptionDirection = "request" | "response" | "both";
+
+/**
+ * @interface EncryptionRule
+ * @description 암호화 대상 경로 규칙
+ * @property {string | RegExp} match - 경로 규칙 (쿼리스트링을 제외한 URL 경로 기준)
+ *    - 문자열: 경로 접두사 (ex. "/s/"), `*` 또는 `?` 포함 시 glob (ex. "/v?/s/**")
+ *    - RegExp: 경로에 대해 test
+ * @property {HttpMethod[]} [methods] - 적용할 HTTP 메서드 (기본값: 모든 메서드)
+ * @property {EncryptionDirection} [direction] - 적용 방향 (기본값: both)
+ */
+export interface EncryptionRule {
+  match: string | RegExp;
+  methods?: HttpMethod[];
+  direction?: EncryptionDirection;
+}
+
+/**
+ * @type BinaryPayloadEncryption
+ * @description 바이너리 본문(FormData, Blob, ArrayBuffer, 스트림 / blob, arraybuffer, stream 응답)의 암호화 처리 방식
+ *  - skip: 암호화 / 복호화하지 않고 그대로 전송 / 반환
+ *  - encrypt: 일반 본문과 같이 인터셉터 실행 (인터셉터가 바이너리를 처리할 수 있어야 함)
+ *  - error: 암호화 대상이면 EncryptionError / DecryptionError로 실패
+ */
+export type BinaryPayloadEncryption = "skip" | "encrypt" | "error";
+
 /**
  * @interface EncryptionConfig
  * @description 암호화 관련 설정 인터페이스
- * @property {string} encryptUrlStr - 암호화가 필요한 URL 패턴 문자열
- * @property {function} [requestInterceptor] - 요청 인터셉터 함수 (선택적)
- * @property {function} [responseInterceptor] - 응답 인터셉터 함수 (선택적)
+ * @property {string} [encryptUrlStr] - (deprecated, rules 사용 권장) 암호화가 필요한 URL 포함 문자열
+ *    - URL에 포함되면 POST/PUT 요청 암호화, 모든 메서드 응답 복호화
+ * @property {EncryptionRule[]} [rules] - 암호화 대상 경로 규칙 (하나라도 일치하면 적용)
+ * @property {function} requestInterceptor - 요청 암호화 인터셉터 함수
+ * @property {function} responseInterceptor - 응답 복호화 인터셉터 함수
+ * @property {BinaryPayloadEncryption} [binaryPayload] - 암호화 대상인 바이너리 본문 처리 방식 (기본값: skip)
  */
 export interface EncryptionConfig {
-  encryptUrlStr: string;
+  encryptUrlStr?: string;
+  rules?: EncryptionRule[];
   requestInterceptor: RequestInterceptor;
   responseInterceptor: ResponseInterceptor;
+  binaryPayload?: BinaryPayloadEncryption;
 }
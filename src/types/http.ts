@@ -0,0 +1,92 @@
+import { RemoteRequestConfig, RemoteResponse } from "./remote-response";
+
+/**
+ * @type HttpMethod
+ * @description HTTP 메서드 (소문자 / 대문자 모두 허용)
+ */
+export type HttpMethod =
+  | "get"
+  | "GET"
+  | "delete"
+  | "DELETE"
+  | "head"
+  | "HEAD"
+  | "options"
+  | "OPTIONS"
+  | "post"
+  | "POST"
+  | "put"
+  | "PUT"
+  | "patch"
+  | "PATCH"
+  | "purge"
+  | "PURGE"
+  | "link"
+  | "LINK"
+  | "unlink"
+  | "UNLINK";
+
+/**
+ * @type RemoteResponseType
+ * @description 응답 본문 형식 (기본값: json)
+ */
+export type RemoteResponseType =
+  | "arraybuffer"
+  | "blob"
+  | "document"
+  | "json"
+  | "text"
+  | "stream"
+  | "formdata";
+
+/**
+ * @type RequestHeaderValue
+ * @description 요청 헤더 값 (null / undefined면 전송하지 않음)
+ */
+export type RequestHeaderValue =
+  | string
+  | string[]
+  | number
+  | boolean
+  | null
+  | undefined;
+
+/**
+ * @type RequestHeaders
+ * @description 요청 옵션에 전달하는 헤더 (헤더 이름은 대소문자를 구분하지 않음)
+ */
+export type RequestHeaders = Record<string, RequestHeaderValue>;
+
+/**
+ * @interface RequestProgressEvent
+ * @description 업로드 / 다운로드 진행 상황
+ * @property {number} loaded - 전송된 byte 수
+ * @property {number} [total] - 전체 byte 수 (알 수 없으면 미설정)
+ * @property {number} [progress] - 진행률 (0 ~ 1, total을 알 수 없으면 미설정)
+ * @property {number} bytes - 직전 이벤트 이후 전송된 byte 수
+ * @property {number} [rate] - 초당 전송 byte 수
+ * @property {number} [estimated] - 남은 예상 시간(초)
+ * @property {boolean} [upload] - 업로드 이벤트 여부
+ * @property {boolean} [download] - 다운로드 이벤트 여부
+ */
+export interface RequestProgressEvent {
+  loaded: number;
+  total?: number;
+  progress?: number;
+  bytes: number;
+  rate?: number;
+  estimated?: number;
+  upload?: boolean;
+  download?: boolean;
+}
+
+/**
+ * @type RemoteRequestAdapter
+ * @description 요청 전송 어댑터 (인터셉터를 모두 거친 최종 요청 설정을 받아 응답 반환)
+ * - 응답 상태 검증(config.validateStatus)과 실패 시 에러 생성은 어댑터가 담당 (MockAdapter.adapter 참고)
+ * - axios 어댑터를 그대로 전달할 수 있도록 매개변수는 이변(bivariant)으로 검사
+ * - 새 전송 계층은 어댑터 대신 Transport 사용 권장
+ */
+export type RemoteRequestAdapter = {
+  bivarianceHack(config: RemoteRequestConfig): Promise<RemoteResponse>;
+}["bivarianceHack"];
@@ -0,0 +1,22 @@
+/**
+ * @type KeyCase
+ * @description 객체 키 표기법
+ *  - camelCase: userId
+ *  - snake_case: user_id
+ */
+export type KeyCase = "camelCase" | "snake_case";
+
+/**
+ * @interface KeyCaseConfig
+ * @description 요청 / 응답 본문 키 표기법 변환 설정
+ * - 일반 객체와 배열만 재귀적으로 변환 (FormData, Blob, Date 등은 그대로 유지)
+ * - 요청 변환은 암호화 이전, 응답 변환은 복호화 이후에 실행
+ * @property {KeyCase} [request] - 요청 본문(및 쿼리 파라미터) 키 변환 표기법 (미설정 시 변환하지 않음)
+ * @property {KeyCase} [response] - 응답 본문 키 변환 표기법 (미설정 시 변환하지 않음)
+ * @property {boolean} [params] - 쿼리 파라미터 키도 request 표기법으로 변환할지 여부 (기본값: true)
+ */
+export interface KeyCaseConfig {
+  request?: KeyCase;
+  response?: KeyCase;
+  params?: boolean;
+}
@@ -0,0 +1,92 @@
+/**
+ * @interface RequestMeta
+ * @description 라이프사이클 이벤트에 포함되는 요청 정보
+ * @property {string} requestId - RemoteRequest 인스턴스 내 요청 식별자 (재시도 시에도 유지)
+ * @property {string} method - HTTP 메서드
+ * @property {string} url - 요청 URL
+ * @property {Record<string, string>} headers - 요청 헤더 (민감 헤더는 마스킹)
+ * @property {number} attempt - 재시도 회차 (최초 요청은 0)
+ */
+export interface RequestMeta {
+  requestId: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  attempt: number;
+}
+
+/**
+ * @interface RequestStartEvent
+ * @property {number} startedAt - 요청 시작 시각(epoch ms)
+ */
+export interface RequestStartEvent extends RequestMeta {
+  startedAt: number;
+}
+
+/**
+ * @interface ResponseEvent
+ * @property {number} status - HTTP 상태 코드
+ * @property {number} durationMs - 요청 시작부터 응답까지 걸린 시간(ms)
+ */
+export interface ResponseEvent extends RequestMeta {
+  status: number;
+  durationMs: number;
+}
+
+/**
+ * @interface RequestErrorEvent
+ * @property {unknown} error - 발생한 에러
+ * @property {number} [status] - HTTP 상태 코드 (응답이 있는 경우)
+ * @property {number} durationMs - 요청 시작부터 에러까지 걸린 시간(ms)
+ */
+export interface RequestErrorEvent extends RequestMeta {
+  error: unknown;
+  status?: number;
+  durationMs: number;
+}
+
+/**
+ * @type TokenRefreshTrigger
+ * @description 토큰 재발급 계기 (reactive: 만료 에러 응답, proactive: 만료 임박 선제 재발급)
+ */
+export type TokenRefreshTrigger = "reactive" | "proactive";
+
+export interface TokenRefreshStartEvent {
+  trigger: TokenRefreshTrigger;
+  startedAt: number;
+}
+
+export interface TokenRefreshSuccessEvent {
+  trigger: TokenRefreshTrigger;
+  durationMs: number;
+}
+
+export interface TokenRefreshFailureEvent {
+  trigger: TokenRefreshTrigger;
+  error: unknown;
+  durationMs: number;
+}
+
+/**
+ * @interface RemoteRequestHooks
+ * @description 요청 라이프사이클 이벤트 훅
+ *  - 훅에서 발생한 에러는 로그만 남기고 요청 흐름에는 영향을 주지 않습니다.
+ * @property {Function} [onRequestStart] - 요청 전송 직전 (재시도 포함)
+ * @property {Function} [onResponse] - 응답 수신 (복호화 이후)
+ * @property {Function} [onError] - 요청 실패 (재시도 / 토큰 재발급 전)
+ * @property {Function} [onTokenRefreshStart] - 토큰 재발급 시작
+ * @property {Function} [onTokenRefreshSuccess] - 토큰 재발급 성공
+ * @property {Function} [onTokenRefreshFailure] - 토큰 재발급 실패
+ * @property {Function} [onRequestQueued] - 토큰 재발급 대기열(failedQueue)에 요청 추가
+ * @property {Function} [onRequestReplayed] - 토큰 재발급 후 대기열 요청 재전송
+ */
+export interface RemoteRequestHooks {
+  onRequestStart?: (event: RequestStartEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onError?: (event: RequestErrorEvent) => void;
+  onTokenRefreshStart?: (event: TokenRefreshStartEvent) => void;
+  onTokenRefreshSuccess?: (event: TokenRefreshSuccessEvent) => void;
+  onTokenRefreshFailure?: (event: TokenRefreshFailureEvent) => void;
+  onRequestQueued?: (event: RequestMeta) => void;
+  onRequestReplayed?: (event: RequestMeta) => void;
+}
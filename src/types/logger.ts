@@ -0,0 +1,16 @@
+/**
+ * @type LogLevel
+ * @description 로그 레벨 (silent는 모든 로그 미출력)
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * @interface RemoteRequestLogger
+ * @description RemoteRequest 내부 로그를 전달받을 로거 인터페이스 (console 호환)
+ */
+export interface RemoteRequestLogger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
@@ -0,0 +1,53 @@
+import { RemoteRequestConfig, RemoteResponse } from "./remote-response";
+
+/**
+ * @type MiddlewarePosition
+ * @description 내장 단계(선제 토큰 재발급, 키 표기법 변환, 암호화, 인증, 복호화, 토큰 재발급 / 재시도) 기준 미들웨어 위치
+ *  - outer: 내장 단계 바깥 (요청별 한 번 실행)
+ *    - before: 내장 요청 단계 이전 (평문 본문, 인증 헤더 없음)
+ *    - after / error: 복호화 / 토큰 재발급 / 재시도가 모두 끝난 최종 결과
+ *  - inner: 내장 단계와 네트워크 사이 (재시도 / 재발급 후 재요청마다 실행)
+ *    - before: 암호화 이후 / 인증 적용 이전 (서명 전략은 inner 미들웨어의 변경까지 반영해 서명)
+ *    - after / error: 복호화 / 토큰 재발급 / 재시도 이전의 원본 응답과 전송 계층 에러
+ */
+export type MiddlewarePosition = "outer" | "inner";
+
+/**
+ * @interface Middleware
+ * @description 요청 / 응답 미들웨어
+ * - 토큰 재발급 요청은 어느 위치의 미들웨어도 거치지 않음
+ * - 같은 위치에서는 order 오름차순(같으면 등록 순서)으로 before 실행, after / error는 역순 실행
+ * - before / after는 값을 반환하면 해당 값으로 대체 (반환하지 않으면 전달받은 값 유지)
+ * - error는 응답을 반환하면 복구, 반환하지 않으면 원래 에러를 그대로 전달, throw하면 해당 에러로 대체
+ *   (inner error에서 에러를 대체하면 토큰 재발급 / 재시도가 동작하지 않을 수 있으므로 원래 에러 유지 권장)
+ * @property {string} [name] - 미들웨어 이름 (로그용)
+ * @property {MiddlewarePosition} [position] - 내장 단계 기준 위치 (기본값: outer)
+ * @property {number} [order] - 같은 위치에서의 실행 순서 (기본값: 0)
+ * @property {function} [before] - 요청 전송 전 실행
+ * @property {function} [after] - 성공 응답 수신 후 실행
+ * @property {function} [error] - 실패 시 실행
+ */
+export interface Middleware {
+  name?: string;
+  position?: MiddlewarePosition;
+  order?: number;
+  before?(
+    config: RemoteRequestConfig
+  ): RemoteRequestConfig | void | Promise<RemoteRequestConfig | void>;
+  after?(
+    response: RemoteResponse
+  ): RemoteResponse | void | Promise<RemoteResponse | void>;
+  error?(
+    error: unknown,
+    config: RemoteRequestConfig | undefined
+  ): RemoteResponse | void | Promise<RemoteResponse | void>;
+}
+
+/**
+ * @interface MiddlewareHandle
+ * @description `use`가 반환하는 미들웨어 등록 핸들
+ * @property {function} eject - 미들웨어 등록 해제 (여러 번 호출해도 안전)
+ */
+export interface MiddlewareHandle {
+  eject(): void;
+}
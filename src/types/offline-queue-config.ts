@@ -0,0 +1,111 @@
+import { HttpStatusError } from "../errors/remote-request-error";
+import { EncryptionDirection } from "./encryption-config";
+import { HttpMethod, RemoteResponseType, RequestHeaders } from "./http";
+import { RemoteResponse } from "./remote-response";
+import { RequestPriority } from "./request-priority";
+
+/**
+ * @interface QueuedMutation
+ * @description 오프라인 상태에서 저장된 변경 요청 (저장소에 직렬화하여 보관)
+ * @property {string} id - 대기열 항목 식별자
+ * @property {string} idempotencyKey - 재전송 시에도 유지되는 멱등성 키
+ * @property {HttpMethod} method - HTTP 메서드 (POST / PUT / PATCH / DELETE)
+ * @property {string} url - 요청 URL
+ * @property {unknown} [data] - 요청 본문 (JSON 직렬화 가능한 값)
+ * @property {Record<string, unknown>} [params] - 쿼리 파라미터
+ * @property {RequestHeaders} [headers] - 요청 헤더 (인증 헤더는 재전송 시점에 다시 설정)
+ * @property {RequestPriority} [priority] - 재전송 시 대기열 우선순위
+ * @property {boolean | EncryptionDirection} [encrypt] - 원래 요청의 encrypt 옵션
+ * @property {boolean} [withAuth] - 원래 요청의 withAuth 옵션
+ * @property {number} [timeout] - 원래 요청의 타임아웃(ms)
+ * @property {RemoteResponseType} [responseType] - 원래 요청의 응답 데이터 타입
+ * @property {boolean} [convertKeys] - 원래 요청의 convertKeys 옵션
+ * @property {number} createdAt - 대기열 저장 시각(epoch ms)
+ * @property {number} attempts - 재전송 시도 횟수
+ */
+export interface QueuedMutation {
+  id: string;
+  idempotencyKey: string;
+  method: HttpMethod;
+  url: string;
+  data?: unknown;
+  params?: Record<string, unknown>;
+  headers?: RequestHeaders;
+  priority?: RequestPriority;
+  encrypt?: boolean | EncryptionDirection;
+  withAuth?: boolean;
+  timeout?: number;
+  responseType?: RemoteResponseType;
+  convertKeys?: boolean;
+  createdAt: number;
+  attempts: number;
+}
+
+/**
+ * @interface OfflineQueueStorage
+ * @description 오프라인 대기열 저장소 어댑터 (localStorage, IndexedDB 등으로 교체 가능)
+ * - getAll은 저장된 순서(오래된 순)대로 반환해야 합니다.
+ */
+export interface OfflineQueueStorage {
+  getAll(): QueuedMutation[] | Promise<QueuedMutation[]>;
+  add(mutation: QueuedMutation): void | Promise<void>;
+  update(mutation: QueuedMutation): void | Promise<void>;
+  remove(id: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * @type OfflineConflictResolution
+ * @description 재전송 중 충돌 응답 처리 방법
+ *  - discard: 대기열에서 제거하고 다음 항목 재전송
+ *  - keep: 대기열에 남기고 재전송 중단 (이후 flush 시 다시 시도)
+ */
+export type OfflineConflictResolution = "discard" | "keep";
+
+/**
+ * @interface OfflineFlushResult
+ * @description 대기열 재전송 결과
+ * @property {number} replayed - 재전송에 성공한 요청 수
+ * @property {number} discarded - 충돌 / 영구 실패로 제거된 요청 수
+ * @property {number} remaining - 대기열에 남은 요청 수
+ */
+export interface OfflineFlushResult {
+  replayed: number;
+  discarded: number;
+  remaining: number;
+}
+
+/**
+ * @interface OfflineQueueConfig
+ * @description 오프라인 변경 요청 대기열 설정
+ * - 오프라인이거나 네트워크 오류로 실패한 POST/PUT/PATCH/DELETE 요청을 저장하고
+ *   온라인 복귀 또는 flush 호출 시 저장 순서대로 재전송
+ * @property {OfflineQueueStorage} [storage] - 대기열 저장소 (기본값: 메모리)
+ * @property {Function} [isOffline] - 오프라인 여부 판단 (기본값: `navigator.onLine === false`)
+ * @property {boolean} [autoFlush] - 생성 시 및 브라우저 online 이벤트 발생 시 자동 재전송 여부 (기본값: true)
+ * @property {string} [idempotencyKeyHeader] - 멱등성 키 헤더 이름, authOrigins(미설정 시 baseURL / 토큰 재발급 URL) origin 요청에만 추가 (기본값: "Idempotency-Key")
+ * @property {number} [maxAttempts] - 항목별 최대 재전송 시도 횟수, 초과 시 제거 (기본값: 5)
+ * @property {number[]} [conflictStatusCodes] - 충돌로 처리할 응답 상태 코드 (기본값: [409, 412])
+ * @property {number} [refreshBeforeReplayAfterMs] - 가장 오래된 항목이 이 시간(ms) 이상 대기했으면
+ *    재전송 전 토큰을 먼저 재발급 (만료 시각을 알 수 있으면 만료 임박 여부로 판단)
+ * @property {Function} [onQueued] - 요청이 대기열에 저장된 후 호출
+ * @property {Function} [onReplayed] - 재전송 성공 후 호출
+ * @property {Function} [onConflict] - 충돌 응답 수신 시 처리 방법 결정 (기본값: discard)
+ * @property {Function} [onDiscarded] - 항목이 대기열에서 제거된 후 호출
+ */
+export interface OfflineQueueConfig {
+  storage?: OfflineQueueStorage;
+  isOffline?: () => boolean;
+  autoFlush?: boolean;
+  idempotencyKeyHeader?: string;
+  maxAttempts?: number;
+  conflictStatusCodes?: number[];
+  refreshBeforeReplayAfterMs?: number;
+  onQueued?: (mutation: QueuedMutation) => void;
+  onReplayed?: (mutation: QueuedMutation, response: RemoteResponse) => void;
+  onConflict?: (
+    mutation: QueuedMutation,
+    error: HttpStatusError
+  ) => OfflineConflictResolution | Promise<OfflineConflictResolution>;
+  onDiscarded?: (mutation: QueuedMutation, error: unknown) => void;
+}
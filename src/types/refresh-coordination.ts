@@ -0,0 +1,63 @@
+import { TokenRefreshFailureReason } from "../errors/remote-request-error";
+import { AuthTokens } from "./token-trasport-config";
+
+/**
+ * @type RefreshCoordinationMessage
+ * @description 탭 간 토큰 재발급 조율 메시지
+ *  - refresh-start: 재발급 시작 선언 (startedAt, tabId가 가장 작은 탭이 재발급 담당)
+ *  - refresh-success: 재발급 성공 (shareTokens: true일 때만 신규 토큰 포함, 그 외에는 null)
+ *  - refresh-failure: 재발급 실패 (다른 탭도 함께 실패 처리)
+ */
+export type RefreshCoordinationMessage =
+  | {
+      type: "refresh-start";
+      tabId: string;
+      refreshId: string;
+      startedAt: number;
+    }
+  | {
+      type: "refresh-success";
+      tabId: string;
+      refreshId: string;
+      tokens: AuthTokens | null;
+    }
+  | {
+      type: "refresh-failure";
+      tabId: string;
+      refreshId: string;
+      message: string;
+      reason?: TokenRefreshFailureReason;
+    };
+
+/**
+ * @interface RefreshCoordinationChannel
+ * @description 탭 간 메시지 채널 (BroadcastChannel, storage 이벤트, 테스트용 채널 등으로 교체 가능)
+ * - postMessage로 보낸 메시지는 자기 자신에게 전달되지 않아야 합니다.
+ */
+export interface RefreshCoordinationChannel {
+  postMessage(message: RefreshCoordinationMessage): void;
+  subscribe(
+    listener: (message: RefreshCoordinationMessage) => void
+  ): () => void;
+  close?(): void;
+}
+
+/**
+ * @interface RefreshCoordinationConfig
+ * @description 탭 간 토큰 재발급 조율 설정
+ * - 여러 탭이 동시에 재발급을 시도하면 한 탭만 재발급하고 나머지 탭은 결과를 공유
+ * @property {RefreshCoordinationChannel} channel - 탭 간 메시지 채널
+ * @property {string} [tabId] - 현재 탭 식별자 (기본값: 임의 UUID)
+ * @property {number} [electionDelayMs] - 재발급 시작 선언 후 다른 탭의 선언을 기다리는 시간(ms) (기본값: 50)
+ * @property {number} [waitTimeoutMs] - 다른 탭의 재발급 결과를 기다리는 최대 시간(ms), 초과 시 직접 재발급 (기본값: 15000)
+ * @property {boolean} [shareTokens] - [STORAGE 모드] 재발급된 토큰을 메시지로 공유할지 여부 (기본값: false)
+ *    (미설정 시 다른 탭은 fetchAuthTokenMethod로 공유 저장소의 토큰을 다시 읽음,
+ *     토큰이 채널(storage 채널은 localStorage)에 그대로 실리므로 탭별 저장소를 쓰는 경우에만 설정)
+ */
+export interface RefreshCoordinationConfig {
+  channel: RefreshCoordinationChannel;
+  tabId?: string;
+  electionDelayMs?: number;
+  waitTimeoutMs?: number;
+  shareTokens?: boolean;
+}
@@ -0,0 +1,75 @@
+import { CacheConfig } from "./cache-config";
+import { EncryptionConfig } from "./encryption-config";
+import { RemoteRequestAdapter, RequestHeaders } from "./http";
+import { KeyCaseConfig } from "./key-case";
+import { RemoteRequestHooks } from "./lifecycle-hooks";
+import { LogLevel, RemoteRequestLogger } from "./logger";
+import { OfflineQueueConfig } from "./offline-queue-config";
+import { RefreshCoordinationConfig } from "./refresh-coordination";
+import { ResponseSchemaRule } from "./response-schema";
+import { RetryConfig } from "./retry-config";
+import { TokenRefreshConfig } from "./token-refresh-config";
+import { TokenTransportConfig } from "./token-trasport-config";
+import { Transport } from "./transport";
+
+/**
+ * @interface RemoteRequestOptions
+ * @description RemoteRequest 생성 옵션 인터페이스
+ * @property {TokenTransportConfig} tokenTransportConfig - 토큰 전송 방식 설정
+ * @property {TokenRefreshConfig} tokenConfig - 토큰 갱신 관련 설정
+ * @property {EncryptionConfig} [encryptionConfig] - 암호화 관련 설정 (선택)
+ * @property {boolean} [removeConsole] - 콘솔 출력 제거 여부 (기본값: true, logger 지정 시 무시)
+ * @property {RemoteRequestLogger} [logger] - 내부 로그를 전달받을 로거 (기본값: console)
+ * @property {LogLevel} [logLevel] - 출력할 최소 로그 레벨 (기본값: logger 지정 또는 removeConsole false면 debug, 아니면 silent)
+ * @property {RemoteRequestHooks} [hooks] - 요청 라이프사이클 이벤트 훅
+ * @property {string[]} [redactHeaders] - 이벤트에서 마스킹할 추가 헤더 (Authorization, Cookie 등은 기본 마스킹)
+ * @property {Function} [reissueTokenSuccessCallback] - 토큰 재발급 성공 콜백 (STORAGE 모드 필수)
+ * @property {Function} [reissueTokenFailureCallback] - 토큰 재발급 실패 콜백
+ * @property {boolean} [cancelOnReissueFailure] - 토큰 재발급 실패 시 진행 중인 요청 일괄 취소 여부 (기본값: true)
+ * @property {string} [baseURL] - 상대 경로 요청에 사용할 기본 URL
+ * @property {RequestHeaders} [headers] - 모든 요청에 포함할 기본 헤더
+ * @property {number} [timeout] - 기본 요청 타임아웃(ms)
+ * @property {Record<string, unknown>} [params] - 모든 요청에 포함할 기본 쿼리 파라미터
+ * @property {RemoteRequestAdapter} [adapter] - 요청 전송 어댑터 (테스트 시 MockAdapter 주입, 기본값: axios 기본 어댑터)
+ * @property {Transport} [transport] - 요청 전송 계층 (FetchTransport 등, adapter와 함께 사용 불가)
+ * @property {CacheConfig} [cache] - GET 응답 캐시 설정 (미설정 시 캐시 미사용)
+ * @property {boolean} [dedupe] - 동일한 GET/HEAD 요청이 동시에 진행될 때 하나의 요청으로 병합할지 여부 (기본값: true)
+ * @property {RetryConfig} [retry] - 일시적 실패에 대한 기본 재시도 정책 (미설정 시 재시도 안 함)
+ * @property {OfflineQueueConfig} [offlineQueue] - 오프라인 변경 요청 대기열 설정 (미설정 시 오프라인 요청은 바로 실패)
+ * @property {RefreshCoordinationConfig} [refreshCoordination] - 탭 간 토큰 재발급 조율 설정 (미설정 시 탭마다 독립적으로 재발급)
+ * @property {number} [maxConcurrentRequests] - 동시에 전송할 최대 요청 수 (초과 요청은 우선순위 순으로 대기, 미설정 시 제한 없음)
+ * @property {ResponseSchemaRule[]} [responseSchemas] - URL별 응답 본문 검증 스키마 규칙 (요청별 schema 옵션이 우선)
+ * @property {KeyCaseConfig} [keyCase] - 요청 / 응답 본문 키 표기법 변환 설정 (미설정 시 변환하지 않음)
+ * @property {number} [maxReplayBodySize] - 토큰 재발급 후 자동 재전송할 최대 요청 본문 크기(byte) (초과 시 RequestNotReplayedError, 기본값: 1MiB)
+ */
+export interface RemoteRequestOptions {
+  tokenTransportConfig: TokenTransportConfig;
+  tokenConfig: TokenRefreshConfig;
+  encryptionConfig?: EncryptionConfig;
+  removeConsole?: boolean;
+  logger?: RemoteRequestLogger;
+  logLevel?: LogLevel;
+  hooks?: RemoteRequestHooks;
+  redactHeaders?: string[];
+  reissueTokenSuccessCallback?: (
+    accessToken: string,
+    refreshToken: string
+  ) => Promise<void>;
+  reissueTokenFailureCallback?: () => Promise<void>;
+  cancelOnReissueFailure?: boolean;
+  baseURL?: string;
+  headers?: RequestHeaders;
+  timeout?: number;
+  params?: Record<string, unknown>;
+  adapter?: RemoteRequestAdapter;
+  transport?: Transport;
+  retry?: RetryConfig;
+  cache?: CacheConfig;
+  dedupe?: boolean;
+  maxConcurrentRequests?: number;
+  maxReplayBodySize?: number;
+  responseSchemas?: ResponseSchemaRule[];
+  keyCase?: KeyCaseConfig;
+  offlineQueue?: OfflineQueueConfig;
+  refreshCoordination?: RefreshCoordinationConfig;
+}
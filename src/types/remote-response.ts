@@ -0,0 +1,72 @@
+/**
+ * @interface RemoteRequestHeaders
+ * @description 요청 헤더 (헤더 이름은 대소문자를 구분하지 않음)
+ * - 인덱스 접근 또는 set / get / has / delete로 읽고 변경
+ */
+export interface RemoteRequestHeaders {
+  [name: string]: unknown;
+  set(name: string, value: string | number | boolean | null): unknown;
+  get(name: string): unknown;
+  has(name: string): boolean;
+  delete(name: string): boolean;
+}
+
+/**
+ * @interface RemoteRequestConfig
+ * @description 인터셉터 / 미들웨어 / 인증 판단에 전달되는 요청 설정
+ * - 인터셉터에서 변경한 값은 실제 전송되는 요청에 반영
+ * @property {string} [url] - 요청 URL (baseURL 기준 상대 경로 가능)
+ * @property {string} [method] - HTTP 메서드
+ * @property {string} [baseURL] - 기본 URL
+ * @property {RemoteRequestHeaders} headers - 요청 헤더
+ * @property {unknown} [params] - 쿼리 파라미터
+ * @property {D} [data] - 요청 본문
+ * @property {number} [timeout] - 요청 타임아웃(ms)
+ * @property {boolean} [withCredentials] - 교차 출처 요청에 쿠키 포함 여부
+ * @property {string} [responseType] - 응답 본문 형식
+ */
+export interface RemoteRequestConfig<D = unknown> {
+  url?: string;
+  method?: string;
+  baseURL?: string;
+  headers: RemoteRequestHeaders;
+  params?: unknown;
+  data?: D;
+  timeout?: number;
+  withCredentials?: boolean;
+  responseType?: string;
+}
+
+/**
+ * @interface RemoteResponse
+ * @description 요청 메서드가 반환하는 HTTP 응답
+ * @property {T} data - 응답 본문 (복호화 / 키 표기법 변환 / 스키마 검증 이후)
+ * @property {number} status - HTTP 상태 코드
+ * @property {string} statusText - HTTP 상태 메시지
+ * @property {Record<string, unknown>} headers - 응답 헤더 (소문자 이름)
+ * @property {RemoteRequestConfig<D>} config - 응답을 받은 요청 설정
+ */
+export interface RemoteResponse<T = unknown, D = unknown> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, unknown>;
+  config: RemoteRequestConfig<D>;
+}
+
+/**
+ * @interface RemoteResponseError
+ * @description 토큰 만료 판단(checkTokenExpiredError)에 전달되는 응답 실패 에러
+ * @property {string} message - 에러 메시지
+ * @property {string} [code] - 전송 계층 에러 코드
+ * @property {number} [status] - HTTP 상태 코드 (응답을 받은 경우)
+ * @property {RemoteRequestConfig<D>} [config] - 실패한 요청 설정
+ * @property {RemoteResponse<T, D>} [response] - 실패 응답 (응답을 받은 경우)
+ */
+export interface RemoteResponseError<T = unknown, D = unknown> {
+  message: string;
+  code?: string;
+  status?: number;
+  config?: RemoteRequestConfig<D>;
+  response?: RemoteResponse<T, D>;
+}
@@ -1,11 +1,11 @@
-import { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { RemoteRequestConfig, RemoteResponse } from "./remote-response";
 
 export type RequestInterceptor = (
-  config: InternalAxiosRequestConfig
-) => InternalAxiosRequestConfig | Promise<InternalAxiosRequestConfig>;
+  config: RemoteRequestConfig
+) => RemoteRequestConfig | Promise<RemoteRequestConfig>;
 
 export type ResponseInterceptor = (
-  response: AxiosResponse
-) => AxiosResponse | Promise<AxiosResponse>;
+  response: RemoteResponse
+) => RemoteResponse | Promise<RemoteResponse>;
 
 export type TokenRefreshLogic = () => Promise<void>;
@@ -0,0 +1,66 @@
+import { RequestCacheOptions } from "./cache-config";
+import { EncryptionDirection } from "./encryption-config";
+import {
+  HttpMethod,
+  RemoteResponseType,
+  RequestHeaders,
+  RequestProgressEvent,
+} from "./http";
+import { RequestPriority } from "./request-priority";
+import { ResponseSchema } from "./response-schema";
+import { RetryConfig } from "./retry-config";
+
+/**
+ * @interface RequestOptions
+ * @description 개별 요청마다 전달할 수 있는 옵션 인터페이스
+ * @property {Record<string, unknown>} [params] - 쿼리 파라미터
+ * @property {RequestHeaders} [headers] - 요청 헤더
+ * @property {number} [timeout] - 요청 타임아웃(ms)
+ * @property {RemoteResponseType} [responseType] - 응답 데이터 타입 (json, text, blob 등)
+ * @property {AbortSignal} [signal] - 요청 취소용 AbortSignal
+ * @property {boolean | EncryptionDirection} [encrypt] - 요청별 암호화 강제/제외 (true: both, false: 미적용, 미설정 시 encryptionConfig 규칙 적용)
+ * @property {boolean | RequestCacheOptions} [cache] - 요청별 캐시 옵션 (false: 캐시 미사용, GET 외 요청은 invalidateUrls만 사용)
+ * @property {boolean} [dedupe] - 동일한 GET/HEAD 요청이 진행 중일 때 결과 공유 여부 (기본값: 클라이언트 dedupe 설정)
+ * @property {RetryConfig | false} [retry] - 요청별 재시도 정책 (클라이언트 정책에 병합, false면 재시도 안 함)
+ * @property {RequestPriority} [priority] - 동시 요청 수 제한 시 대기열 우선순위 (기본값: NORMAL)
+ * @property {boolean} [offline] - 오프라인 대기열 사용 여부 (false: 오프라인이어도 저장하지 않고 바로 실패, 기본값: true)
+ * @property {function} [onUploadProgress] - 요청 본문 업로드 진행 콜백 (FetchTransport는 미지원)
+ * @property {function} [onDownloadProgress] - 응답 본문 다운로드 진행 콜백
+ * @property {boolean} [replayable] - 토큰 재발급 후 자동 재전송 여부 (기본값: 본문 크기가 maxReplayBodySize 이하이고 스트림이 아니면 true)
+ * @property {ResponseSchema<T> | false} [schema] - 응답 본문 검증 스키마 (지정 시 응답 타입 T를 스키마에서 추론, false: 클라이언트 responseSchemas 규칙 미적용)
+ * @property {boolean} [withAuth] - 인증 정보 포함 여부 (false: 인증 헤더 미포함 / 토큰 만료 응답에도 재발급하지 않음, 기본값: true)
+ * @property {boolean} [convertKeys] - 클라이언트 keyCase 설정에 따른 키 표기법 변환 여부 (기본값: true)
+ */
+export interface RequestOptions<T = unknown> {
+  params?: Record<string, unknown>;
+  headers?: RequestHeaders;
+  timeout?: number;
+  responseType?: RemoteResponseType;
+  signal?: AbortSignal;
+  encrypt?: boolean | EncryptionDirection;
+  cache?: boolean | RequestCacheOptions;
+  dedupe?: boolean;
+  retry?: RetryConfig | false;
+  priority?: RequestPriority;
+  offline?: boolean;
+  onUploadProgress?: (event: RequestProgressEvent) => void;
+  onDownloadProgress?: (event: RequestProgressEvent) => void;
+  replayable?: boolean;
+  schema?: ResponseSchema<T> | false;
+  withAuth?: boolean;
+  convertKeys?: boolean;
+}
+
+/**
+ * @interface RequestConfig
+ * @description `request` 메서드에 전달하는 전체 요청 설정 인터페이스
+ * @property {string} url - 요청 URL
+ * @property {HttpMethod} [method] - HTTP 메서드 (기본값: GET)
+ * @property {D} [data] - 요청 본문 데이터
+ */
+export interface RequestConfig<D = unknown, T = unknown>
+  extends RequestOptions<T> {
+  url: string;
+  method?: HttpMethod;
+  data?: D;
+}
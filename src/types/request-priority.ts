@@ -0,0 +1,12 @@
+/**
+ * @enum RequestPriority
+ * @description 동시 요청 수 제한 시 대기열 처리 우선순위 (값이 작을수록 먼저 처리)
+ *  - INTERACTIVE: 사용자 조작에 대한 응답 등 즉시 필요한 요청
+ *  - NORMAL: 일반 요청 (기본값)
+ *  - BACKGROUND: 프리페치 등 지연되어도 되는 요청
+ */
+export enum RequestPriority {
+  INTERACTIVE,
+  NORMAL,
+  BACKGROUND,
+}
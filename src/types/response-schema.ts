@@ -0,0 +1,63 @@
+import { HttpMethod } from "./http";
+
+/**
+ * @interface SchemaIssue
+ * @description 스키마 검증 실패 항목 (Zod issue / Standard Schema issue와 호환)
+ * @property {string} message - 실패 사유
+ * @property {ReadonlyArray<PropertyKey | { key: PropertyKey }>} [path] - 실패한 값의 경로
+ */
+export interface SchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * @interface SafeParseSchema
+ * @description `safeParse` 메서드를 가진 스키마 (Zod 등)
+ */
+export interface SafeParseSchema<T> {
+  safeParse(
+    data: unknown
+  ):
+    | { success: true; data: T }
+    | { success: false; error: { issues: ReadonlyArray<SchemaIssue> } };
+}
+
+/**
+ * @interface StandardSchema
+ * @description Standard Schema 규격을 따르는 스키마 (Valibot, ArkType, Zod 3.24+ 등)
+ */
+export interface StandardSchema<T> {
+  readonly "~standard": {
+    validate(
+      value: unknown
+    ): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+/**
+ * Standard Schema 검증 결과 (issues가 있으면 실패)
+ */
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<SchemaIssue> };
+
+/**
+ * @type ResponseSchema
+ * @description 응답 본문 검증 스키마 (검증 통과 시 스키마의 결과 값으로 응답 본문 대체)
+ */
+export type ResponseSchema<T> = SafeParseSchema<T> | StandardSchema<T>;
+
+/**
+ * @interface ResponseSchemaRule
+ * @description URL별 응답 스키마 규칙 (처음 일치하는 규칙 적용, 요청별 schema 옵션이 우선)
+ * @property {string | RegExp} match - 일치 조건
+ *    (문자열: 경로 접두사 또는 glob, `https://`처럼 scheme으로 시작하면 전체 URL 기준 / 정규식: 경로 또는 전체 URL)
+ * @property {HttpMethod[]} [methods] - 적용할 HTTP 메서드 (미설정 시 전체)
+ * @property {ResponseSchema<unknown>} schema - 응답 본문 검증 스키마
+ */
+export interface ResponseSchemaRule {
+  match: string | RegExp;
+  methods?: HttpMethod[];
+  schema: ResponseSchema<unknown>;
+}
@@ -0,0 +1,24 @@
+import { HttpMethod } from "./http";
+
+/**
+ * @interface RetryConfig
+ * @description 일시적 실패(네트워크 오류, 429/502/503/504 등)에 대한 자동 재시도 정책
+ * @property {number} [maxRetries] - 최대 재시도 횟수 (기본값: 3, 0이면 재시도 안 함)
+ * @property {number} [baseDelay] - 지수 백오프 기준 지연(ms) (기본값: 300)
+ * @property {number} [maxDelay] - 재시도 간 최대 지연(ms) (기본값: 10000)
+ * @property {boolean} [jitter] - 지연에 무작위 편차 적용 여부 (기본값: true)
+ * @property {number[]} [retryStatusCodes] - 재시도 대상 HTTP 상태 코드 (기본값: [429, 502, 503, 504])
+ * @property {HttpMethod[]} [retryMethods] - 재시도 대상 HTTP 메서드 (기본값: 멱등 메서드 GET, HEAD, OPTIONS, PUT, DELETE)
+ * @property {boolean} [retryOnNetworkError] - 응답 없는 네트워크 오류 재시도 여부 (기본값: true)
+ * @property {boolean} [respectRetryAfter] - `Retry-After` 헤더 준수 여부 (기본값: true)
+ */
+export interface RetryConfig {
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  retryStatusCodes?: number[];
+  retryMethods?: HttpMethod[];
+  retryOnNetworkError?: boolean;
+  respectRetryAfter?: boolean;
+}
@@ -0,0 +1,8 @@
+/**
+ * @type SessionState
+ * @description 인증 세션 상태
+ *  - authenticated: 정상 (또는 일시적 실패로 재발급하지 못했지만 세션은 유효한 것으로 간주)
+ *  - refreshing: 토큰 재발급 중
+ *  - expired: 서버가 재발급을 거부하여 세션 만료 (재로그인 필요)
+ */
+export type SessionState = "authenticated" | "refreshing" | "expired";
@@ -0,0 +1,131 @@
+import { RequestOptions } from "./request-options";
+import { ResponseSchema } from "./response-schema";
+
+/**
+ * @type SubscriptionTransport
+ * @description 구독 전송 방식
+ *  - sse: Server-Sent Events (text/event-stream 스트리밍 응답)
+ *  - long-polling: 응답을 받을 때마다 다시 요청
+ *  - auto: sse로 연결하고, 스트리밍 응답을 받을 수 없으면(어댑터 미지원, event-stream이 아닌 응답) long-polling으로 전환
+ */
+export type SubscriptionTransport = "sse" | "long-polling" | "auto";
+
+/**
+ * @type SubscriptionState
+ * @description 구독 연결 상태
+ *  - connecting: 최초 연결 중
+ *  - open: 연결됨 (long-polling은 요청이 성공한 상태)
+ *  - reconnecting: 연결이 끊겨 재연결 대기 / 재연결 중
+ *  - closed: 종료됨 (close 호출, 재연결 불가 에러, 재연결 횟수 초과, 서버의 204 응답)
+ */
+export type SubscriptionState =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+/**
+ * @interface SubscriptionEvent
+ * @description 파싱 전 이벤트 (SSE 이벤트 블록 또는 long-polling 응답의 항목)
+ * @property {string} [id] - 이벤트 ID (재연결 시 Last-Event-ID로 전송)
+ * @property {string} [event] - 이벤트 타입 (기본값: message)
+ * @property {unknown} data - 이벤트 데이터 (SSE는 문자열)
+ */
+export interface SubscriptionEvent {
+  id?: string;
+  event?: string;
+  data: unknown;
+}
+
+/**
+ * @interface SubscriptionMessage
+ * @description 파싱 / 검증을 마친 메시지
+ * @property {string} [id] - 이벤트 ID
+ * @property {string} event - 이벤트 타입
+ * @property {T} data - 파싱된 데이터
+ */
+export interface SubscriptionMessage<T> {
+  id?: string;
+  event: string;
+  data: T;
+}
+
+/**
+ * @interface ReconnectConfig
+ * @description 구독 재연결 정책
+ * - 네트워크 오류 / 타임아웃 / 408 / 429 / 5xx / 스트림 종료 시 재연결 (그 외 에러는 구독 종료)
+ * - 연속 실패마다 지연을 두 배로 늘리고, 연결에 성공하면 초기화
+ * @property {number} [initialDelay] - 첫 재연결 지연(ms) (기본값: 1000, SSE의 retry 필드가 있으면 해당 값)
+ * @property {number} [maxDelay] - 재연결 간 최대 지연(ms) (기본값: 30000)
+ * @property {number} [maxAttempts] - 연속 재연결 최대 횟수 (기본값: 무제한)
+ * @property {boolean} [jitter] - 지연에 무작위 편차 적용 여부 (기본값: true)
+ */
+export interface ReconnectConfig {
+  initialDelay?: number;
+  maxDelay?: number;
+  maxAttempts?: number;
+  jitter?: boolean;
+}
+
+/**
+ * @interface SubscriptionOptions
+ * @description `subscribe` 메서드 옵션
+ * - 연결 요청은 클라이언트를 거치므로 인증 헤더 / 쿠키 인증 / 토큰 만료 시 공유 재발급이 그대로 적용
+ * - timeout은 long-polling 요청에만 적용 (SSE는 heartbeatTimeout 사용)
+ * @property {SubscriptionTransport} [transport] - 전송 방식 (기본값: sse)
+ * @property {string} [pollUrl] - long-polling 요청 URL (기본값: 구독 URL)
+ * @property {string} [lastEventId] - 첫 연결에 사용할 Last-Event-ID (이전 구독 이어받기)
+ * @property {string} [lastEventIdParam] - Last-Event-ID를 헤더와 함께 전달할 쿼리 파라미터 이름 (헤더를 전달하지 못하는 프록시 대응)
+ * @property {number} [heartbeatTimeout] - SSE 연결 응답 / 스트림 데이터(주석 포함)를 이 시간(ms) 동안 받지 못하면 재연결 (기본값: 미사용)
+ * @property {ReconnectConfig | false} [reconnect] - 재연결 정책 (false: 재연결하지 않음)
+ * @property {function} [parse] - 이벤트 데이터 파싱 (기본값: 문자열이면 JSON 파싱, 실패 시 문자열 그대로)
+ * @property {ResponseSchema<T>} [schema] - 파싱된 데이터 검증 스키마 (실패한 메시지는 onError로 전달 후 건너뜀)
+ * @property {function} [parsePollResponse] - long-polling 응답 본문을 이벤트 목록으로 변환
+ *    (기본값: 배열이면 각 항목, 객체면 한 항목 / data 속성이 있는 항목은 { id, event, data }로 간주)
+ * @property {function} onMessage - 메시지 수신 콜백
+ * @property {function} [onOpen] - 연결(재연결 포함) 성공 콜백
+ * @property {function} [onError] - 에러 콜백 (연결 실패, 파싱 / 검증 실패, 구독 종료 에러)
+ * @property {function} [onStateChange] - 연결 상태 변경 콜백
+ */
+export interface SubscriptionOptions<T = unknown>
+  extends Omit<
+    RequestOptions,
+    | "responseType"
+    | "schema"
+    | "retry"
+    | "cache"
+    | "dedupe"
+    | "offline"
+    | "replayable"
+    | "onUploadProgress"
+    | "onDownloadProgress"
+  > {
+  transport?: SubscriptionTransport;
+  pollUrl?: string;
+  lastEventId?: string;
+  lastEventIdParam?: string;
+  heartbeatTimeout?: number;
+  reconnect?: ReconnectConfig | false;
+  parse?: (data: unknown, event: string) => T;
+  schema?: ResponseSchema<T>;
+  parsePollResponse?: (data: unknown) => SubscriptionEvent[];
+  onMessage: (message: SubscriptionMessage<T>) => void;
+  onOpen?: () => void;
+  onError?: (error: unknown) => void;
+  onStateChange?: (state: SubscriptionState) => void;
+}
+
+/**
+ * @interface Subscription
+ * @description `subscribe`가 반환하는 구독 핸들
+ * @property {SubscriptionState} state - 현재 연결 상태
+ * @property {"sse" | "long-polling"} transport - 현재 전송 방식 (auto는 연결 후 결정)
+ * @property {string} [lastEventId] - 마지막으로 받은 이벤트 ID
+ * @property {function} close - 구독 종료 (여러 번 호출해도 안전)
+ */
+export interface Subscription {
+  readonly state: SubscriptionState;
+  readonly transport: "sse" | "long-polling";
+  readonly lastEventId: string | undefined;
+  close(): void;
+}
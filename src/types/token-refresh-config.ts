@@ -1,16 +1,94 @@
-import { AxiosError } from "axios";
+import { RemoteRequestError } from "../errors/remote-request-error";
+import { RemoteResponse, RemoteResponseError } from "./remote-response";
+import { AuthTokens } from "./token-trasport-config";
+
+/**
+ * @interface RefreshTokenHeaderConfig
+ * @description refreshToken을 요청 본문 대신 헤더로 전송할 때의 설정
+ * @property {string} name - refreshToken을 담을 헤더 이름 (ex. X-Refresh-Token)
+ * @property {string} [prefix] - 헤더 값 앞에 붙일 접두사 (ex. "Bearer ")
+ */
+export interface RefreshTokenHeaderConfig {
+  name: string;
+  prefix?: string;
+}
+
+/**
+ * @interface ProactiveRefreshConfig
+ * @description 만료 임박 토큰 선제 재발급 설정
+ * @property {number} [refreshBeforeExpirySeconds] - 만료 몇 초 전부터 선제 재발급할지 (기본값: 30)
+ * @property {Function} [getAccessTokenExpiresAt] - accessToken 만료 시각(epoch ms) 조회 함수
+ *    (WEB_COOKIE 모드 필수, STORAGE 모드 미설정 시 accessToken의 JWT exp 클레임 사용)
+ */
+export interface ProactiveRefreshConfig {
+  refreshBeforeExpirySeconds?: number;
+  getAccessTokenExpiresAt?: () =>
+    | number
+    | null
+    | undefined
+    | Promise<number | null | undefined>;
+}
+
+/**
+ * @interface TokenRefreshErrorMappers
+ * @description 에러 매핑 설정
+ * @property {Error} [urlRequestIsEmpty] - 요청 정보가 없을 때 반환할 에러
+ * @property {Function} [mapError] - 외부로 전달되는 에러를 도메인 에러로 변환하는 함수
+ *    (호출자에게 전달하는 에러에만 적용, 오프라인 대기열 / 재전송 / 토큰 재발급의 실패 판단은 변환 전 에러 기준)
+ *    (HttpStatusError.data로 서버 에러 본문 접근 가능, undefined 반환 시 원래 에러 유지)
+ */
+export interface TokenRefreshErrorMappers {
+  urlRequestIsEmpty?: Error;
+  mapError?: (error: RemoteRequestError) => unknown;
+}
+
+/**
+ * @interface RefreshPolicyConfig
+ * @description 토큰 재발급 실패 처리 정책
+ * - 일시적 실패(네트워크 오류, 타임아웃, 5xx 등)는 재시도하고, 재시도 후에도 실패하면 대기 요청만 실패 처리 (로그아웃하지 않음)
+ * - 인증 거부(그 외 실패)는 즉시 실패 처리하고 세션을 expired로 전환 (reissueTokenFailureCallback 호출)
+ * @property {number} [maxRetries] - 일시적 실패 시 최대 재시도 횟수 (기본값: 2)
+ * @property {number} [baseDelay] - 지수 백오프 기준 지연 시간(ms) (기본값: 500)
+ * @property {number} [maxDelay] - 최대 지연 시간(ms) (기본값: 5000)
+ * @property {number} [timeout] - 재발급 요청 타임아웃(ms) (기본값: 10000)
+ * @property {Function} [isTransientError] - 일시적 실패 판별 함수
+ *    (기본값: 네트워크 오류, 타임아웃, 408 / 429 / 5xx 응답)
+ * @property {number} [failureThreshold] - 연속 실패 몇 번이면 재발급을 차단할지 (기본값: 3)
+ * @property {number} [cooldownMs] - 차단(circuit open) 유지 시간(ms), 인증 거부 시에도 적용 (기본값: 30000)
+ */
+export interface RefreshPolicyConfig {
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  timeout?: number;
+  isTransientError?: (error: unknown) => boolean;
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
 
 /**
  * @interface TokenRefreshConfig
  * @description 토큰 갱신(재발급) 관련 설정 인터페이스
- * @property {(error: AxiosError) => boolean} checkTokenExpiredError - 주어진 에러가 토큰 만료 에러인지 판별하는 함수
+ * @property {(error: RemoteResponseError) => boolean} checkTokenExpiredError - 주어진 에러가 토큰 만료 에러인지 판별하는 함수
  * @property {string} tokenReissueUrl - 토큰 재발급을 위한 API URL
- * @property {{ urlRequestIsEmpty?: Error }} errorMappers - 에러 매핑 객체 (요청 정보가 없을 때의 에러 등)
+ * @property {TokenRefreshErrorMappers} errorMappers - 에러 매핑 객체 (요청 정보가 없을 때의 에러, 도메인 에러 변환 등)
+ * @property {Function} [buildReissueRequestBody] - [STORAGE 모드] 재발급 요청 본문 생성 함수
+ *    (기본값: `{accessToken, refreshToken}`, refreshTokenHeader 사용 시 `{accessToken}`)
+ * @property {Function} [mapReissueResponse] - [STORAGE 모드] 재발급 응답에서 신규 토큰을 추출하는 함수
+ *    (기본값: `response.data`를 `{accessToken, refreshToken}`으로 간주)
+ * @property {RefreshTokenHeaderConfig} [refreshTokenHeader] - [STORAGE 모드] refreshToken 헤더 전송 설정
+ * @property {ProactiveRefreshConfig} [proactiveRefresh] - 만료 임박 토큰 선제 재발급 설정 (미설정 시 응답 기반 재발급만 수행)
+ * @property {RefreshPolicyConfig} [refreshPolicy] - 재발급 실패 시 재시도 / 차단 정책
  */
 export interface TokenRefreshConfig {
-  checkTokenExpiredError: (error: AxiosError) => boolean;
+  checkTokenExpiredError: (error: RemoteResponseError) => boolean;
   tokenReissueUrl: string;
-  errorMappers: {
-    urlRequestIsEmpty?: Error;
-  };
+  errorMappers: TokenRefreshErrorMappers;
+  buildReissueRequestBody?: (tokens: AuthTokens) => unknown;
+  mapReissueResponse?: (
+    response: RemoteResponse<unknown>
+  ) => AuthTokens | null | undefined;
+  refreshTokenHeader?: RefreshTokenHeaderConfig;
+  proactiveRefresh?: ProactiveRefreshConfig;
+  refreshPolicy?: RefreshPolicyConfig;
 }
@@ -1,3 +1,5 @@
+import { AuthRule, AuthStrategy } from "./auth-strategy";
+
 /**
  * @enum TokenTransportType
  * @description 토큰 전송 유형을 나타냅니다.
@@ -9,16 +11,32 @@ export enum TokenTransportType {
   STORAGE,
 }
 
+/**
+ * @interface AuthTokens
+ * @description 인증 토큰(access/refreshToken) 쌍
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 /**
  * @interface TokenTransportConfig
  * @description 토큰 전송 방식 및 인증 토큰 획득 메서드 정의
  * @property {TokenTransportType} tokenTransportType - 사용할 토큰 전송 방식(WEB_COOKIE 또는 STORAGE)
  * @property {Function} [fetchAuthTokenMethod] - 인증 토큰(access/refreshToken) 반환 함수(비동기).
  *    콜백은 `{accessToken, refreshToken}` 객체 또는 null을 Promise로 반환해야 합니다.
+ * @property {AuthStrategy} [authStrategy] - 요청에 인증 정보를 적용하는 전략
+ *    (기본값: STORAGE 모드는 `Authorization: Bearer <accessToken>`, WEB_COOKIE 모드는 없음)
+ *    (WEB_COOKIE 모드에 createCsrfTokenStrategy를 지정하면 쿠키 세션 + CSRF 헤더 방식)
+ * @property {AuthRule[]} [authRules] - URL별 인증 전략 규칙 (공개 API / 외부 호스트 인증 제외 등)
+ * @property {string[]} [authOrigins] - 기본 전략을 적용할 origin 목록 (상대 경로는 항상 적용, "*"면 제한 없음)
+ *    (미설정 시 제한 없음 + 경고 로그, 외부 호스트 요청이 있으면 설정 권장)
  */
 export interface TokenTransportConfig {
   tokenTransportType: TokenTransportType;
-  fetchAuthTokenMethod?:
-    | (() => Promise<{ accessToken: string; refreshToken: string } | null>)
-    | null;
+  fetchAuthTokenMethod?: (() => Promise<AuthTokens | null>) | null;
+  authStrategy?: AuthStrategy;
+  authRules?: AuthRule[];
+  authOrigins?: string[];
 }
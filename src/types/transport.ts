@@ -0,0 +1,66 @@
+import { RemoteResponseType } from "./http";
+
+/**
+ * @interface TransportProgressEvent
+ * @description 전송 진행 상황
+ * @property {number} loaded - 전송된 byte 수
+ * @property {number} [total] - 전체 byte 수 (알 수 없으면 미설정)
+ */
+export interface TransportProgressEvent {
+  loaded: number;
+  total?: number;
+}
+
+/**
+ * @interface TransportRequest
+ * @description 전송 계층에 전달되는 최종 요청
+ * - 인증 헤더 / 암호화 / 본문 직렬화가 모두 끝난 상태
+ * @property {string} url - 쿼리 파라미터까지 포함한 전체 URL
+ * @property {string} method - 대문자 HTTP 메서드
+ * @property {Record<string, string>} headers - 요청 헤더
+ * @property {unknown} [body] - 직렬화된 요청 본문 (string, FormData, Blob, ArrayBuffer 등)
+ * @property {number} [timeout] - 요청 타임아웃(ms) (0 또는 미설정 시 제한 없음)
+ * @property {AbortSignal} [signal] - 요청 취소용 AbortSignal
+ * @property {RemoteResponseType} [responseType] - 응답 본문 형식 (기본값: json)
+ * @property {boolean} [withCredentials] - 교차 출처 요청에 쿠키 포함 여부
+ * @property {function} [onUploadProgress] - 요청 본문 업로드 진행 콜백 (지원하지 않는 Transport는 무시)
+ * @property {function} [onDownloadProgress] - 응답 본문 다운로드 진행 콜백 (지원하지 않는 Transport는 무시)
+ */
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  timeout?: number;
+  signal?: AbortSignal;
+  responseType?: RemoteResponseType;
+  withCredentials?: boolean;
+  onUploadProgress?: (event: TransportProgressEvent) => void;
+  onDownloadProgress?: (event: TransportProgressEvent) => void;
+}
+
+/**
+ * @interface TransportResponse
+ * @description 전송 계층이 반환하는 응답
+ * - 상태 코드와 관계없이 응답을 받았으면 resolve (2xx 여부 판단은 RemoteRequest에서 수행)
+ * - json / text 응답은 파싱하지 않은 문자열로 반환 (JSON 파싱은 RemoteRequest에서 수행)
+ * @property {number} status - HTTP 상태 코드
+ * @property {string} statusText - HTTP 상태 메시지
+ * @property {Record<string, string>} headers - 응답 헤더 (소문자 이름)
+ * @property {unknown} data - 응답 본문
+ */
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * @interface Transport
+ * @description 요청 전송 계층 (axios, fetch 등으로 교체 가능)
+ * - 응답을 받지 못하면 NetworkError / TimeoutError / CancelledError로 reject
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
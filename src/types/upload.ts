@@ -0,0 +1,36 @@
+import { RequestOptions } from "./request-options";
+
+/**
+ * @type UploadBody
+ * @description `upload` 메서드로 보낼 수 있는 본문
+ *  - Blob / File: multipart로 감싸 전송 (raw 옵션 시 본문 그대로 전송)
+ *  - FormData: 그대로 전송
+ */
+export type UploadBody = Blob | FormData;
+
+/**
+ * @interface UploadOptions
+ * @description `upload` 메서드 옵션
+ * @property {"post" | "put" | "patch"} [method] - HTTP 메서드 (기본값: post)
+ * @property {boolean} [raw] - multipart로 감싸지 않고 Blob을 본문 그대로 전송 (presigned URL 업로드 등, 기본값: false)
+ * @property {string} [fieldName] - multipart 파일 필드 이름 (기본값: file)
+ * @property {string} [fileName] - multipart 파일 이름 (기본값: File.name, 없으면 blob)
+ * @property {Record<string, string | Blob>} [fields] - 파일과 함께 전송할 multipart 필드
+ */
+export interface UploadOptions<T = unknown> extends RequestOptions<T> {
+  method?: "post" | "put" | "patch";
+  raw?: boolean;
+  fieldName?: string;
+  fileName?: string;
+  fields?: Record<string, string | Blob>;
+}
+
+/**
+ * @interface DownloadOptions
+ * @description `download` 메서드 옵션
+ * @property {"blob" | "arraybuffer" | "stream" | "text"} [responseType] - 응답 본문 형식 (기본값: blob)
+ */
+export interface DownloadOptions
+  extends Omit<RequestOptions, "responseType" | "schema"> {
+  responseType?: "blob" | "arraybuffer" | "stream" | "text";
+}
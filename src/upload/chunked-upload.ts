@@ -0,0 +1,136 @@
+import {
+  CancelledError,
+  ConfigurationError,
+  isRemoteRequestError,
+  RemoteRequestErrorCode,
+} from "../errors/remote-request-error";
+import { isTransientRefreshError } from "../refresh/refresh-policy";
+import { RemoteRequestMethod } from "../remoteRequestMehtodType";
+import {
+  ChunkedUploadOptions,
+  ChunkedUploadSession,
+  ChunkUploadProtocol,
+} from "../types/chunked-upload";
+import { sleep } from "../utils/retry";
+
+/**
+ * 기본 조각 크기 (5MiB)
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 조각 재시도 대상 에러인지 확인
+ * - 네트워크 오류 / 타임아웃 / 408 / 429 / 5xx
+ * - 토큰 재발급 후 자동 재전송하지 않은 조각 (토큰은 이미 재발급됨)
+ */
+function isRetryableChunkError(error: unknown): boolean {
+  return (
+    isRemoteRequestError(error, RemoteRequestErrorCode.REQUEST_NOT_REPLAYED) ||
+    isTransientRefreshError(error)
+  );
+}
+
+/**
+ * 분할 업로드 실행
+ * - 세션 생성(또는 uploadId로 이어 올리기 위치 확인) 후 조각을 순서대로 전송
+ * - 실패한 조각은 서버의 진행 위치를 다시 확인한 뒤 그 위치부터 재전송
+ *   (토큰 재발급 대기열에서 큰 본문을 자동 재전송하지 않으므로 조각 단위로 재시도)
+ * @param client - 요청에 사용할 클라이언트
+ * @param file - 업로드할 파일
+ * @param protocol - 서버 분할 업로드 규약
+ * @param options - 분할 업로드 옵션
+ * @returns protocol.complete 결과
+ */
+export async function uploadInChunks<T>(
+  client: RemoteRequestMethod,
+  file: Blob,
+  protocol: ChunkUploadProtocol<T>,
+  options: ChunkedUploadOptions = {}
+): Promise<T> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new ConfigurationError(
+      "[RemoteRequestImpl] chunkSize must be a positive integer"
+    );
+  }
+  const maxChunkRetries = options.maxChunkRetries ?? 3;
+  const retryDelay = options.retryDelay ?? 1000;
+  const signal = options.signal;
+  const total = file.size;
+  const throwIfCancelled = () => {
+    if (signal?.aborted) throw new CancelledError("Upload was cancelled");
+  };
+
+  throwIfCancelled();
+  let session: ChunkedUploadSession;
+  if (options.uploadId) {
+    const context = { client, file, uploadId: options.uploadId, signal };
+    session = {
+      uploadId: options.uploadId,
+      uploadedBytes: protocol.getUploadedBytes
+        ? await protocol.getUploadedBytes(context)
+        : 0,
+    };
+  } else {
+    session = await protocol.start({
+      client,
+      file,
+      fileName: options.fileName ?? (file as File).name,
+      chunkSize,
+      signal,
+    });
+  }
+  options.onSessionStart?.(session);
+
+  const context = { client, file, uploadId: session.uploadId, signal };
+  const reportProgress = (loaded: number) =>
+    options.onProgress?.({
+      uploadId: session.uploadId,
+      loaded,
+      total,
+      progress: total === 0 ? 1 : Math.min(loaded / total, 1),
+    });
+
+  let offset = Math.max(0, Math.min(session.uploadedBytes, total));
+  let attempt = 0;
+  reportProgress(offset);
+  while (offset < total) {
+    throwIfCancelled();
+    const start = offset;
+    const end = Math.min(start + chunkSize, total);
+    try {
+      await protocol.uploadChunk({
+        ...context,
+        chunk: file.slice(start, end),
+        index: Math.floor(start / chunkSize),
+        start,
+        end,
+        onUploadProgress: (event) =>
+          reportProgress(start + Math.min(event.loaded, end - start)),
+      });
+      offset = end;
+      attempt = 0;
+      reportProgress(offset);
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= maxChunkRetries ||
+        !isRetryableChunkError(error)
+      ) {
+        throw error;
+      }
+      attempt++;
+      await sleep(retryDelay * Math.pow(2, attempt - 1));
+      throwIfCancelled();
+      // 실패 직전까지 서버에 저장된 위치부터 이어서 전송
+      if (protocol.getUploadedBytes) {
+        offset = Math.max(
+          0,
+          Math.min(await protocol.getUploadedBytes(context), total)
+        );
+      }
+    }
+  }
+
+  return protocol.complete(context);
+}
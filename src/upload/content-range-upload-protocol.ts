@@ -0,0 +1,107 @@
+import {
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+} from "../errors/remote-request-error";
+import { ChunkUploadProtocol } from "../types/chunked-upload";
+import { RemoteResponse } from "../types/remote-response";
+
+/**
+ * @interface ContentRangeUploadProtocolOptions
+ * @description Content-Range 기반 분할 업로드 규약 설정
+ * @property {string} createUrl - 세션 생성 URL (POST, 본문: { fileName, size, type })
+ * @property {function} chunkUrl - 조각 전송 URL (PUT, `Content-Range: bytes {start}-{end - 1}/{total}`) / 진행 위치 조회 URL (HEAD)
+ * @property {function} completeUrl - 업로드 완료 URL (POST)
+ * @property {function} [getUploadId] - 세션 생성 응답에서 uploadId 추출 (기본값: data.uploadId)
+ * @property {function} [getUploadedBytes] - 진행 위치 조회 응답에서 저장된 byte 수 추출 (기본값: `Range: bytes=0-{n}` 헤더의 n + 1, 없으면 0)
+ */
+export interface ContentRangeUploadProtocolOptions {
+  createUrl: string;
+  chunkUrl: (uploadId: string) => string;
+  completeUrl: (uploadId: string) => string;
+  getUploadId?: (response: RemoteResponse) => string;
+  getUploadedBytes?: (response: RemoteResponse) => number;
+}
+
+/**
+ * `Range: bytes=0-{n}` 응답 헤더를 저장된 byte 수로 변환
+ */
+function parseRangeHeader(response: RemoteResponse): number {
+  const range = response.headers["range"];
+  const matched =
+    typeof range === "string" ? /bytes=\d+-(\d+)/.exec(range) : null;
+  return matched ? Number(matched[1]) + 1 : 0;
+}
+
+/**
+ * Content-Range 기반 분할 업로드 규약 생성
+ * - start: POST createUrl → uploadId
+ * - uploadChunk: PUT chunkUrl(uploadId) + Content-Range 헤더
+ * - getUploadedBytes: HEAD chunkUrl(uploadId) → Range 헤더
+ * - complete: POST completeUrl(uploadId) → 응답 본문
+ * @param options - 규약 설정
+ */
+export function createContentRangeUploadProtocol<T = unknown>(
+  options: ContentRangeUploadProtocolOptions
+): ChunkUploadProtocol<T> {
+  const getUploadedBytes = options.getUploadedBytes ?? parseRangeHeader;
+
+  return {
+    async start({ client, file, fileName, signal }) {
+      const response = await client.post(
+        options.createUrl,
+        { fileName, size: file.size, type: file.type },
+        { signal, offline: false }
+      );
+      const uploadId = options.getUploadId
+        ? options.getUploadId(response)
+        : (response.data as { uploadId?: string } | undefined)?.uploadId;
+      if (!uploadId) {
+        throw new RemoteRequestError(
+          RemoteRequestErrorCode.UNKNOWN,
+          "[RemoteRequestImpl] upload session response has no uploadId",
+          { url: options.createUrl, method: "post" }
+        );
+      }
+      return { uploadId, uploadedBytes: 0 };
+    },
+
+    async uploadChunk({
+      client,
+      file,
+      uploadId,
+      chunk,
+      start,
+      end,
+      signal,
+      onUploadProgress,
+    }) {
+      await client.put(options.chunkUrl(uploadId), chunk, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Range": `bytes ${start}-${end - 1}/${file.size}`,
+        },
+        signal,
+        onUploadProgress,
+        offline: false,
+      });
+    },
+
+    async getUploadedBytes({ client, uploadId, signal }) {
+      const response = await client.head(options.chunkUrl(uploadId), {
+        signal,
+        cache: false,
+        dedupe: false,
+      });
+      return getUploadedBytes(response);
+    },
+
+    async complete({ client, uploadId, signal }) {
+      const response = await client.post<T>(
+        options.completeUrl(uploadId),
+        undefined,
+        { signal, offline: false }
+      );
+      return response.data;
+    },
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * 외부 AbortSignal이 중단되면 내부 AbortController도 중단되도록 연결
+ * @param signal - 외부(사용자) AbortSignal
+ * @param controller - 내부 AbortController
+ * @returns 연결 해제 함수 (요청 종료 후 호출하여 리스너 정리)
+ */
+export function linkAbortSignal(
+  signal: AbortSignal | undefined,
+  controller: AbortController
+): () => void {
+  if (!signal) return () => undefined;
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
@@ -0,0 +1,23 @@
+/**
+ * URL의 origin (`scheme://host[:port]`, 상대 경로면 null)
+ */
+export function getUrlOrigin(url: string): string | null {
+  const matched = url.match(/^[a-z][a-z\d+\-.]*:\/\/[^/?#]*/i);
+  return matched ? matched[0].toLowerCase() : null;
+}
+
+/**
+ * 인증 정보를 보낼 수 있는 origin인지 확인
+ * - 상대 경로는 항상 허용
+ * - allowedOrigins에 "*"가 있으면 모든 origin 허용
+ * @param url - 요청 URL
+ * @param allowedOrigins - 허용 origin 목록 (null이면 제한 없음)
+ */
+export function isAuthOriginAllowed(
+  url: string,
+  allowedOrigins: string[] | null
+): boolean {
+  if (!allowedOrigins || allowedOrigins.includes("*")) return true;
+  const origin = getUrlOrigin(url);
+  return !origin || allowedOrigins.includes(origin);
+}
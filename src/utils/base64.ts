@@ -0,0 +1,28 @@
+/**
+ * 바이트 배열을 base64 문자열로 변환 (브라우저 / Node 공통)
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // 큰 배열에서 인자 개수 제한을 넘지 않도록 나누어 변환
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.from(bytes.subarray(i, i + chunkSize))
+    );
+  }
+  return btoa(binary);
+}
+
+/**
+ * base64(또는 base64url) 문자열을 바이트 배열로 변환 (브라우저 / Node 공통)
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const normalized = base64.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(normalized + "===".slice((normalized.length + 3) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,59 @@
+/**
+ * 바이너리(파일) 응답 형식
+ */
+export const BINARY_RESPONSE_TYPES = ["blob", "arraybuffer", "stream"];
+
+/**
+ * 스트림 본문 여부 (웹 ReadableStream, Node Readable)
+ * - 한 번 읽으면 다시 보낼 수 없음
+ */
+function isStreamBody(data: unknown): boolean {
+  if (!data || typeof data !== "object") return false;
+  if (typeof ReadableStream !== "undefined" && data instanceof ReadableStream) {
+    return true;
+  }
+  return typeof (data as { pipe?: unknown }).pipe === "function";
+}
+
+/**
+ * 바이너리 요청 본문 여부 (FormData, Blob/File, ArrayBuffer, TypedArray, 스트림)
+ * @param data - 요청 본문
+ */
+export function isBinaryBody(data: unknown): boolean {
+  if (!data || typeof data !== "object") return false;
+  if (typeof FormData !== "undefined" && data instanceof FormData) return true;
+  if (typeof Blob !== "undefined" && data instanceof Blob) return true;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return true;
+  return isStreamBody(data);
+}
+
+/**
+ * 요청 본문 크기(byte) 추정
+ * - 문자열은 길이, Blob은 size, ArrayBuffer는 byteLength, FormData는 필드 합계
+ * - 스트림은 크기를 알 수 없고 다시 보낼 수 없으므로 Infinity
+ * - 그 외 객체(JSON 직렬화 전 본문)는 0
+ * @param data - 요청 본문
+ */
+export function getBodySize(data: unknown): number {
+  if (data === undefined || data === null) return 0;
+  if (typeof data === "string") return data.length;
+  if (typeof data !== "object") return 0;
+  if (typeof Blob !== "undefined" && data instanceof Blob) return data.size;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  if (typeof FormData !== "undefined" && data instanceof FormData) {
+    let size = 0;
+    data.forEach((value) => {
+      size += getBodySize(value);
+    });
+    return size;
+  }
+  if (
+    typeof URLSearchParams !== "undefined" &&
+    data instanceof URLSearchParams
+  ) {
+    return data.toString().length;
+  }
+  return isStreamBody(data) ? Infinity : 0;
+}
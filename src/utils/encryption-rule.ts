@@ -0,0 +1,91 @@
+import {
+  EncryptionConfig,
+  EncryptionDirection,
+  EncryptionRule,
+} from "../types/encryption-config";
+
+/**
+ * URL에서 경로만 추출 (origin, 쿼리스트링, 해시 제거)
+ * @param url - 절대 또는 상대 URL
+ */
+export function getUrlPath(url: string): string {
+  const withoutOrigin = url.replace(/^[a-z][a-z\d+\-.]*:\/\/[^/?#]*/i, "");
+  const path = withoutOrigin.split(/[?#]/)[0];
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+/**
+ * glob 패턴을 정규식으로 변환
+ * - `**`: `/`를 포함한 모든 문자열, `*`: `/`를 제외한 문자열, `?`: `/`를 제외한 한 문자
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 경로가 규칙의 match와 일치하는지 확인
+ */
+export function isPathMatched(match: string | RegExp, path: string): boolean {
+  if (match instanceof RegExp) {
+    match.lastIndex = 0;
+    return match.test(path);
+  }
+  if (/[*?]/.test(match)) return globToRegExp(match).test(path);
+  return path.startsWith(match);
+}
+
+function isDirectionMatched(
+  ruleDirection: EncryptionDirection | undefined,
+  direction: Exclude<EncryptionDirection, "both">
+): boolean {
+  const resolved = ruleDirection ?? "both";
+  return resolved === "both" || resolved === direction;
+}
+
+/**
+ * 요청이 암호화 규칙에 해당하는지 확인
+ * - rules 중 하나라도 일치하면 true
+ * - (deprecated) encryptUrlStr은 URL 포함 여부로 판단하며 POST/PUT 요청 암호화, 모든 메서드 응답 복호화
+ * @param config - 암호화 설정
+ * @param url - 요청 URL
+ * @param method - 요청 메서드
+ * @param direction - 확인할 방향 (request: 요청 암호화, response: 응답 복호화)
+ */
+export function matchEncryptionRules(
+  config: EncryptionConfig,
+  url: string,
+  method: string,
+  direction: Exclude<EncryptionDirection, "both">
+): boolean {
+  const normalizedMethod = method.toLowerCase();
+
+  if (config.encryptUrlStr && url.includes(config.encryptUrlStr)) {
+    if (direction === "response") return true;
+    if (normalizedMethod === "post" || normalizedMethod === "put") return true;
+  }
+
+  const path = getUrlPath(url);
+  return (config.rules ?? []).some(
+    (rule: EncryptionRule) =>
+      isDirectionMatched(rule.direction, direction) &&
+      (!rule.methods ||
+        rule.methods.some(
+          (ruleMethod) => ruleMethod.toLowerCase() === normalizedMethod
+        )) &&
+      isPathMatched(rule.match, path)
+  );
+}
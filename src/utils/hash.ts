@@ -0,0 +1,37 @@
+/**
+ * FNV-1a 32bit 해시 (offsetBasis로 서로 다른 해시 계열 생성)
+ */
+function fnv1a(value: string, offsetBasis: number): number {
+  let hash = offsetBasis;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 문자열의 SHA-256 해시(hex)
+ * - 사용자 식별자처럼 충돌하면 안 되는 값에 사용
+ * - Web Crypto를 사용할 수 없는 환경(비보안 컨텍스트 등)에서는
+ *   서로 다른 offset basis의 FNV-1a 4개를 이어 붙인 128bit 해시로 대체 (보안 해시가 아님)
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  const bytes = subtle
+    ? new Uint8Array(
+        await subtle.digest("SHA-256", new TextEncoder().encode(value))
+      )
+    : new Uint8Array(
+        new Uint32Array(
+          [0x811c9dc5, 0x050c5d1f, 0x1b873593, 0x27d4eb2f].map((offsetBasis) =>
+            fnv1a(value, offsetBasis)
+          )
+        ).buffer
+      );
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+  }
+  return hex;
+}
@@ -0,0 +1,41 @@
+import { base64ToBytes } from "./base64";
+
+/**
+ * JWT payload 클레임 디코딩 (서명은 검증하지 않으며, 디코딩할 수 없으면 null)
+ */
+function decodeJwtClaims(token: string): Record<string, unknown> | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    const json = new TextDecoder().decode(base64ToBytes(payload));
+    const claims: unknown = JSON.parse(json);
+    return claims && typeof claims === "object"
+      ? (claims as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * JWT의 exp 클레임을 만료 시각(epoch ms)으로 변환
+ * - 서명은 검증하지 않으며, 디코딩할 수 없거나 exp가 없으면 null 반환
+ * @param token - JWT 문자열
+ */
+export function decodeJwtExpiresAt(token: string): number | null {
+  const exp = decodeJwtClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/**
+ * JWT의 sub 클레임 (토큰 재발급 후에도 유지되는 사용자 식별자)
+ * - 서명은 검증하지 않으며, 디코딩할 수 없거나 sub가 없으면 null 반환
+ * @param token - JWT 문자열
+ */
+export function decodeJwtSubject(token: string): string | null {
+  const sub = decodeJwtClaims(token)?.sub;
+  return typeof sub === "string" || typeof sub === "number"
+    ? String(sub)
+    : null;
+}
@@ -0,0 +1,51 @@
+import { KeyCase } from "../types/key-case";
+
+/**
+ * camelCase → snake_case (ex. userId → user_id, userID → user_id)
+ */
+export function toSnakeCase(key: string): string {
+  return key
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .toLowerCase();
+}
+
+/**
+ * snake_case → camelCase (ex. user_id → userId, 앞뒤 `_`는 유지)
+ */
+export function toCamelCase(key: string): string {
+  const matched = /^(_*)(.*?)(_*)$/.exec(key);
+  if (!matched) return key;
+  const [, leading, body, trailing] = matched;
+  return (
+    leading +
+    body.replace(/[_-]+([a-z\d])/gi, (_, char: string) => char.toUpperCase()) +
+    trailing
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * 일반 객체 / 배열의 키 표기법을 재귀적으로 변환
+ * - 그 외 값(문자열, FormData, Blob, Date 등)은 그대로 반환
+ * @param value - 변환할 값
+ * @param keyCase - 변환할 표기법
+ */
+export function convertKeyCase<T = unknown>(value: T, keyCase: KeyCase): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertKeyCase(item, keyCase)) as unknown as T;
+  }
+  if (!isPlainObject(value)) return value;
+
+  const convertKey = keyCase === "camelCase" ? toCamelCase : toSnakeCase;
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    result[convertKey(key)] = convertKeyCase(value[key], keyCase);
+  });
+  return result as T;
+}
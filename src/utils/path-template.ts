@@ -0,0 +1,23 @@
+import { ConfigurationError } from "../errors/remote-request-error";
+
+/**
+ * 경로 템플릿의 `:name` 파라미터를 URL 인코딩한 값으로 치환
+ * - scheme / 포트(`https://host:8080`)는 파라미터로 취급하지 않음
+ * @param template - 경로 템플릿 (ex. "/users/:id")
+ * @param params - 경로 파라미터 값
+ * @throws ConfigurationError - 템플릿의 파라미터 값이 없는 경우
+ */
+export function buildPath(
+  template: string,
+  params: Record<string, string | number> = {}
+): string {
+  return template.replace(/:([A-Za-z_][A-Za-z\d_]*)/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new ConfigurationError(
+        `[RemoteRequestImpl] missing path parameter "${name}" for ${template}`
+      );
+    }
+    return encodeURIComponent(String(value));
+  });
+}
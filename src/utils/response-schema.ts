@@ -0,0 +1,43 @@
+import { ResponseSchema, SchemaIssue } from "../types/response-schema";
+
+/**
+ * 검증 결과 (성공 시 스키마 결과 값, 실패 시 실패 항목)
+ */
+export type SchemaValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ReadonlyArray<SchemaIssue> };
+
+/**
+ * 스키마로 값 검증 (safeParse / Standard Schema 모두 지원)
+ * @param schema - 검증 스키마
+ * @param data - 검증할 값
+ */
+export async function validateWithSchema<T>(
+  schema: ResponseSchema<T>,
+  data: unknown
+): Promise<SchemaValidationResult<T>> {
+  if ("~standard" in schema) {
+    const result = await schema["~standard"].validate(data);
+    return result.issues
+      ? { success: false, issues: result.issues }
+      : { success: true, data: (result as { value: T }).value };
+  }
+  const result = schema.safeParse(data);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: result.error.issues };
+}
+
+/**
+ * 실패 항목의 경로를 문자열로 변환 (ex. items[0].name, 최상위 값이면 빈 문자열)
+ */
+export function formatSchemaPath(issue: SchemaIssue): string {
+  return (issue.path ?? []).reduce<string>((path, segment) => {
+    const key =
+      typeof segment === "object" && segment !== null && "key" in segment
+        ? segment.key
+        : segment;
+    if (typeof key === "number") return `${path}[${key}]`;
+    return path ? `${path}.${String(key)}` : String(key);
+  }, "");
+}
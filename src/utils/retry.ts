@@ -0,0 +1,130 @@
+import { AxiosError } from "axios";
+
+import {
+  CancelledError,
+  RemoteRequestErrorOptions,
+} from "../errors/remote-request-error";
+
+import { RetryConfig } from "../types/retry-config";
+
+/**
+ * 기본값이 모두 채워진 재시도 정책
+ */
+export type ResolvedRetryConfig = Required<RetryConfig>;
+
+export const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
+  maxRetries: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryStatusCodes: [429, 502, 503, 504],
+  retryMethods: ["get", "head", "options", "put", "delete"],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * 클라이언트 기본 정책과 요청별 정책을 병합
+ * - 요청별 정책이 false면 재시도하지 않음
+ * - 클라이언트, 요청 모두 정책이 없으면 재시도하지 않음
+ */
+export function resolveRetryConfig(
+  clientConfig: RetryConfig | undefined,
+  requestConfig: RetryConfig | false | undefined
+): ResolvedRetryConfig | null {
+  if (requestConfig === false) return null;
+  if (!clientConfig && !requestConfig) return null;
+  return { ...DEFAULT_RETRY_CONFIG, ...clientConfig, ...requestConfig };
+}
+
+/**
+ * 재시도 대상 에러인지 확인
+ * - 취소된 요청, 재시도 대상이 아닌 메서드는 제외
+ * - 응답이 없으면 네트워크 오류로 간주
+ */
+export function isRetryableError(
+  error: AxiosError,
+  config: ResolvedRetryConfig
+): boolean {
+  if (error.code === AxiosError.ERR_CANCELED) return false;
+
+  const method = (error.config?.method ?? "get").toLowerCase();
+  const isRetryableMethod = config.retryMethods.some(
+    (retryMethod) => retryMethod.toLowerCase() === method
+  );
+  if (!isRetryableMethod) return false;
+
+  if (!error.response) return config.retryOnNetworkError;
+  return config.retryStatusCodes.includes(error.response.status);
+}
+
+/**
+ * `Retry-After` 헤더를 지연 시간(ms)으로 변환
+ * - 초 단위 숫자 또는 HTTP 날짜 형식을 지원
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * 재시도 지연 시간(ms) 계산
+ * - `Retry-After` 헤더가 있으면 우선 사용, 없으면 지수 백오프(+ full jitter)
+ * - 어떤 경우에도 maxDelay를 넘지 않음
+ * @param attempt - 재시도 회차 (1부터 시작)
+ */
+export function computeRetryDelay(
+  attempt: number,
+  config: ResolvedRetryConfig,
+  error?: AxiosError
+): number {
+  if (config.respectRetryAfter) {
+    const retryAfter = parseRetryAfter(
+      error?.response?.headers?.["retry-after"]
+    );
+    if (retryAfter !== null) return Math.min(retryAfter, config.maxDelay);
+  }
+
+  const exponential = Math.min(
+    config.baseDelay * 2 ** (attempt - 1),
+    config.maxDelay
+  );
+  return config.jitter ? Math.random() * exponential : exponential;
+}
+
+/**
+ * 지정한 시간(ms) 대기
+ * - signal이 취소되면 즉시 CancelledError로 reject
+ * @param ms - 대기 시간(ms)
+ * @param signal - 대기 취소용 AbortSignal
+ * @param errorOptions - 취소 에러에 담을 요청 정보
+ */
+export function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  errorOptions?: RemoteRequestErrorOptions
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const createCancelledError = () =>
+      new CancelledError("Request was cancelled", errorOptions);
+    if (signal?.aborted) {
+      reject(createCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * 객체 키를 정렬하여 직렬화 (키 순서와 관계없이 같은 값은 같은 문자열)
+ * - 요청 키 생성용이며 순환 참조는 지원하지 않음
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(",")}}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * 스트림 응답 본문 읽기 핸들
+ * @property {Promise<void>} done - 스트림이 끝나면(취소 포함) resolve, 읽기 실패 시 reject
+ * @property {function} cancel - 읽기 중단 및 연결 종료
+ */
+export interface StreamReader {
+  done: Promise<void>;
+  cancel(): void;
+}
+
+interface NodeReadableLike {
+  on(event: "data", listener: (chunk: Uint8Array | string) => void): unknown;
+  on(event: "end" | "close", listener: () => void): unknown;
+  on(event: "error", listener: (error: unknown) => void): unknown;
+  destroy(): void;
+}
+
+/**
+ * 스트림 응답 본문을 조각 단위로 읽기
+ * - Web ReadableStream (fetch / FetchTransport)과 Node.js Readable (axios http 어댑터) 지원
+ * - 응답 요청의 signal과 별개로 cancel로 연결을 종료해야 함 (어댑터는 응답 수신 후 signal 연결을 해제할 수 있음)
+ * @param body - responseType: "stream" 응답 본문
+ * @param onChunk - 조각 수신 콜백
+ * @returns 스트림이 아니면 null
+ */
+export function readStreamBody(
+  body: unknown,
+  onChunk: (chunk: Uint8Array | string) => void
+): StreamReader | null {
+  if (!body || typeof body !== "object") return null;
+
+  if (typeof (body as ReadableStream).getReader === "function") {
+    const reader = (body as ReadableStream<Uint8Array>).getReader();
+    const read = async (): Promise<void> => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        onChunk(value);
+      }
+    };
+    return {
+      done: read(),
+      cancel: () => {
+        reader.cancel().catch(() => undefined);
+      },
+    };
+  }
+
+  const readable = body as NodeReadableLike;
+  if (
+    typeof readable.on === "function" &&
+    typeof readable.destroy === "function"
+  ) {
+    return {
+      done: new Promise<void>((resolve, reject) => {
+        readable.on("data", onChunk);
+        readable.on("end", () => resolve());
+        readable.on("close", () => resolve());
+        readable.on("error", reject);
+      }),
+      cancel: () => readable.destroy(),
+    };
+  }
+  return null;
+}
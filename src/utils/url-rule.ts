@@ -0,0 +1,49 @@
+import { HttpMethod } from "../types/http";
+import { getUrlPath, globToRegExp, isPathMatched } from "./encryption-rule";
+
+const ABSOLUTE_URL_PATTERN = /^[a-z][a-z\d+\-.]*:\/\//i;
+
+/**
+ * URL / 메서드 일치 조건을 가진 규칙 (인증 규칙, 응답 스키마 규칙 등)
+ */
+export interface UrlRule {
+  match: string | RegExp;
+  methods?: HttpMethod[];
+}
+
+/**
+ * 요청과 처음 일치하는 규칙
+ * - 문자열: 경로 접두사 또는 glob, scheme으로 시작하면 전체 URL 기준
+ * - 정규식: 경로 또는 전체 URL
+ * @param rules - 규칙 목록
+ * @param url - baseURL을 반영한 전체 URL
+ * @param method - 요청 메서드
+ */
+export function findUrlRule<R extends UrlRule>(
+  rules: R[],
+  url: string,
+  method: string
+): R | undefined {
+  const normalizedMethod = method.toLowerCase();
+  const path = getUrlPath(url);
+  return rules.find((rule) => {
+    if (
+      rule.methods &&
+      !rule.methods.some(
+        (ruleMethod) => ruleMethod.toLowerCase() === normalizedMethod
+      )
+    ) {
+      return false;
+    }
+    if (rule.match instanceof RegExp) {
+      return isPathMatched(rule.match, path) || isPathMatched(rule.match, url);
+    }
+    if (ABSOLUTE_URL_PATTERN.test(rule.match)) {
+      const withoutQuery = url.split(/[?#]/)[0];
+      return /[*?]/.test(rule.match)
+        ? globToRegExp(rule.match).test(withoutQuery)
+        : withoutQuery.startsWith(rule.match);
+    }
+    return isPathMatched(rule.match, path);
+  });
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AesGcmEnvelopeParts,
+  MockAdapter,
+  RemoteRequest,
+  TokenTransportType,
+  createAesGcmEncryption,
+} from "../src";
+import { base64ToBytes, bytesToBase64 } from "../src/utils/base64";
+
+const KEY = bytesToBase64(new Uint8Array(32).fill(7));
+const OTHER_KEY = bytesToBase64(new Uint8Array(32).fill(9));
+
+/**
+ * base64 값의 첫 byte를 뒤집어 반환
+ */
+function flipFirstByte(value: string): string {
+  const bytes = base64ToBytes(value);
+  bytes[0] ^= 0xff;
+  return bytesToBase64(bytes);
+}
+
+describe("createAesGcmEncryption", () => {
+  it("decrypts what it encrypted", async () => {
+    const encryption = createAesGcmEncryption({ key: KEY });
+
+    const parts = await encryption.encrypt('{"amount":10,"memo":"커피"}');
+
+    expect(parts.payload).not.toContain("amount");
+    await expect(encryption.decrypt(parts)).resolves.toBe(
+      '{"amount":10,"memo":"커피"}'
+    );
+  });
+
+  it("uses a fresh IV for every message", async () => {
+    const encryption = createAesGcmEncryption({ key: KEY });
+
+    const first = await encryption.encrypt("same");
+    const second = await encryption.encrypt("same");
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.payload).not.toBe(second.payload);
+  });
+
+  it("rejects a tampered payload", async () => {
+    const encryption = createAesGcmEncryption({ key: KEY });
+    const parts = await encryption.encrypt("pay 10");
+
+    await expect(
+      encryption.decrypt({ ...parts, payload: flipFirstByte(parts.payload) })
+    ).rejects.toThrow();
+  });
+
+  it("rejects a tampered auth tag", async () => {
+    const encryption = createAesGcmEncryption({ key: KEY });
+    const parts = await encryption.encrypt("pay 10");
+
+    await expect(
+      encryption.decrypt({ ...parts, tag: flipFirstByte(parts.tag) })
+    ).rejects.toThrow();
+  });
+
+  it("rejects a message encrypted with another key", async () => {
+    const parts = await createAesGcmEncryption({ key: OTHER_KEY }).encrypt(
+      "pay 10"
+    );
+
+    await expect(
+      createAesGcmEncryption({ key: KEY }).decrypt(parts)
+    ).rejects.toThrow();
+  });
+
+  it("imports the key once and again only when the key function returns a new key", async () => {
+    let importCount = 0;
+    const webCrypto = {
+      getRandomValues: <T extends ArrayBufferView | null>(array: T) =>
+        crypto.getRandomValues(array),
+      subtle: {
+        encrypt: crypto.subtle.encrypt.bind(crypto.subtle),
+        decrypt: crypto.subtle.decrypt.bind(crypto.subtle),
+        importKey: (...args: Parameters<SubtleCrypto["importKey"]>) => {
+          importCount += 1;
+          return crypto.subtle.importKey(...args);
+        },
+      },
+    } as Crypto;
+    let key = KEY;
+    const encryption = createAesGcmEncryption({
+      key: () => key,
+      crypto: webCrypto,
+    });
+
+    await encryption.decrypt(await encryption.encrypt("first"));
+    await encryption.encrypt("second");
+    expect(importCount).toBe(1);
+
+    key = OTHER_KEY;
+    await encryption.encrypt("third");
+    expect(importCount).toBe(2);
+  });
+
+  it("rejects an invalid envelope with DecryptionError", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/secure/balance").reply(200, { balance: 1 });
+    const client = new RemoteRequest({
+      baseURL: "https://api.test",
+      adapter: mock.adapter,
+      logLevel: "silent",
+      encryptionConfig: {
+        rules: [{ match: "/secure/" }],
+        ...createAesGcmEncryption({ key: KEY }),
+      },
+      tokenTransportConfig: {
+        tokenTransportType: TokenTransportType.WEB_COOKIE,
+      },
+      tokenConfig: {
+        tokenReissueUrl: "/auth/reissue",
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+      },
+    });
+
+    await expect(client.get("/secure/balance")).rejects.toMatchObject({
+      name: "DecryptionError",
+      cause: { name: "DecryptionError", message: "Invalid AES-GCM envelope" },
+    });
+    client.dispose();
+  });
+
+  it("fails with EncryptionError when Web Crypto is unavailable", async () => {
+    const encryption = createAesGcmEncryption({
+      key: KEY,
+      crypto: {} as Crypto,
+    });
+
+    await expect(encryption.encrypt("pay 10")).rejects.toMatchObject({
+      name: "EncryptionError",
+      code: "ENCRYPTION_FAILED",
+    });
+  });
+});
+
+describe("AES-GCM encryption through RemoteRequest", () => {
+  function createClient(mock: MockAdapter) {
+    return new RemoteRequest({
+      baseURL: "https://api.test",
+      adapter: mock.adapter,
+      logLevel: "silent",
+      encryptionConfig: {
+        rules: [{ match: "/secure/" }],
+        ...createAesGcmEncryption({ key: KEY }),
+      },
+      tokenTransportConfig: {
+        tokenTransportType: TokenTransportType.WEB_COOKIE,
+      },
+      tokenConfig: {
+        tokenReissueUrl: "/auth/reissue",
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+      },
+    });
+  }
+
+  it("round-trips an encrypted request and response", async () => {
+    const server = createAesGcmEncryption({ key: KEY });
+    const mock = new MockAdapter();
+    mock.onPost("/secure/echo").replyWith(async (request) => {
+      const body = JSON.parse(
+        await server.decrypt(request.data as AesGcmEnvelopeParts)
+      );
+      return {
+        status: 200,
+        data: await server.encrypt(JSON.stringify({ echo: body })),
+      };
+    });
+    const client = createClient(mock);
+
+    const response = await client.post("/secure/echo", { amount: 10 });
+
+    expect(mock.history[0].data).not.toHaveProperty("amount");
+    expect(response.data).toEqual({ echo: { amount: 10 } });
+    client.dispose();
+  });
+
+  it("fails with DecryptionError when the response was encrypted with another key", async () => {
+    const server = createAesGcmEncryption({ key: OTHER_KEY });
+    const mock = new MockAdapter();
+    mock.onGet("/secure/balance").replyWith(async () => ({
+      status: 200,
+      data: await server.encrypt('{"balance":1}'),
+    }));
+    const client = createClient(mock);
+
+    await expect(client.get("/secure/balance")).rejects.toMatchObject({
+      name: "DecryptionError",
+      code: "DECRYPTION_FAILED",
+    });
+    client.dispose();
+  });
+});
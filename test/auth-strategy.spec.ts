@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  AuthStrategy,
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestLogger,
+  TokenTransportType,
+  createHmacSigningStrategy,
+} from "../src";
+import { bytesToBase64 } from "../src/utils/base64";
+
+function createLogger(): RemoteRequestLogger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+function createClient(
+  mock: MockAdapter,
+  options: {
+    authOrigins?: string[];
+    authStrategy?: AuthStrategy;
+    logger?: RemoteRequestLogger;
+  } = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logger: options.logger,
+    logLevel: options.logger ? "warn" : "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => ({
+        accessToken: "token",
+        refreshToken: "refresh",
+      }),
+      authOrigins: options.authOrigins,
+      authStrategy: options.authStrategy,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async () => undefined,
+  });
+}
+
+async function sha256Base64(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+describe("auth origins", () => {
+  it("applies the default strategy to every origin and warns when authOrigins is unset", async () => {
+    const mock = new MockAdapter();
+    mock.onAny().reply(200, {});
+    const logger = createLogger();
+    const client = createClient(mock, { logger });
+
+    await client.get("https://other.test/data");
+
+    expect(mock.history[0].headers.Authorization).toBe("Bearer token");
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("authOrigins")
+    );
+    client.dispose();
+  });
+
+  it("sends credentials only to the configured origins and relative URLs", async () => {
+    const mock = new MockAdapter();
+    mock.onAny().reply(200, {});
+    const logger = createLogger();
+    const client = createClient(mock, {
+      authOrigins: ["https://api.test"],
+      logger,
+    });
+
+    await client.get("/me");
+    await client.get("https://api.test/me");
+    await client.get("https://other.test/data");
+
+    expect(
+      mock.history.map((request) => request.headers.Authorization)
+    ).toEqual(["Bearer token", "Bearer token", undefined]);
+    expect(logger.warn).not.toHaveBeenCalled();
+    client.dispose();
+  });
+});
+
+describe("createHmacSigningStrategy", () => {
+  const secret = bytesToBase64(new Uint8Array(32).fill(3));
+
+  it("signs the body and headers produced by inner middleware", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").reply(200, {});
+    const client = createClient(mock, {
+      authOrigins: ["*"],
+      authStrategy: createHmacSigningStrategy({ secret, keyId: "k1" }),
+    });
+    client.use({
+      position: "inner",
+      before: (config) => {
+        config.data = JSON.stringify({ ...(config.data as object), n: 2 });
+        config.headers.set("X-Trace", "t1");
+      },
+    });
+
+    await client.post("/orders", { n: 1 });
+
+    const [request] = mock.history;
+    expect(request.headers["X-Trace"]).toBe("t1");
+    expect(request.headers["X-Key-Id"]).toBe("k1");
+    expect(request.headers["X-Content-SHA256"]).toBe(
+      await sha256Base64(request.config.data as string)
+    );
+    expect(request.data).toEqual({ n: 2 });
+    client.dispose();
+  });
+
+  it("rejects unsupported bodies with a ConfigurationError", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/upload").reply(200, {});
+    const client = createClient(mock, {
+      authOrigins: ["*"],
+      authStrategy: createHmacSigningStrategy({ secret }),
+    });
+
+    await expect(
+      client.post("/upload", new Blob(["file"]), { offline: false })
+    ).rejects.toMatchObject({
+      name: "ConfigurationError",
+      code: "CONFIGURATION_ERROR",
+    });
+    expect(mock.history).toHaveLength(0);
+    client.dispose();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AuthTokens,
+  MockAdapter,
+  RemoteRequest,
+  TokenTransportType,
+} from "../src";
+
+const REISSUE_URL = "/auth/reissue";
+
+function createClient(mock: MockAdapter) {
+  let tokens: AuthTokens = { accessToken: "old", refreshToken: "refresh" };
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    headers: { "X-App": "web", "X-Tenant": "a" },
+    params: { locale: "ko" },
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => tokens,
+    },
+    tokenConfig: {
+      tokenReissueUrl: REISSUE_URL,
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+      tokens = { accessToken, refreshToken };
+    },
+  });
+}
+
+describe("createChild", () => {
+  it("merges headers and params and replaces the other options", async () => {
+    const mock = new MockAdapter();
+    mock.onGet().reply(200, {});
+    const parent = createClient(mock);
+    parent.use({
+      before: (config) => {
+        config.headers.set("X-Parent-Middleware", "1");
+      },
+    });
+    const child = parent.createChild({
+      baseURL: "https://files.test",
+      headers: { "X-Tenant": "b" },
+      params: { v: 2 },
+    });
+
+    await child.get("/list");
+
+    const [request] = mock.history;
+    expect(request.fullUrl).toBe("https://files.test/list?locale=ko&v=2");
+    expect(request.headers).toMatchObject({
+      "X-App": "web",
+      "X-Tenant": "b",
+      Authorization: "Bearer old",
+    });
+    expect(request.headers["X-Parent-Middleware"]).toBeUndefined();
+    parent.dispose();
+  });
+
+  it("shares one reissue with the parent and keeps the parent reissue URL", async () => {
+    const mock = new MockAdapter({ delay: 5 });
+    mock
+      .onPost("https://api.test/auth/reissue")
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    mock
+      .onGet()
+      .replyWith((request) =>
+        request.headers.Authorization === "Bearer new"
+          ? { status: 200, data: { url: request.fullUrl } }
+          : { status: 401 }
+      );
+    const parent = createClient(mock);
+    const child = parent.createChild({ baseURL: "https://files.test" });
+
+    const responses = await Promise.all([
+      parent.get("/me"),
+      child.get("/list"),
+    ]);
+
+    expect(responses.map((response) => response.data)).toEqual([
+      { url: "https://api.test/me?locale=ko" },
+      { url: "https://files.test/list?locale=ko" },
+    ]);
+    expect(
+      mock.findRequests("post", "https://api.test/auth/reissue")
+    ).toHaveLength(1);
+    expect(mock.findRequests("post")).toHaveLength(1);
+    parent.dispose();
+  });
+
+  it("shares the session state and is disposed with its parent", async () => {
+    const mock = new MockAdapter();
+    mock.onPost(/\/auth\/reissue$/).reply(401);
+    mock.onGet().reply(401);
+    const parent = createClient(mock);
+    const child = parent.createChild();
+
+    await expect(child.get("/me")).rejects.toMatchObject({
+      name: "TokenRefreshError",
+    });
+    expect(parent.getSessionState()).toBe("expired");
+
+    parent.dispose();
+    await expect(child.get("/me")).rejects.toMatchObject({
+      name: "CancelledError",
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+
+import {
+  defineApi,
+  endpoint,
+  MockAdapter,
+  RemoteRequest,
+  SafeParseSchema,
+  TokenTransportType,
+} from "../src";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const userSchema: SafeParseSchema<User> = {
+  safeParse: (data) => {
+    const user = data as Partial<User>;
+    return typeof user.id === "number" && typeof user.name === "string"
+      ? { success: true, data: { id: user.id, name: user.name } }
+      : {
+          success: false,
+          error: { issues: [{ message: "Expected a user", path: ["id"] }] },
+        };
+  },
+};
+
+function createApi(mock: MockAdapter) {
+  const client = new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => ({
+        accessToken: "token",
+        refreshToken: "refresh",
+      }),
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async () => undefined,
+  });
+  const api = defineApi(client, {
+    getUser: { method: "get", path: "/users/:id", schema: userSchema },
+    searchUsers: endpoint<User[], undefined, { q: string }>()({
+      method: "get",
+      path: "/users",
+      options: { params: { limit: 10 }, headers: { "X-Source": "api" } },
+    }),
+    renameUser: endpoint<User, { name: string }>()({
+      method: "patch",
+      path: "/users/:id/name",
+    }),
+    health: { method: "get", path: "/health", auth: false },
+  });
+  return { client, api };
+}
+
+describe("defineApi", () => {
+  it("fills and encodes path params and sends the body", async () => {
+    const mock = new MockAdapter();
+    mock.onPatch().reply(200, { id: 1, name: "lee" });
+    const { client, api } = createApi(mock);
+
+    const user = await api.renameUser({
+      params: { id: "a/b c" },
+      body: { name: "lee" },
+    });
+
+    expect(user).toEqual({ id: 1, name: "lee" });
+    expect(mock.history[0].url).toBe("/users/a%2Fb%20c/name");
+    expect(mock.history[0].data).toEqual({ name: "lee" });
+    client.dispose();
+  });
+
+  it("merges the query with the endpoint options and lets call options win", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/users").reply(200, []);
+    const { client, api } = createApi(mock);
+
+    await api.searchUsers({
+      query: { q: "kim" },
+      options: { headers: { "X-Source": "search" } },
+    });
+
+    expect(mock.history[0].params).toEqual({ limit: 10, q: "kim" });
+    expect(mock.history[0].headers["X-Source"]).toBe("search");
+    client.dispose();
+  });
+
+  it("omits credentials for auth: false endpoints", async () => {
+    const mock = new MockAdapter();
+    mock.onGet().reply(200, {});
+    const { client, api } = createApi(mock);
+
+    await api.health();
+    await api.searchUsers({ query: { q: "" } });
+
+    expect(
+      mock.history.map((request) => request.headers.Authorization)
+    ).toEqual([undefined, "Bearer token"]);
+    client.dispose();
+  });
+
+  it("validates the response with the endpoint schema", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/users/1").reply(200, { id: 1, name: "kim", extra: true });
+    mock.onGet("/users/2").reply(200, { id: "2" });
+    const { client, api } = createApi(mock);
+
+    await expect(api.getUser({ params: { id: 1 } })).resolves.toEqual({
+      id: 1,
+      name: "kim",
+    });
+    await expect(api.getUser({ params: { id: 2 } })).rejects.toMatchObject({
+      name: "ValidationError",
+      path: "id",
+    });
+    client.dispose();
+  });
+
+  it("infers argument and response types from the definitions", () => {
+    const { client, api } = createApi(new MockAdapter());
+
+    expectTypeOf(api.getUser).returns.resolves.toEqualTypeOf<User>();
+    expectTypeOf(api.searchUsers).returns.resolves.toEqualTypeOf<User[]>();
+    expectTypeOf(api.renameUser).returns.resolves.toEqualTypeOf<User>();
+    expectTypeOf(api.renameUser).toBeCallableWith({
+      params: { id: 1 },
+      body: { name: "lee" },
+    });
+    // @ts-expect-error 본문 누락
+    expectTypeOf(api.renameUser).toBeCallableWith({ params: { id: 1 } });
+    // @ts-expect-error 경로 파라미터 누락
+    expectTypeOf(api.getUser).toBeCallableWith({});
+    client.dispose();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  EncryptionConfig,
+  MockAdapter,
+  RemoteRequest,
+  TokenTransportType,
+} from "../src";
+
+const BASE_URL = "https://api.test";
+
+/**
+ * 본문을 { sealed: <JSON 문자열> }로 감싸는 테스트용 암호화 설정
+ */
+function createSealingEncryption(
+  options: Partial<EncryptionConfig> = {}
+): EncryptionConfig {
+  return {
+    rules: [{ match: "/secure/" }],
+    requestInterceptor: (config) => {
+      config.data = { sealed: JSON.stringify(config.data) };
+      return config;
+    },
+    responseInterceptor: (response) => {
+      const { sealed } = response.data as { sealed: string };
+      response.data = JSON.parse(sealed);
+      return response;
+    },
+    ...options,
+  };
+}
+
+function createClient(mock: MockAdapter, encryptionConfig: EncryptionConfig) {
+  return new RemoteRequest({
+    baseURL: BASE_URL,
+    adapter: mock.adapter,
+    logLevel: "silent",
+    encryptionConfig,
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+  });
+}
+
+describe("encryption routing", () => {
+  it("encrypts requests and decrypts responses on matching paths", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onPost("/secure/pay")
+      .reply(200, { sealed: JSON.stringify({ ok: true }) });
+    const client = createClient(mock, createSealingEncryption());
+
+    const response = await client.post("/secure/pay", { amount: 10 });
+
+    expect(mock.history[0].data).toEqual({
+      sealed: JSON.stringify({ amount: 10 }),
+    });
+    expect(response.data).toEqual({ ok: true });
+    client.dispose();
+  });
+
+  it("leaves other paths untouched", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/public/pay").reply(200, { ok: true });
+    const client = createClient(mock, createSealingEncryption());
+
+    const response = await client.post("/public/pay", { amount: 10 });
+
+    expect(mock.history[0].data).toEqual({ amount: 10 });
+    expect(response.data).toEqual({ ok: true });
+    client.dispose();
+  });
+
+  it("lets the per-request encrypt option override the rules", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/secure/raw").reply(200, { ok: true });
+    mock
+      .onPost("/public/sealed")
+      .reply(200, { sealed: JSON.stringify({ ok: true }) });
+    const client = createClient(mock, createSealingEncryption());
+
+    const raw = await client.post(
+      "/secure/raw",
+      { amount: 1 },
+      { encrypt: false }
+    );
+    const sealed = await client.post(
+      "/public/sealed",
+      { amount: 2 },
+      { encrypt: true }
+    );
+
+    expect(mock.history.map((request) => request.data)).toEqual([
+      { amount: 1 },
+      { sealed: JSON.stringify({ amount: 2 }) },
+    ]);
+    expect(raw.data).toEqual({ ok: true });
+    expect(sealed.data).toEqual({ ok: true });
+    client.dispose();
+  });
+
+  it("applies only the configured direction of a rule", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/secure/upload").reply(200, { ok: true });
+    const client = createClient(
+      mock,
+      createSealingEncryption({
+        rules: [{ match: "/secure/", direction: "request" }],
+      })
+    );
+
+    const response = await client.post("/secure/upload", { amount: 3 });
+
+    expect(mock.history[0].data).toEqual({
+      sealed: JSON.stringify({ amount: 3 }),
+    });
+    expect(response.data).toEqual({ ok: true });
+    client.dispose();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  CancelledError,
+  HttpStatusError,
+  isRemoteRequestError,
+  MockAdapter,
+  NetworkError,
+  RemoteRequest,
+  RemoteRequestError,
+  RemoteRequestErrorCode,
+  RemoteRequestOptions,
+  TimeoutError,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+class DomainError extends Error {
+  constructor(readonly reason: string) {
+    super(reason);
+  }
+}
+
+describe("error hierarchy", () => {
+  it("rejects non-2xx responses with HttpStatusError carrying the response body", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/items/1").reply(422, { field: "name" }, { "x-trace": "t1" });
+    const client = createClient(mock);
+
+    const error = await client.get("/items/1").catch((error) => error);
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toBeInstanceOf(RemoteRequestError);
+    expect(error).toMatchObject({
+      code: RemoteRequestErrorCode.HTTP_STATUS,
+      status: 422,
+      data: { field: "name" },
+      headers: { "x-trace": "t1" },
+      url: "/items/1",
+    });
+    client.dispose();
+  });
+
+  it("classifies network errors and timeouts", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/offline").networkError();
+    mock.onGet("/slow").timeout();
+    const client = createClient(mock);
+
+    const networkError = await client.get("/offline").catch((error) => error);
+    const timeoutError = await client.get("/slow").catch((error) => error);
+
+    expect(networkError).toBeInstanceOf(NetworkError);
+    expect(
+      isRemoteRequestError(networkError, RemoteRequestErrorCode.NETWORK_ERROR)
+    ).toBe(true);
+    expect(timeoutError).toBeInstanceOf(TimeoutError);
+    expect(timeoutError.code).toBe(RemoteRequestErrorCode.TIMEOUT);
+    client.dispose();
+  });
+
+  it("rejects aborted and cancelAll requests with CancelledError", async () => {
+    const mock = new MockAdapter({ delay: 50 });
+    mock.onGet().reply(200, {});
+    const client = createClient(mock);
+    const controller = new AbortController();
+
+    const aborted = client.get("/a", { signal: controller.signal });
+    const cancelled = client.get("/b");
+    // 두 요청이 모두 전송된 뒤 취소
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    client.cancelAll();
+
+    await expect(aborted).rejects.toBeInstanceOf(CancelledError);
+    await expect(cancelled).rejects.toMatchObject({
+      code: RemoteRequestErrorCode.CANCELLED,
+    });
+    client.dispose();
+  });
+
+  it("passes errors through mapError and keeps the original when it returns undefined", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/items").reply(409, { reason: "duplicate" });
+    mock.onGet("/other").reply(500);
+    const client = createClient(mock, {
+      tokenConfig: {
+        tokenReissueUrl: "/auth/reissue",
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {
+          mapError: (error) =>
+            error instanceof HttpStatusError && error.status === 409
+              ? new DomainError((error.data as { reason: string }).reason)
+              : undefined,
+        },
+      },
+    });
+
+    await expect(client.get("/items")).rejects.toEqual(
+      new DomainError("duplicate")
+    );
+    await expect(client.get("/other")).rejects.toBeInstanceOf(HttpStatusError);
+    client.dispose();
+  });
+
+  it("narrows errors by code with isRemoteRequestError", () => {
+    const error = new TimeoutError("slow", { url: "/slow" });
+
+    expect(isRemoteRequestError(error)).toBe(true);
+    expect(isRemoteRequestError(error, RemoteRequestErrorCode.TIMEOUT)).toBe(
+      true
+    );
+    expect(isRemoteRequestError(error, RemoteRequestErrorCode.CANCELLED)).toBe(
+      false
+    );
+    expect(isRemoteRequestError(new Error("plain"))).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  Middleware,
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => ({
+        accessToken: "token",
+        refreshToken: "refresh",
+      }),
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async () => undefined,
+    ...options,
+  });
+}
+
+/**
+ * 실행 단계를 calls에 기록하는 미들웨어
+ */
+function tracing(
+  calls: string[],
+  name: string,
+  options: Pick<Middleware, "position" | "order"> = {}
+): Middleware {
+  return {
+    name,
+    ...options,
+    before: () => {
+      calls.push(`${name}:before`);
+    },
+    after: () => {
+      calls.push(`${name}:after`);
+    },
+    error: () => {
+      calls.push(`${name}:error`);
+    },
+  };
+}
+
+describe("middleware", () => {
+  it("runs before by order then registration and after in reverse", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(200, {});
+    const client = createClient(mock);
+    const calls: string[] = [];
+    client.use(tracing(calls, "b", { order: 1 }));
+    client.use(tracing(calls, "inner", { position: "inner" }));
+    client.use(tracing(calls, "a"));
+    client.use(tracing(calls, "c", { order: 1 }));
+
+    await client.get("/me");
+
+    expect(calls).toEqual([
+      "a:before",
+      "b:before",
+      "c:before",
+      "inner:before",
+      "inner:after",
+      "c:after",
+      "b:after",
+      "a:after",
+    ]);
+    client.dispose();
+  });
+
+  it("runs outer middleware once and inner middleware on every attempt", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").replyOnce(503).reply(200, {});
+    const client = createClient(mock, {
+      retry: { baseDelay: 1, jitter: false },
+    });
+    const calls: string[] = [];
+    client.use(tracing(calls, "outer"));
+    client.use(tracing(calls, "inner", { position: "inner" }));
+
+    await client.get("/me");
+
+    expect(calls).toEqual([
+      "outer:before",
+      "inner:before",
+      "inner:error",
+      "inner:before",
+      "inner:after",
+      "outer:after",
+    ]);
+    client.dispose();
+  });
+
+  it("sees the plain body outside and the converted body inside, both without credentials", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/users").reply(200, {});
+    const client = createClient(mock, { keyCase: { request: "snake_case" } });
+    const seen: Record<string, unknown> = {};
+    client.use({
+      before: (config) => {
+        seen.outer = config.data;
+        seen.outerAuth = config.headers.get("Authorization");
+      },
+    });
+    client.use({
+      position: "inner",
+      before: (config) => {
+        seen.inner = config.data;
+        seen.innerAuth = config.headers.get("Authorization");
+      },
+    });
+
+    await client.post("/users", { userName: "kim" });
+
+    expect(seen.outer).toEqual({ userName: "kim" });
+    expect(seen.inner).toEqual({ user_name: "kim" });
+    expect(seen.outerAuth).toBeUndefined();
+    expect(seen.innerAuth).toBeUndefined();
+    expect(mock.history[0].headers.Authorization).toBe("Bearer token");
+    client.dispose();
+  });
+
+  it("recovers from an error with a fallback response and runs the remaining after steps", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/flags").reply(500);
+    const client = createClient(mock);
+    const calls: string[] = [];
+    client.use(tracing(calls, "logger"));
+    client.use({
+      name: "fallback",
+      error: (_error, config) => ({
+        data: { fallback: true },
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        config: config!,
+      }),
+    });
+
+    const response = await client.get("/flags");
+
+    expect(response.data).toEqual({ fallback: true });
+    expect(calls).toEqual(["logger:before", "logger:after"]);
+    client.dispose();
+  });
+
+  it("replaces the value returned from before and stops running ejected middleware", async () => {
+    const mock = new MockAdapter();
+    mock.onGet().reply(200, {});
+    const client = createClient(mock);
+    const handle = client.use({
+      before: (config) => ({ ...config, url: "/rewritten" }),
+    });
+
+    await client.get("/original");
+    handle.eject();
+    handle.eject();
+    await client.get("/original");
+
+    expect(mock.history.map((request) => request.url)).toEqual([
+      "/rewritten",
+      "/original",
+    ]);
+    client.dispose();
+  });
+});
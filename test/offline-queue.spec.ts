@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  HttpStatusError,
+  MockAdapter,
+  OfflineConflictResolution,
+  QueuedMutation,
+  RemoteRequest,
+  RemoteRequestOptions,
+  SafeParseSchema,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  isOffline: () => boolean,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    offlineQueue: { isOffline, autoFlush: false },
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+describe("offline queue", () => {
+  it("queues mutations while offline and replays them with the same idempotency key", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").reply(201, { id: 1 });
+    let offline = true;
+    const client = createClient(mock, () => offline);
+
+    await expect(client.post("/orders", { n: 1 })).rejects.toMatchObject({
+      name: "OfflineQueuedError",
+    });
+    const [queued] = await client.getQueuedMutations();
+    expect(mock.history).toHaveLength(0);
+
+    offline = false;
+    await expect(client.flush()).resolves.toEqual({
+      replayed: 1,
+      discarded: 0,
+      remaining: 0,
+    });
+
+    const [replayed] = mock.history;
+    expect(replayed.data).toEqual({ n: 1 });
+    expect(replayed.headers["Idempotency-Key"]).toBe(queued.idempotencyKey);
+    client.dispose();
+  });
+
+  it("restores per-request options when replaying", async () => {
+    const mock = new MockAdapter();
+    mock.onPut("/profile").reply(200, "saved");
+    let offline = true;
+    const client = createClient(mock, () => offline, {
+      encryptionConfig: {
+        rules: [{ match: "/" }],
+        requestInterceptor: (config) => {
+          config.data = { sealed: true };
+          return config;
+        },
+        responseInterceptor: (response) => response,
+      },
+    });
+
+    await client
+      .put(
+        "/profile",
+        { n: 1 },
+        {
+          encrypt: false,
+          withAuth: false,
+          timeout: 1234,
+          responseType: "text",
+        }
+      )
+      .catch(() => undefined);
+    const [queued] = await client.getQueuedMutations();
+    offline = false;
+    await client.flush();
+
+    expect(queued).toMatchObject({
+      encrypt: false,
+      withAuth: false,
+      timeout: 1234,
+      responseType: "text",
+    });
+    const [replayed] = mock.history;
+    expect(replayed.data).toEqual({ n: 1 });
+    expect(replayed.config.timeout).toBe(1234);
+    expect(replayed.config.responseType).toBe("text");
+    client.dispose();
+  });
+
+  it("validates the replayed response with the request schema", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").reply(201, { id: "not-a-number" });
+    let offline = true;
+    const onDiscarded =
+      vi.fn<(mutation: QueuedMutation, error: unknown) => void>();
+    const client = createClient(mock, () => offline, {
+      offlineQueue: { isOffline: () => offline, autoFlush: false, onDiscarded },
+    });
+    const schema: SafeParseSchema<{ id: number }> = {
+      safeParse: (data) =>
+        typeof (data as { id: unknown }).id === "number"
+          ? { success: true, data: data as { id: number } }
+          : {
+              success: false,
+              error: { issues: [{ message: "id", path: ["id"] }] },
+            },
+    };
+
+    await client.post("/orders", {}, { schema }).catch(() => undefined);
+    offline = false;
+
+    await expect(client.flush()).resolves.toMatchObject({ discarded: 1 });
+    expect(onDiscarded.mock.calls[0][1]).toMatchObject({
+      name: "ValidationError",
+    });
+    client.dispose();
+  });
+
+  it("sends the idempotency key only to first-party origins", async () => {
+    const mock = new MockAdapter();
+    mock.onAny().reply(200, {});
+    const client = createClient(mock, () => false);
+
+    await client.post("/orders", {});
+    await client.post("https://api.test/orders", {});
+    await client.post("https://third-party.test/hook", {});
+    await client.post(
+      "https://third-party.test/hook",
+      {},
+      { headers: { "Idempotency-Key": "explicit" } }
+    );
+
+    expect(
+      mock.history.map((request) => request.headers["Idempotency-Key"])
+    ).toEqual([expect.any(String), expect.any(String), undefined, "explicit"]);
+    client.dispose();
+  });
+
+  it("keeps queue order when a conflict is kept", async () => {
+    const mock = new MockAdapter();
+    mock.onPut("/profile").reply(409, { version: 2 });
+    mock.onPost("/orders").reply(201, {});
+    let offline = true;
+    const onConflict = vi.fn(
+      (
+        _mutation: QueuedMutation,
+        _error: HttpStatusError
+      ): OfflineConflictResolution => "keep"
+    );
+    const client = createClient(mock, () => offline, {
+      offlineQueue: { isOffline: () => offline, autoFlush: false, onConflict },
+    });
+
+    await client.put("/profile", { name: "kim" }).catch(() => undefined);
+    await client.post("/orders", { n: 1 }).catch(() => undefined);
+    offline = false;
+
+    await expect(client.flush()).resolves.toEqual({
+      replayed: 0,
+      discarded: 0,
+      remaining: 2,
+    });
+    expect(onConflict.mock.calls[0][1]).toMatchObject({ status: 409 });
+    expect(mock.history.map((request) => request.url)).toEqual(["/profile"]);
+    client.dispose();
+  });
+
+  it("keeps mutations on network errors and discards them after maxAttempts server errors", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").networkErrorOnce().reply(500);
+    let offline = true;
+    const client = createClient(mock, () => offline, {
+      offlineQueue: {
+        isOffline: () => offline,
+        autoFlush: false,
+        maxAttempts: 2,
+      },
+    });
+
+    await client.post("/orders", {}).catch(() => undefined);
+    offline = false;
+
+    await expect(client.flush()).resolves.toMatchObject({ remaining: 1 });
+    expect((await client.getQueuedMutations())[0].attempts).toBe(0);
+    await expect(client.flush()).resolves.toMatchObject({ remaining: 1 });
+    await expect(client.flush()).resolves.toEqual({
+      replayed: 0,
+      discarded: 1,
+      remaining: 0,
+    });
+    client.dispose();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AuthTokens,
+  MockAdapter,
+  RefreshCoordinationChannel,
+  RefreshCoordinationMessage,
+  RefreshCoordinator,
+  RemoteRequest,
+  TokenTransportType,
+} from "../src";
+
+/**
+ * 같은 버스에 연결된 탭 간 메모리 채널 (보낸 탭에는 전달하지 않음)
+ */
+function createBus() {
+  const listeners = new Set<(message: RefreshCoordinationMessage) => void>();
+  const posted: RefreshCoordinationMessage[] = [];
+  const channel = (): RefreshCoordinationChannel => {
+    const own = new Set<(message: RefreshCoordinationMessage) => void>();
+    return {
+      postMessage: (message) => {
+        posted.push(message);
+        listeners.forEach((listener) => {
+          if (!own.has(listener)) setTimeout(() => listener(message), 0);
+        });
+      },
+      subscribe: (listener) => {
+        own.add(listener);
+        listeners.add(listener);
+        return () => {
+          own.delete(listener);
+          listeners.delete(listener);
+        };
+      },
+    };
+  };
+  return { channel, posted };
+}
+
+const TOKENS: AuthTokens = { accessToken: "new", refreshToken: "refresh2" };
+
+async function refreshInTwoTabs(shareTokens?: boolean) {
+  const bus = createBus();
+  const received: (AuthTokens | null)[] = [];
+  const leader = new RefreshCoordinator(
+    { channel: bus.channel(), tabId: "a", electionDelayMs: 1, shareTokens },
+    () => undefined
+  );
+  const follower = new RefreshCoordinator(
+    { channel: bus.channel(), tabId: "b", electionDelayMs: 1, shareTokens },
+    (tokens) => received.push(tokens)
+  );
+
+  const leaderResult = await leader.run(async () => TOKENS);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  leader.dispose();
+  follower.dispose();
+  return { leaderResult, received, posted: bus.posted };
+}
+
+describe("RefreshCoordinator", () => {
+  it("does not put tokens on the channel by default", async () => {
+    const { leaderResult, received, posted } = await refreshInTwoTabs();
+
+    expect(leaderResult).toEqual(TOKENS);
+    expect(
+      posted.filter((message) => message.type === "refresh-success")
+    ).toEqual([expect.objectContaining({ tokens: null })]);
+    expect(received).toEqual([null]);
+  });
+
+  it("shares tokens with other tabs when shareTokens is enabled", async () => {
+    const { received } = await refreshInTwoTabs(true);
+
+    expect(received).toEqual([TOKENS]);
+  });
+});
+
+describe("cross-tab token refresh", () => {
+  /**
+   * 공유 저장소(localStorage 등)의 토큰을 함께 쓰는 탭
+   */
+  function createTab(
+    mock: MockAdapter,
+    channel: RefreshCoordinationChannel,
+    tabId: string,
+    store: { tokens: AuthTokens }
+  ) {
+    return new RemoteRequest({
+      baseURL: "https://api.test",
+      adapter: mock.adapter,
+      logLevel: "silent",
+      refreshCoordination: { channel, tabId, electionDelayMs: 5 },
+      tokenTransportConfig: {
+        tokenTransportType: TokenTransportType.STORAGE,
+        fetchAuthTokenMethod: async () => store.tokens,
+      },
+      tokenConfig: {
+        tokenReissueUrl: "/auth/reissue",
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+      },
+      reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+        store.tokens = { accessToken, refreshToken };
+      },
+    });
+  }
+
+  it("reissues once for tabs that hit a 401 together and replays with the shared token", async () => {
+    const bus = createBus();
+    const store = { tokens: { accessToken: "old", refreshToken: "refresh" } };
+    const mock = new MockAdapter({ delay: 5 });
+    mock.onPost("/auth/reissue").reply(200, TOKENS);
+    mock
+      .onGet()
+      .replyWith((request) =>
+        request.headers.Authorization === "Bearer new"
+          ? { status: 200, data: { url: request.url } }
+          : { status: 401 }
+      );
+    const first = createTab(mock, bus.channel(), "a", store);
+    const second = createTab(mock, bus.channel(), "b", store);
+
+    const responses = await Promise.all([first.get("/a"), second.get("/b")]);
+
+    expect(responses.map((response) => response.data)).toEqual([
+      { url: "/a" },
+      { url: "/b" },
+    ]);
+    expect(mock.findRequests("post", "/auth/reissue")).toHaveLength(1);
+    expect(
+      bus.posted.filter((message) => message.type === "refresh-success")
+    ).toEqual([expect.objectContaining({ tabId: "a", tokens: null })]);
+    first.dispose();
+    second.dispose();
+  });
+
+  it("fails the waiting tab when the reissuing tab fails", async () => {
+    const bus = createBus();
+    const store = { tokens: { accessToken: "old", refreshToken: "refresh" } };
+    const mock = new MockAdapter({ delay: 5 });
+    mock.onPost("/auth/reissue").reply(401);
+    mock.onGet().reply(401);
+    const first = createTab(mock, bus.channel(), "a", store);
+    const second = createTab(mock, bus.channel(), "b", store);
+
+    const results = await Promise.all([
+      first.get("/a").catch((error) => error),
+      second.get("/b").catch((error) => error),
+    ]);
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        name: "TokenRefreshError",
+        reason: "rejected",
+      }),
+      expect.objectContaining({
+        name: "TokenRefreshError",
+        reason: "rejected",
+      }),
+    ]);
+    expect(mock.findRequests("post", "/auth/reissue")).toHaveLength(1);
+    first.dispose();
+    second.dispose();
+  });
+});
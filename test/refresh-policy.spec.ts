@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  AuthTokens,
+  isTransientRefreshError,
+  MockAdapter,
+  NetworkError,
+  RefreshPolicyConfig,
+  RemoteRequest,
+  SessionState,
+  TokenTransportType,
+} from "../src";
+
+const REISSUE_URL = "/auth/reissue";
+const NEW_TOKENS = { accessToken: "new", refreshToken: "refresh2" };
+
+function createClient(mock: MockAdapter, refreshPolicy: RefreshPolicyConfig) {
+  let tokens: AuthTokens = { accessToken: "old", refreshToken: "refresh" };
+  const onFailure = vi.fn(async () => undefined);
+  const states: SessionState[] = [];
+  const client = new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => tokens,
+    },
+    tokenConfig: {
+      tokenReissueUrl: REISSUE_URL,
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+      refreshPolicy: { baseDelay: 1, maxDelay: 1, ...refreshPolicy },
+    },
+    reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+      tokens = { accessToken, refreshToken };
+    },
+    reissueTokenFailureCallback: onFailure,
+  });
+  client.onSessionStateChange((state) => states.push(state));
+  return { client, onFailure, states };
+}
+
+/**
+ * 새 토큰이 아니면 401을 반환하는 API
+ */
+function replyUnauthorizedUntilReissued(mock: MockAdapter) {
+  mock
+    .onGet()
+    .replyWith((request) =>
+      request.headers.Authorization === "Bearer new"
+        ? { status: 200, data: {} }
+        : { status: 401 }
+    );
+}
+
+describe("refresh policy", () => {
+  it("retries a transient reissue failure and replays the request", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onPost(REISSUE_URL)
+      .replyOnce(503)
+      .networkErrorOnce()
+      .reply(200, NEW_TOKENS);
+    replyUnauthorizedUntilReissued(mock);
+    const { client, states } = createClient(mock, { maxRetries: 2 });
+
+    await expect(client.get("/me")).resolves.toMatchObject({ status: 200 });
+
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(3);
+    expect(states).toEqual(["refreshing", "authenticated"]);
+    client.dispose();
+  });
+
+  it("keeps the session when transient failures outlast the retries", async () => {
+    const mock = new MockAdapter();
+    mock.onPost(REISSUE_URL).reply(502);
+    mock.onGet().reply(401);
+    const { client, onFailure } = createClient(mock, { maxRetries: 1 });
+
+    await expect(client.get("/me")).rejects.toMatchObject({
+      name: "TokenRefreshError",
+      reason: "transient",
+    });
+
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(2);
+    expect(client.getSessionState()).toBe("authenticated");
+    expect(onFailure).not.toHaveBeenCalled();
+    client.dispose();
+  });
+
+  it("expires the session at once when the server rejects the reissue", async () => {
+    const mock = new MockAdapter();
+    mock.onPost(REISSUE_URL).reply(401);
+    mock.onGet().reply(401);
+    const { client, onFailure } = createClient(mock, { maxRetries: 2 });
+
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "rejected",
+    });
+
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    expect(client.getSessionState()).toBe("expired");
+    expect(onFailure).toHaveBeenCalledTimes(1);
+    client.dispose();
+  });
+
+  it("uses a custom isTransientError", async () => {
+    const mock = new MockAdapter();
+    mock.onPost(REISSUE_URL).replyOnce(401).reply(200, NEW_TOKENS);
+    replyUnauthorizedUntilReissued(mock);
+    const { client } = createClient(mock, {
+      maxRetries: 1,
+      isTransientError: () => true,
+    });
+
+    await expect(client.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(2);
+    client.dispose();
+  });
+
+  it("recognises transient errors through wrapped causes", () => {
+    const wrapped = new Error("mapped");
+    Object.assign(wrapped, { cause: new NetworkError("offline") });
+
+    expect(isTransientRefreshError(wrapped)).toBe(true);
+    expect(isTransientRefreshError(new Error("plain"))).toBe(false);
+  });
+});
+
+describe("refresh circuit breaker", () => {
+  it("opens after consecutive transient failures and closes after the cooldown", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onPost(REISSUE_URL)
+      .replyOnce(503)
+      .replyOnce(503)
+      .reply(200, NEW_TOKENS);
+    replyUnauthorizedUntilReissued(mock);
+    const { client } = createClient(mock, {
+      maxRetries: 0,
+      failureThreshold: 2,
+      cooldownMs: 50,
+    });
+
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "transient",
+    });
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "transient",
+    });
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "circuit-open",
+    });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await expect(client.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(3);
+    client.dispose();
+  });
+
+  it("blocks reissues after a rejection until resetSessionState", async () => {
+    const mock = new MockAdapter();
+    mock.onPost(REISSUE_URL).replyOnce(401).reply(200, NEW_TOKENS);
+    replyUnauthorizedUntilReissued(mock);
+    const { client } = createClient(mock, { cooldownMs: 60_000 });
+
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "rejected",
+    });
+    await expect(client.get("/me")).rejects.toMatchObject({
+      reason: "circuit-open",
+    });
+
+    client.resetSessionState();
+    await expect(client.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(2);
+    client.dispose();
+  });
+});
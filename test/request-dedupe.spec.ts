@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+describe("request dedupe", () => {
+  it("shares one network request between identical concurrent GETs", async () => {
+    const mock = new MockAdapter({ delay: 10 });
+    mock.onGet("/me").reply(200, { id: 1 });
+    const client = createClient(mock);
+
+    const [first, second] = await Promise.all([
+      client.get("/me"),
+      client.get("/me"),
+    ]);
+
+    expect(mock.history).toHaveLength(1);
+    expect(first.data).toEqual({ id: 1 });
+    expect(second.data).toEqual({ id: 1 });
+    expect(first).not.toBe(second);
+    client.dispose();
+  });
+
+  it("sends separate requests for different params, headers or dedupe: false", async () => {
+    const mock = new MockAdapter({ delay: 10 });
+    mock.onGet("/items").reply(200, []);
+    const client = createClient(mock);
+
+    await Promise.all([
+      client.get("/items", { params: { page: 1 } }),
+      client.get("/items", { params: { page: 2 } }),
+      client.get("/items", {
+        params: { page: 1 },
+        headers: { "X-Tenant": "b" },
+      }),
+      client.get("/items", { params: { page: 1 }, dedupe: false }),
+    ]);
+
+    expect(mock.history).toHaveLength(4);
+    client.dispose();
+  });
+
+  it("cancels only the aborting caller until every caller has aborted", async () => {
+    const mock = new MockAdapter({ delay: 20 });
+    mock.onGet("/me").reply(200, { id: 1 });
+    const client = createClient(mock);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const kept = client.get("/me");
+    const cancelled = client.get("/me", { signal: first.signal });
+    first.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: "CancelledError" });
+    await expect(kept).resolves.toMatchObject({ data: { id: 1 } });
+
+    const alone = client.get("/me", { signal: second.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    second.abort();
+
+    await expect(alone).rejects.toMatchObject({ name: "CancelledError" });
+    expect(mock.history).toHaveLength(2);
+    client.dispose();
+  });
+
+  it("does not merge mutations", async () => {
+    const mock = new MockAdapter({ delay: 10 });
+    mock.onPost("/orders").reply(201, {});
+    const client = createClient(mock);
+
+    await Promise.all([
+      client.post("/orders", { n: 1 }),
+      client.post("/orders", { n: 1 }),
+    ]);
+
+    expect(mock.history).toHaveLength(2);
+    client.dispose();
+  });
+});
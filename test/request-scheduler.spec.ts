@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  RequestPriority,
+  RequestScheduler,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+describe("request scheduler", () => {
+  it("never sends more than maxConcurrentRequests at once", async () => {
+    const mock = new MockAdapter();
+    let active = 0;
+    let maxActive = 0;
+    mock.onGet().replyWith(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      active--;
+      return { status: 200, data: {} };
+    });
+    const client = createClient(mock, { maxConcurrentRequests: 2 });
+
+    await Promise.all(
+      ["/1", "/2", "/3", "/4", "/5"].map((url) => client.get(url))
+    );
+
+    expect(mock.history).toHaveLength(5);
+    expect(maxActive).toBe(2);
+    client.dispose();
+  });
+
+  it("sends queued requests in priority order, then in arrival order", async () => {
+    const mock = new MockAdapter({ delay: 10 });
+    mock.onGet().reply(200, {});
+    const client = createClient(mock, { maxConcurrentRequests: 1 });
+
+    await Promise.all([
+      client.get("/first"),
+      client.get("/prefetch", { priority: RequestPriority.BACKGROUND }),
+      client.get("/list"),
+      client.get("/click", { priority: RequestPriority.INTERACTIVE }),
+      client.get("/detail"),
+    ]);
+
+    expect(mock.history.map((request) => request.url)).toEqual([
+      "/first",
+      "/click",
+      "/list",
+      "/detail",
+      "/prefetch",
+    ]);
+    client.dispose();
+  });
+
+  it("drops an aborted request from the queue without sending it", async () => {
+    const mock = new MockAdapter({ delay: 10 });
+    mock.onGet().reply(200, {});
+    const client = createClient(mock, { maxConcurrentRequests: 1 });
+    const controller = new AbortController();
+
+    const first = client.get("/first");
+    const queued = client.get("/queued", { signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ name: "CancelledError" });
+    await first;
+    expect(mock.history.map((request) => request.url)).toEqual(["/first"]);
+    client.dispose();
+  });
+
+  it("hands a released slot to the next waiter", async () => {
+    const scheduler = new RequestScheduler(1);
+    await scheduler.acquire();
+    const next = scheduler.acquire(RequestPriority.BACKGROUND);
+
+    expect(scheduler.waiting).toBe(1);
+    scheduler.release();
+    await next;
+
+    expect(scheduler.active).toBe(1);
+    expect(scheduler.waiting).toBe(0);
+    scheduler.release();
+    expect(scheduler.active).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AuthTokens,
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+import { bytesToBase64 } from "../src/utils/base64";
+
+/**
+ * 서명 없는 테스트용 JWT
+ */
+function createJwt(claims: Record<string, unknown>): string {
+  const payload = bytesToBase64(
+    new TextEncoder().encode(JSON.stringify(claims))
+  );
+  return `e30.${payload}.sig`;
+}
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  let tokens: AuthTokens = {
+    accessToken: createJwt({ sub: "user-1", n: 1 }),
+    refreshToken: "refresh",
+  };
+  const client = new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    cache: { ttl: 60_000 },
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => tokens,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+      tokens = { accessToken, refreshToken };
+    },
+    ...options,
+  });
+  return {
+    client,
+    setTokens: (next: AuthTokens) => {
+      tokens = next;
+    },
+  };
+}
+
+describe("response cache keys", () => {
+  it("keeps the cache across token refreshes for the same subject", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(200, { id: 1 });
+    const { client, setTokens } = createClient(mock);
+
+    await client.get("/me");
+    setTokens({
+      accessToken: createJwt({ sub: "user-1", n: 2 }),
+      refreshToken: "refresh2",
+    });
+    await client.get("/me");
+
+    expect(mock.history).toHaveLength(1);
+    client.dispose();
+  });
+
+  it("separates cache entries per subject", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(200, { id: 1 });
+    const { client, setTokens } = createClient(mock);
+
+    await client.get("/me");
+    setTokens({
+      accessToken: createJwt({ sub: "user-2" }),
+      refreshToken: "refresh",
+    });
+    await client.get("/me");
+
+    expect(mock.history).toHaveLength(2);
+    expect(await client.getCacheKey("/me")).not.toContain("user-2");
+    client.dispose();
+  });
+
+  it("separates cache entries by responseType and Accept header", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/report").reply(200, "report");
+    const { client } = createClient(mock);
+
+    await client.get("/report");
+    await client.get("/report", { responseType: "text" });
+    await client.get("/report", { headers: { Accept: "text/csv" } });
+    await client.get("/report", { headers: { accept: "text/csv" } });
+
+    expect(mock.history).toHaveLength(3);
+    client.dispose();
+  });
+});
+
+describe("invalidateCache", () => {
+  it("invalidates the path and its children but not sibling paths", async () => {
+    const mock = new MockAdapter();
+    mock.onGet().reply(200, {});
+    const { client } = createClient(mock);
+    const urls = ["/users", "/users/1", "/users-archive"];
+    const load = () =>
+      Promise.all(urls.map((url) => client.get(url, { params: { page: 1 } })));
+
+    await load();
+    await client.invalidateCache("/users");
+    await load();
+
+    expect(mock.history.map((request) => request.url)).toEqual([
+      ...urls,
+      "/users",
+      "/users/1",
+    ]);
+    client.dispose();
+  });
+
+  it("invalidates cached GETs under the mutated URL", async () => {
+    const mock = new MockAdapter();
+    mock.onGet().reply(200, {});
+    mock.onPost("/users").reply(201, {});
+    const { client } = createClient(mock);
+
+    await client.get("/users");
+    await client.get("/users-archive");
+    await client.post("/users", { name: "kim" });
+    await client.get("/users");
+    await client.get("/users-archive");
+
+    expect(mock.findRequests("get")).toHaveLength(3);
+    client.dispose();
+  });
+});
+
+describe("stale-while-revalidate", () => {
+  it("serves the stale entry and refreshes it in the background", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/feed").replyOnce(200, { v: 1 }).reply(200, { v: 2 });
+    const { client } = createClient(mock, {
+      cache: { ttl: 60_000, staleWhileRevalidate: 60_000 },
+    });
+
+    await client.get("/feed", { cache: { ttl: 0 } });
+    const stale = await client.get("/feed");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const refreshed = await client.get("/feed");
+
+    expect(stale.data).toEqual({ v: 1 });
+    expect(refreshed.data).toEqual({ v: 2 });
+    expect(mock.history).toHaveLength(2);
+    client.dispose();
+  });
+
+  it("revalidates an expired entry with its ETag and reuses it on 304", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/feed").replyOnce(200, { v: 1 }, { etag: '"e1"' });
+    mock
+      .onGet("/feed")
+      .replyWith((request) =>
+        request.headers["If-None-Match"] === '"e1"'
+          ? { status: 304 }
+          : { status: 200, data: { v: 2 } }
+      );
+    const { client } = createClient(mock);
+
+    await client.get("/feed", { cache: { ttl: 0 } });
+    const response = await client.get("/feed");
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ v: 1 });
+    expect(mock.history[1].headers["If-None-Match"]).toBe('"e1"');
+    client.dispose();
+  });
+
+  it("bypasses the cache with forceRefresh and for cache: false", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/feed").reply(200, {});
+    const { client } = createClient(mock);
+
+    await client.get("/feed");
+    await client.get("/feed", { cache: { forceRefresh: true } });
+    await client.get("/feed", { cache: false });
+    await client.get("/feed");
+
+    expect(mock.history).toHaveLength(3);
+    client.dispose();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  SafeParseSchema,
+  StandardSchema,
+  TokenTransportType,
+  ValidationError,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+interface Order {
+  items: { name: string }[];
+}
+
+/**
+ * 모든 항목에 name 문자열이 있어야 하는 Standard Schema (비동기 검증)
+ */
+const orderSchema: StandardSchema<Order> = {
+  "~standard": {
+    validate: async (value) => {
+      const items = (value as Partial<Order>).items ?? [];
+      const index = items.findIndex((item) => typeof item.name !== "string");
+      return index === -1
+        ? { value: { items: items.map(({ name }) => ({ name })) } }
+        : {
+            issues: [
+              { message: "Required", path: ["items", index, { key: "name" }] },
+            ],
+          };
+    },
+  },
+};
+
+const idSchema: SafeParseSchema<{ id: number }> = {
+  safeParse: (data) =>
+    typeof (data as { id?: unknown }).id === "number"
+      ? { success: true, data: { id: (data as { id: number }).id } }
+      : { success: false, error: { issues: [{ message: "Expected number" }] } },
+};
+
+describe("response schema", () => {
+  it("replaces the body with the parsed value", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/orders/1").reply(200, { items: [{ name: "a", extra: 1 }] });
+    const client = createClient(mock);
+
+    const response = await client.get("/orders/1", { schema: orderSchema });
+
+    expect(response.data).toEqual({ items: [{ name: "a" }] });
+    client.dispose();
+  });
+
+  it("rejects with ValidationError describing the first issue", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/orders/1").reply(200, { items: [{ name: "a" }, {}] });
+    const client = createClient(mock);
+
+    const error = await client
+      .get("/orders/1", { schema: orderSchema })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      code: "VALIDATION_FAILED",
+      path: "items[1].name",
+      issues: [{ path: "items[1].name", message: "Required" }],
+      data: { items: [{ name: "a" }, {}] },
+    });
+    client.dispose();
+  });
+
+  it("applies the first matching rule and lets the request schema take precedence", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/orders/1").reply(200, { items: [{}] });
+    mock.onGet("/users/1").reply(200, { id: "1" });
+    mock.onPost("/users").reply(200, { id: "1" });
+    const client = createClient(mock, {
+      responseSchemas: [
+        { match: "/users", methods: ["get"], schema: idSchema },
+        { match: "/orders/*", schema: orderSchema },
+      ],
+    });
+
+    await expect(client.get("/orders/1")).rejects.toMatchObject({
+      path: "items[0].name",
+    });
+    await expect(client.get("/users/1")).rejects.toMatchObject({
+      name: "ValidationError",
+      path: "",
+    });
+    await expect(client.post("/users", {})).resolves.toMatchObject({
+      data: { id: "1" },
+    });
+    await expect(
+      client.get("/users/1", { schema: false })
+    ).resolves.toMatchObject({ data: { id: "1" } });
+    client.dispose();
+  });
+
+  it("skips binary responses", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/users/avatar").reply(200, "binary");
+    const client = createClient(mock, {
+      responseSchemas: [{ match: "/users", schema: idSchema }],
+    });
+
+    await expect(client.download("/users/avatar")).resolves.toMatchObject({
+      data: "binary",
+    });
+    client.dispose();
+  });
+});
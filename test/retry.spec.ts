@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    retry: { baseDelay: 1, jitter: false },
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+/**
+ * 기록된 요청 간 간격(ms)
+ */
+function gaps(timestamps: number[]): number[] {
+  return timestamps.slice(1).map((time, index) => time - timestamps[index]);
+}
+
+describe("retry", () => {
+  it("retries transient statuses and network errors until the request succeeds", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onGet("/items")
+      .replyOnce(503)
+      .networkErrorOnce()
+      .replyOnce(429)
+      .reply(200, [1]);
+    const client = createClient(mock);
+
+    const response = await client.get("/items");
+
+    expect(response.data).toEqual([1]);
+    expect(mock.history).toHaveLength(4);
+    client.dispose();
+  });
+
+  it("backs off exponentially between attempts", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/items").reply(503);
+    const client = createClient(mock, {
+      retry: { baseDelay: 20, jitter: false, maxRetries: 2 },
+    });
+
+    await client.get("/items").catch(() => undefined);
+
+    const [first, second] = gaps(
+      mock.history.map((request) => request.timestamp)
+    );
+    expect(first).toBeGreaterThanOrEqual(15);
+    expect(second).toBeGreaterThanOrEqual(35);
+    client.dispose();
+  });
+
+  it("rejects with the last error after maxRetries", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/items").reply(503, { message: "busy" });
+    const client = createClient(mock, {
+      retry: { baseDelay: 1, jitter: false, maxRetries: 2 },
+    });
+
+    await expect(client.get("/items")).rejects.toMatchObject({
+      name: "HttpStatusError",
+      status: 503,
+      data: { message: "busy" },
+    });
+    expect(mock.history).toHaveLength(3);
+    client.dispose();
+  });
+
+  it("does not retry non-idempotent methods or non-retryable statuses", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").reply(503);
+    mock.onGet("/missing").reply(404);
+    const client = createClient(mock);
+
+    await expect(client.post("/orders", {})).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(client.get("/missing")).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(mock.history).toHaveLength(2);
+    client.dispose();
+  });
+
+  it("lets the request options override the client policy", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/orders").replyOnce(503).reply(201, {});
+    mock.onGet("/items").reply(503);
+    const client = createClient(mock);
+
+    await client.post("/orders", {}, { retry: { retryMethods: ["post"] } });
+    await client.get("/items", { retry: false }).catch(() => undefined);
+
+    expect(mock.findRequests("post", "/orders")).toHaveLength(2);
+    expect(mock.findRequests("get", "/items")).toHaveLength(1);
+    client.dispose();
+  });
+
+  it("waits for Retry-After but never longer than maxDelay", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onGet("/items")
+      .replyOnce(429, undefined, { "retry-after": "60" })
+      .reply(200, []);
+    const client = createClient(mock, {
+      retry: { baseDelay: 1, maxDelay: 30, jitter: false },
+    });
+
+    await client.get("/items");
+
+    const [gap] = gaps(mock.history.map((request) => request.timestamp));
+    expect(gap).toBeGreaterThanOrEqual(25);
+    expect(gap).toBeLessThan(1000);
+    client.dispose();
+  });
+});
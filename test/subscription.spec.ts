@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AuthTokens,
+  MockAdapter,
+  RemoteRequest,
+  SubscriptionMessage,
+  SubscriptionOptions,
+  TokenTransportType,
+} from "../src";
+
+const REISSUE_URL = "/auth/reissue";
+const EVENT_STREAM_HEADERS = { "content-type": "text/event-stream" };
+
+/**
+ * 조각 단위로 전달되는 text/event-stream 본문
+ */
+function eventStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+function createClient(mock: MockAdapter) {
+  let tokens: AuthTokens = { accessToken: "old", refreshToken: "refresh" };
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => tokens,
+    },
+    tokenConfig: {
+      tokenReissueUrl: REISSUE_URL,
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+      tokens = { accessToken, refreshToken };
+    },
+  });
+}
+
+/**
+ * 구독이 종료될 때까지 받은 메시지 / 에러 수집
+ */
+function collect<T>(
+  client: RemoteRequest,
+  url: string,
+  options: Partial<SubscriptionOptions<T>> = {}
+) {
+  const messages: SubscriptionMessage<T>[] = [];
+  const errors: unknown[] = [];
+  let subscription: ReturnType<RemoteRequest["subscribe"]> | undefined;
+  const closed = new Promise<void>((resolve) => {
+    subscription = client.subscribe<T>(url, {
+      reconnect: { initialDelay: 1, jitter: false },
+      onMessage: (message) => messages.push(message),
+      onError: (error) => errors.push(error),
+      onStateChange: (state) => {
+        if (state === "closed") resolve();
+      },
+      ...options,
+    });
+  });
+  return { subscription: subscription!, closed, messages, errors };
+}
+
+describe("subscribe", () => {
+  it("parses a scripted event stream split across chunks", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/events").replyWithOnce(() => ({
+      status: 200,
+      headers: EVENT_STREAM_HEADERS,
+      data: eventStream([
+        'id: 1\ndata: {"n":',
+        "1}\n\n: heartbeat\n\nevent: ping\nid: 2\r\n",
+        "data: hello\r\n\r\n",
+      ]),
+    }));
+    mock.onGet("/events").reply(204);
+    const client = createClient(mock);
+
+    const { closed, messages } = collect(client, "/events");
+    await closed;
+
+    expect(messages).toEqual([
+      { id: "1", event: "message", data: { n: 1 } },
+      { id: "2", event: "ping", data: "hello" },
+    ]);
+    client.dispose();
+  });
+
+  it("reconnects with the last event ID after the stream ends", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/events").replyWithOnce(() => ({
+      status: 200,
+      headers: EVENT_STREAM_HEADERS,
+      data: eventStream(['id: 7\ndata: {"n":7}\n\n', "retry: 1\n\n"]),
+    }));
+    mock.onGet("/events").replyWithOnce(() => ({
+      status: 200,
+      headers: EVENT_STREAM_HEADERS,
+      data: eventStream(['id: 8\ndata: {"n":8}\n\n']),
+    }));
+    mock.onGet("/events").reply(204);
+    const client = createClient(mock);
+
+    const { closed, messages } = collect(client, "/events", {
+      lastEventIdParam: "lastEventId",
+    });
+    await closed;
+
+    const requests = mock.findRequests("get", "/events");
+    expect(requests.map((request) => request.headers["Last-Event-ID"])).toEqual(
+      [undefined, "7", "8"]
+    );
+    expect(requests[1].params).toEqual({ lastEventId: "7" });
+    expect(messages.map((message) => message.data)).toEqual([
+      { n: 7 },
+      { n: 8 },
+    ]);
+    client.dispose();
+  });
+
+  it("refreshes the token and reconnects when the connect request gets a 401", async () => {
+    const mock = new MockAdapter();
+    mock
+      .onPost(REISSUE_URL)
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    mock.onGet("/events").replyOnce(401);
+    mock.onGet("/events").replyWithOnce(() => ({
+      status: 200,
+      headers: EVENT_STREAM_HEADERS,
+      data: eventStream(['data: {"n":1}\n\n']),
+    }));
+    mock.onGet("/events").reply(204);
+    const client = createClient(mock);
+
+    const { closed, messages, errors } = collect(client, "/events");
+    await closed;
+
+    const requests = mock.findRequests("get", "/events");
+    expect(requests.map((request) => request.headers.Authorization)).toEqual([
+      "Bearer old",
+      "Bearer new",
+      "Bearer new",
+    ]);
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    expect(messages.map((message) => message.data)).toEqual([{ n: 1 }]);
+    expect(errors).toEqual([]);
+    client.dispose();
+  });
+
+  it("falls back to long-polling in auto mode when the response is not an event stream", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/events").replyOnce(200, { unexpected: true });
+    mock.onGet("/events").replyOnce(200, [
+      { id: "5", event: "update", data: { n: 5 } },
+      { id: "6", data: { n: 6 } },
+    ]);
+    const client = createClient(mock);
+
+    const { subscription, closed, messages } = collect(client, "/events", {
+      transport: "auto",
+      onMessage: (message) => {
+        messages.push(message);
+        if (messages.length === 2) subscription.close();
+      },
+    });
+    await closed;
+
+    const requests = mock.findRequests("get", "/events");
+    expect(subscription.transport).toBe("long-polling");
+    expect(requests.map((request) => request.headers.Accept)).toEqual([
+      "text/event-stream",
+      "application/json",
+    ]);
+    expect(messages).toEqual([
+      { id: "5", event: "update", data: { n: 5 } },
+      { id: "6", event: "message", data: { n: 6 } },
+    ]);
+    expect(subscription.lastEventId).toBe("6");
+    client.dispose();
+  });
+
+  it("closes with an error in sse mode when the response is not an event stream", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/events").reply(200, { unexpected: true });
+    const client = createClient(mock);
+
+    const { closed, errors } = collect(client, "/events");
+    await closed;
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ name: "ConfigurationError" });
+    expect(mock.findRequests("get", "/events")).toHaveLength(1);
+    client.dispose();
+  });
+});
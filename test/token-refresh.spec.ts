@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AuthTokens,
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+
+const BASE_URL = "https://api.test";
+const REISSUE_URL = "/auth/reissue";
+
+function createStorageClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  let tokens: AuthTokens = { accessToken: "old", refreshToken: "refresh" };
+  const client = new RemoteRequest({
+    baseURL: BASE_URL,
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.STORAGE,
+      fetchAuthTokenMethod: async () => tokens,
+    },
+    tokenConfig: {
+      tokenReissueUrl: REISSUE_URL,
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    reissueTokenSuccessCallback: async (accessToken, refreshToken) => {
+      tokens = { accessToken, refreshToken };
+    },
+    ...options,
+  });
+  return { client, getTokens: () => tokens };
+}
+
+function createCookieClient(mock: MockAdapter) {
+  return new RemoteRequest({
+    baseURL: BASE_URL,
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: REISSUE_URL,
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+  });
+}
+
+describe("token refresh", () => {
+  it("shares one reissue between concurrent 401 responses", async () => {
+    const mock = new MockAdapter({ delay: 5 });
+    mock
+      .onPost(REISSUE_URL)
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    mock
+      .onAny()
+      .replyWith((request) =>
+        request.headers.Authorization === "Bearer new"
+          ? { status: 200, data: { url: request.url } }
+          : { status: 401 }
+      );
+    const { client, getTokens } = createStorageClient(mock);
+
+    const responses = await Promise.all(
+      ["/a", "/b", "/c"].map((url) => client.get(url))
+    );
+
+    expect(responses.map((response) => response.data)).toEqual([
+      { url: "/a" },
+      { url: "/b" },
+      { url: "/c" },
+    ]);
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    expect(getTokens()).toEqual({
+      accessToken: "new",
+      refreshToken: "refresh2",
+    });
+    client.dispose();
+  });
+
+  it("replays the rejected request with the reissued access token", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").replyOnce(401).reply(200, { id: 1 });
+    mock
+      .onPost(REISSUE_URL)
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    const { client } = createStorageClient(mock);
+
+    const response = await client.get("/me");
+
+    const [rejected, replayed] = mock.findRequests("get", "/me");
+    expect(response.data).toEqual({ id: 1 });
+    expect(rejected.headers.Authorization).toBe("Bearer old");
+    expect(replayed.headers.Authorization).toBe("Bearer new");
+    client.dispose();
+  });
+
+  it("rejects every queued request once when the shared reissue fails", async () => {
+    const mock = new MockAdapter({ delay: 5 });
+    mock.onPost(REISSUE_URL).reply(401);
+    mock.onAny().reply(401);
+    const { client } = createStorageClient(mock, {
+      tokenConfig: {
+        tokenReissueUrl: REISSUE_URL,
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+        refreshPolicy: { maxRetries: 0 },
+      },
+    });
+
+    const errors = await Promise.all(
+      ["/a", "/b"].map((url) =>
+        client.get(url).then(
+          () => null,
+          (error) => error
+        )
+      )
+    );
+
+    expect(errors.map((error) => error?.code)).toEqual([
+      "TOKEN_REFRESH_FAILED",
+      "TOKEN_REFRESH_FAILED",
+    ]);
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    client.dispose();
+  });
+
+  it("stops waiting between reissue retries when the client is disposed", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(401);
+    mock.onPost(REISSUE_URL).reply(503);
+    const { client } = createStorageClient(mock, {
+      tokenConfig: {
+        tokenReissueUrl: REISSUE_URL,
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+        refreshPolicy: { maxRetries: 3, baseDelay: 60_000, maxDelay: 60_000 },
+      },
+    });
+
+    const result = client.get("/me").then(
+      () => null,
+      (error) => error
+    );
+    while (mock.findRequests("post", REISSUE_URL).length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    client.dispose();
+
+    expect(await result).toMatchObject({
+      code: "TOKEN_REFRESH_FAILED",
+      reason: "cancelled",
+    });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    expect(client.getSessionState()).not.toBe("expired");
+  });
+});
+
+describe("token transport modes", () => {
+  it("sends the stored access token as a Bearer header in storage mode", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(200, { id: 1 });
+    const { client } = createStorageClient(mock);
+
+    await client.get("/me");
+
+    const [request] = mock.history;
+    expect(request.headers.Authorization).toBe("Bearer old");
+    expect(request.config.withCredentials).toBe(false);
+    client.dispose();
+  });
+
+  it("sends credentials without an Authorization header in cookie mode", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(200, { id: 1 });
+    const client = createCookieClient(mock);
+
+    await client.get("/me");
+
+    const [request] = mock.history;
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(request.config.withCredentials).toBe(true);
+    client.dispose();
+  });
+
+  it("reissues with an empty body in cookie mode and replays the request", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").replyOnce(401).reply(200, { id: 1 });
+    mock.onPost(REISSUE_URL).reply(200, {});
+    const client = createCookieClient(mock);
+
+    const response = await client.get("/me");
+
+    expect(response.data).toEqual({ id: 1 });
+    expect(mock.history.map((request) => request.url)).toEqual([
+      "/me",
+      REISSUE_URL,
+      "/me",
+    ]);
+    expect(mock.history[1].data).toEqual({});
+    client.dispose();
+  });
+
+  it("posts the stored tokens to the reissue endpoint in storage mode", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").replyOnce(401).reply(200, { id: 1 });
+    mock
+      .onPost(REISSUE_URL)
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    const { client } = createStorageClient(mock);
+
+    await client.get("/me");
+
+    expect(mock.findRequests("post", REISSUE_URL)[0].data).toEqual({
+      accessToken: "old",
+      refreshToken: "refresh",
+    });
+    client.dispose();
+  });
+});
+
+describe("reissue request pipeline", () => {
+  it("skips middleware, key conversion and encryption for the reissue request", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").replyOnce(401).reply(200, { user_id: 1 });
+    mock
+      .onPost(REISSUE_URL)
+      .reply(200, { accessToken: "new", refreshToken: "refresh2" });
+    const seen: string[] = [];
+    const { client, getTokens } = createStorageClient(mock, {
+      keyCase: { request: "snake_case", response: "camelCase" },
+      encryptionConfig: {
+        rules: [{ match: "/" }],
+        requestInterceptor: (config) => {
+          config.data = { sealed: JSON.stringify(config.data ?? null) };
+          return config;
+        },
+        responseInterceptor: (response) => response,
+      },
+    });
+    client.use({
+      before: (config) => {
+        seen.push(`outer ${config.url}`);
+      },
+    });
+    client.use({
+      position: "inner",
+      before: (config) => {
+        seen.push(`inner ${config.url}`);
+      },
+    });
+
+    const response = await client.get("/me");
+
+    expect(response.data).toEqual({ userId: 1 });
+    expect(mock.findRequests("post", REISSUE_URL)[0].data).toEqual({
+      accessToken: "old",
+      refreshToken: "refresh",
+    });
+    expect(getTokens().accessToken).toBe("new");
+    expect(seen.every((entry) => !entry.includes(REISSUE_URL))).toBe(true);
+    client.dispose();
+  });
+
+  it("leaves retries of a failed reissue to the refresh policy", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/me").reply(401);
+    mock.onPost(REISSUE_URL).reply(503);
+    const { client } = createStorageClient(mock, {
+      retry: {
+        maxRetries: 3,
+        baseDelay: 1,
+        retryMethods: ["get", "post"],
+      },
+      tokenConfig: {
+        tokenReissueUrl: REISSUE_URL,
+        checkTokenExpiredError: (error) => error.response?.status === 401,
+        errorMappers: {},
+        refreshPolicy: { maxRetries: 0 },
+      },
+    });
+
+    await expect(client.get("/me")).rejects.toMatchObject({
+      code: "TOKEN_REFRESH_FAILED",
+    });
+    expect(mock.findRequests("post", REISSUE_URL)).toHaveLength(1);
+    client.dispose();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ChunkedUploadProgress,
+  createContentRangeUploadProtocol,
+  MockAdapter,
+  RemoteRequest,
+  RemoteRequestOptions,
+  TokenTransportType,
+} from "../src";
+
+function createClient(
+  mock: MockAdapter,
+  options: Partial<RemoteRequestOptions> = {}
+) {
+  return new RemoteRequest({
+    baseURL: "https://api.test",
+    adapter: mock.adapter,
+    logLevel: "silent",
+    tokenTransportConfig: {
+      tokenTransportType: TokenTransportType.WEB_COOKIE,
+    },
+    tokenConfig: {
+      tokenReissueUrl: "/auth/reissue",
+      checkTokenExpiredError: (error) => error.response?.status === 401,
+      errorMappers: {},
+    },
+    ...options,
+  });
+}
+
+describe("upload", () => {
+  it("wraps a file in multipart form data with the extra fields", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/files").reply(201, { id: "f1" });
+    const client = createClient(mock);
+    const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+
+    const response = await client.upload("/files", file, {
+      fieldName: "attachment",
+      fields: { folder: "docs" },
+    });
+
+    const body = mock.history[0].config.data as FormData;
+    expect(response.data).toEqual({ id: "f1" });
+    expect(body).toBeInstanceOf(FormData);
+    expect(body.get("folder")).toBe("docs");
+    expect((body.get("attachment") as File).name).toBe("hello.txt");
+    client.dispose();
+  });
+
+  it("sends the blob as the body with its content type in raw mode", async () => {
+    const mock = new MockAdapter();
+    mock.onPut().reply(200);
+    const client = createClient(mock);
+    const blob = new Blob(["{}"], { type: "application/json" });
+
+    await client.upload("https://storage.test/presigned", blob, {
+      method: "put",
+      raw: true,
+    });
+
+    const [request] = mock.history;
+    expect(request.config.data).toBe(blob);
+    expect(request.headers["Content-Type"]).toBe("application/json");
+    client.dispose();
+  });
+
+  it("never queues uploads while offline", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/files").networkError();
+    const client = createClient(mock, {
+      offlineQueue: { isOffline: () => true, autoFlush: false },
+    });
+
+    await expect(
+      client.upload("/files", new Blob(["x"]))
+    ).rejects.toMatchObject({ name: "NetworkError" });
+    await expect(client.getQueuedMutations()).resolves.toEqual([]);
+    client.dispose();
+  });
+});
+
+describe("download", () => {
+  it("requests a blob and bypasses the response cache", async () => {
+    const mock = new MockAdapter();
+    mock.onGet("/report").reply(200, "csv");
+    const client = createClient(mock, { cache: { ttl: 60_000 } });
+
+    await client.download("/report");
+    await client.download("/report", { responseType: "text" });
+
+    expect(mock.history.map((request) => request.config.responseType)).toEqual([
+      "blob",
+      "text",
+    ]);
+    expect(mock.history).toHaveLength(2);
+    client.dispose();
+  });
+});
+
+describe("uploadChunked", () => {
+  const protocol = createContentRangeUploadProtocol<{ id: string }>({
+    createUrl: "/uploads",
+    chunkUrl: (uploadId) => `/uploads/${uploadId}`,
+    completeUrl: (uploadId) => `/uploads/${uploadId}/complete`,
+  });
+
+  it("sends chunks with Content-Range and resumes from the server position after a failure", async () => {
+    const mock = new MockAdapter();
+    mock.onPost("/uploads").reply(201, { uploadId: "u1" });
+    mock.onPut("/uploads/u1").replyOnce(200).replyOnce(503).reply(200);
+    mock.onHead("/uploads/u1").reply(200, undefined, { range: "bytes=0-3" });
+    mock.onPost("/uploads/u1/complete").reply(200, { id: "f1" });
+    const client = createClient(mock);
+    const progress: ChunkedUploadProgress[] = [];
+
+    const result = await client.uploadChunked(
+      new Blob(["0123456789"]),
+      protocol,
+      {
+        chunkSize: 4,
+        retryDelay: 1,
+        onProgress: (event) => progress.push(event),
+      }
+    );
+
+    expect(result).toEqual({ id: "f1" });
+    expect(
+      mock
+        .findRequests("put", "/uploads/u1")
+        .map((request) => request.headers["Content-Range"])
+    ).toEqual(["bytes 0-3/10", "bytes 4-7/10", "bytes 4-7/10", "bytes 8-9/10"]);
+    expect(progress[progress.length - 1]).toMatchObject({
+      uploadId: "u1",
+      loaded: 10,
+      progress: 1,
+    });
+    client.dispose();
+  });
+
+  it("resumes an existing upload from the uploaded byte count", async () => {
+    const mock = new MockAdapter();
+    mock.onHead("/uploads/u2").reply(200, undefined, { range: "bytes=0-7" });
+    mock.onPut("/uploads/u2").reply(200);
+    mock.onPost("/uploads/u2/complete").reply(200, { id: "f2" });
+    const client = createClient(mock);
+
+    await client.uploadChunked(new Blob(["0123456789"]), protocol, {
+      chunkSize: 4,
+      uploadId: "u2",
+    });
+
+    expect(mock.findRequests("post", "/uploads")).toHaveLength(0);
+    expect(
+      mock
+        .findRequests("put")
+        .map((request) => request.headers["Content-Range"])
+    ).toEqual(["bytes 8-9/10"]);
+    client.dispose();
+  });
+});